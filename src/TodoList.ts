@@ -2,77 +2,406 @@
  * TodoList class with CRUD operations and validation
  */
 
-import { Todo, TodoFilter, TodoStats, ValidationError, StorageError } from './types.js';
-import { StorageUtils } from './utils.js';
+import {
+  Todo,
+  StoredTodo,
+  TodoFilter,
+  TodoStats,
+  TodoAnalytics,
+  AnalyticsOptions,
+  TodoDetails,
+  TodoUpdates,
+  TodoSort,
+  TodoPriority,
+  TagDefinition,
+  TAG_COLORS,
+  TAG_COLOR_PATTERN,
+  TODO_FILTERS,
+  TODO_PRIORITIES,
+  DEFAULT_SORT,
+  TodoStorage,
+  TodoEvent,
+  TodoEventType,
+  TodoEventListener,
+  TodoHistoryState,
+  ActivityEntry,
+  ActivityQuery,
+  ActivityType,
+  StoredActivityEntry,
+  StoredCompletionRecord,
+  QuarantinedData,
+  TodoImportResult,
+  ImportOptions,
+  ImportLineError,
+  IMPORT_MODES,
+  SearchNode,
+  TodoListOptions,
+  CascadeRules,
+  SubtaskProgress,
+  DEFAULT_CASCADE_RULES,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  MAX_TODO_DEPTH,
+  MaybePromise,
+  ValidationError,
+  StorageError
+} from './types.js';
+import { LocalStorageTodoStorage } from './storage.js';
+import { TodoHistory } from './history.js';
+import { ActivityLog } from './activity.js';
+import { calculateAnalytics, toCompletionRecord, fromCompletionRecord, readCompletionLog, MAX_COMPLETION_RECORDS } from './analytics.js';
+import { validateRecurrence, getNextOccurrence } from './recurrence.js';
+import { getTodoFormat } from './formats.js';
+import { parseQuery, matchesQuery } from './search.js';
+import { StorageUtils, calculateStats, isOverdue, isDueToday, sortTodos, normalizeTags, isValidTodoId, normalizeTag, hasAllTags, resolveAll } from './utils.js';
+
+// Smallest gap between neighbouring orders before todos are renumbered
+const MIN_ORDER_GAP = 1e-6;
+
+// Milliseconds in a day, for the trash retention period
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Everything TodoList loads from its storage backend
+interface PersistedState {
+  todos: Todo[];
+  filter: TodoFilter;
+  sort: TodoSort;
+  tags: TagDefinition[];
+  history: TodoHistoryState | null;
+  activity: StoredActivityEntry[];
+  completionLog: StoredCompletionRecord[];
+  quarantine: QuarantinedData[];
+}
 
 export class TodoList {
-  private todos: Todo[] = [];
+  private todos: Todo[] = []; // includes todos in the trash (with `deletedAt`)
   private currentFilter: TodoFilter = 'all';
+  private currentSort: TodoSort = { ...DEFAULT_SORT };
+  private tagFilter: string[] = [];
+  private searchQuery = '';
+  private searchNode: SearchNode | null = null;
+  private tagRegistry: TagDefinition[] = [];
+  private quarantine: QuarantinedData[] = [];
+  private ready: Promise<void>;
+  private pendingWrites: Promise<void> = Promise.resolve();
+  private lastWriteError: StorageError | null = null;
+  private listeners = new Map<TodoEventType | '*', Set<TodoEventListener>>();
+  private history: TodoHistory;
+  private activity: ActivityLog;
+  private completionLog: StoredCompletionRecord[] = []; // todos purged from the trash, for analytics
+  private cascade: CascadeRules;
+  private trashRetentionDays: number | null = DEFAULT_TRASH_RETENTION_DAYS;
+
+  constructor(private storage: TodoStorage = new LocalStorageTodoStorage(), options: TodoListOptions = {}) {
+    this.history = new TodoHistory(options.historyDepth);
+    this.activity = new ActivityLog(options.activityLimit);
+    this.cascade = { ...DEFAULT_CASCADE_RULES, ...options.cascade };
+    if (options.trashRetentionDays !== undefined) {
+      this.validateTrashRetention(options.trashRetentionDays);
+      this.trashRetentionDays = options.trashRetentionDays;
+    }
+    // Initialize todo list with data from the storage backend
+    this.ready = this.loadFromStorage();
+  }
+
+  /**
+   * Resolve once the initial load from storage has finished
+   *
+   * Asynchronous backends (e.g. IndexedDB) load in the background, so wait
+   * for this before reading or mutating the list.
+   */
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  /**
+   * Subscribe to todo events ('*' receives every event)
+   *
+   * Returns a function that removes the listener again.
+   */
+  on(type: TodoEventType | '*', listener: TodoEventListener): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener);
+
+    return () => this.off(type, listener);
+  }
+
+  /**
+   * Unsubscribe a listener from todo events
+   */
+  off(type: TodoEventType | '*', listener: TodoEventListener): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  /**
+   * Wait for pending storage writes, rethrowing the last write failure
+   */
+  async flush(): Promise<void> {
+    await this.pendingWrites;
 
-  constructor() {
-    // Initialize todo list with data from localStorage
-    this.loadFromStorage();
+    if (this.lastWriteError) {
+      const error = this.lastWriteError;
+      this.lastWriteError = null;
+      throw error;
+    }
   }
 
   /**
    * Add a new todo
    */
-  addTodo(text: string): Todo {
+  addTodo(text: string, details: TodoDetails = {}): Todo {
     try {
-      this.validateTodoText(text);
-      
-      const sanitizedText = this.sanitizeTodoText(text);
-      const newTodo: Todo = {
-        id: this.generateId(),
-        text: sanitizedText,
-        completed: false,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
+      return this.insertTodo(text, details, undefined, 'Add todo');
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to add todo: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      this.todos.push(newTodo);
+  /**
+   * Add a subtask under an existing todo
+   */
+  addSubtask(parentId: string, text: string, details: TodoDetails = {}): Todo {
+    try {
+      this.validateId(parentId);
+      const parent = this.findActiveTodo(parentId);
+      if (!parent) {
+        throw new ValidationError('Parent todo not found');
+      }
+      if (this.getDepth(parent) + 1 >= MAX_TODO_DEPTH) {
+        throw new ValidationError(`Subtasks cannot be nested more than ${MAX_TODO_DEPTH - 1} levels deep`);
+      }
+
+      return this.insertTodo(text, details, parentId, 'Add subtask');
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to add subtask: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Move a todo (with its subtasks) under a new parent, or to the top level with null
+   */
+  moveSubtask(id: string, parentId: string | null): Todo | null {
+    try {
+      this.validateId(id);
+      const todoIndex = this.todos.findIndex(todo => todo.id === id && !todo.deletedAt);
+      const todo = this.todos[todoIndex];
+      if (!todo) {
+        return null;
+      }
+
+      if (parentId !== null) {
+        this.validateId(parentId);
+        const parent = this.findActiveTodo(parentId);
+        if (!parent) {
+          throw new ValidationError('Parent todo not found');
+        }
+        if (parentId === id || this.getDescendantIds(id).has(parentId)) {
+          throw new ValidationError('A todo cannot be moved under itself or one of its subtasks');
+        }
+        if (this.getDepth(parent) + 1 + this.getSubtreeHeight(id) > MAX_TODO_DEPTH) {
+          throw new ValidationError(`Subtasks cannot be nested more than ${MAX_TODO_DEPTH - 1} levels deep`);
+        }
+      }
+
+      if ((todo.parentId ?? null) === parentId) {
+        return todo;
+      }
+
+      const before = [...this.todos];
+      const { parentId: _previousParentId, ...rest } = todo;
+      const movedTodo: Todo = parentId === null
+        ? { ...rest, updatedAt: new Date() }
+        : { ...rest, parentId, updatedAt: new Date() };
+
+      this.todos[todoIndex] = movedTodo;
       this.saveToStorage();
-      return newTodo;
+      this.recordHistory(parentId === null ? 'Promote subtask' : 'Move subtask', before);
+      this.emit({ type: 'update', todo: movedTodo });
+      return movedTodo;
     } catch (error) {
-      if (error instanceof ValidationError) {
-        throw error; // Re-throw validation errors as-is
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
       }
-      throw new Error(`Failed to add todo: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to move subtask: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Promote a subtask one level up (to its grandparent, or the top level)
+   */
+  promoteSubtask(id: string): Todo | null {
+    try {
+      this.validateId(id);
+      const todo = this.findActiveTodo(id);
+      if (!todo) {
+        return null;
+      }
+      if (!todo.parentId) {
+        throw new ValidationError('Todo is already at the top level');
+      }
+
+      const parent = this.todos.find(candidate => candidate.id === todo.parentId);
+      return this.moveSubtask(id, parent?.parentId ?? null);
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to promote subtask: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the direct subtasks of a todo
+   */
+  getSubtasks(id: string): Todo[] {
+    return this.todos.filter(todo => todo.parentId === id && !todo.deletedAt);
+  }
+
+  /**
+   * Get a todo followed by all of its subtasks, parents before children
+   */
+  getSubtree(id: string): Todo[] {
+    const root = this.findActiveTodo(id);
+    if (!root) {
+      return [];
+    }
+
+    const descendantIds = this.getDescendantIds(id);
+    return [root, ...this.todos.filter(todo => descendantIds.has(todo.id))]
+      .sort((a, b) => this.getDepth(a) - this.getDepth(b));
+  }
+
+  /**
+   * Get how deeply a todo is nested (0 for top-level todos)
+   */
+  getTodoDepth(id: string): number {
+    const todo = this.findActiveTodo(id);
+    return todo ? this.getDepth(todo) : 0;
+  }
+
+  /**
+   * Get completion progress of a todo's direct subtasks ("3/5 done")
+   */
+  getSubtaskProgress(id: string): SubtaskProgress {
+    const subtasks = this.getSubtasks(id);
+    return {
+      completed: subtasks.filter(todo => todo.completed).length,
+      total: subtasks.length
+    };
+  }
+
+  /**
+   * Get the cascade rules applied to subtasks
+   */
+  getCascadeRules(): CascadeRules {
+    return { ...this.cascade };
+  }
+
+  /**
+   * Change the cascade rules applied to subtasks
+   */
+  setCascadeRules(rules: Partial<CascadeRules>): void {
+    const cascade = { ...this.cascade, ...rules };
+
+    if (cascade.onComplete !== 'none' && cascade.onComplete !== 'complete-children') {
+      throw new ValidationError('Invalid completion cascade rule');
+    }
+    if (cascade.onDelete !== 'delete-children' && cascade.onDelete !== 'promote-children') {
+      throw new ValidationError('Invalid deletion cascade rule');
+    }
+
+    this.cascade = cascade;
+  }
+
+  /**
+   * Add an existing todo (e.g. one moved from another list), keeping its id and timestamps
+   */
+  adoptTodo(todo: Todo): Todo {
+    try {
+      const before = [...this.todos];
+      const [adoptedTodo] = this.adoptAll([todo]);
+      this.recordHistory('Move todo here', before, 'moved-in');
+      this.emit({ type: 'add', todo: adoptedTodo! });
+      return adoptedTodo!;
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to adopt todo: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Add several existing todos at once, saving once
+   *
+   * Parents must come before their subtasks; a subtask keeps its parent if
+   * the parent is already in this list or earlier in the batch.
+   */
+  adoptTodos(todos: Todo[]): Todo[] {
+    try {
+      if (todos.length === 0) {
+        return [];
+      }
+
+      const before = [...this.todos];
+      const adoptedTodos = this.adoptAll(todos);
+      this.recordHistory(`Move ${adoptedTodos.length} todos here`, before, 'moved-in');
+      this.emit({ type: 'add', todos: adoptedTodos });
+      return adoptedTodos;
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to adopt todos: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Get all todos
+   * Get all todos (not those in the trash)
    */
   getAllTodos(): Todo[] {
     try {
-      return [...this.todos];
+      return this.activeTodos();
     } catch (error) {
       throw new Error(`Failed to get todos: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Get todos based on current filter
+   * Get todos based on current filter, in the current sort order
    */
   getFilteredTodos(): Todo[] {
     try {
-      return this.filterTodos(this.todos, this.currentFilter);
+      const now = new Date();
+      const searchNode = this.searchNode;
+      const filteredTodos = this.filterTodos(this.activeTodos(), this.currentFilter)
+        .filter(todo => hasAllTags(todo, this.tagFilter))
+        .filter(todo => !searchNode || matchesQuery(todo, searchNode, now));
+      return sortTodos(filteredTodos, this.currentSort);
     } catch (error) {
       throw new Error(`Failed to get filtered todos: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Get a specific todo by ID
+   * Get a specific todo by ID (undefined for todos in the trash)
    */
   getTodoById(id: string): Todo | undefined {
     try {
       this.validateId(id);
-      return this.todos.find(todo => todo.id === id);
+      return this.findActiveTodo(id);
     } catch (error) {
-      if (error instanceof ValidationError) {
-        throw error; // Re-throw validation errors as-is
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
       }
       throw new Error(`Failed to get todo by ID: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -81,194 +410,1206 @@ export class TodoList {
   /**
    * Update a todo
    */
-  updateTodo(id: string, updates: Partial<Pick<Todo, 'text' | 'completed'>>): Todo | null {
+  updateTodo(id: string, updates: TodoUpdates): Todo | null {
+    try {
+      this.validateId(id);
+
+      if (!this.getTodoById(id)) {
+        return null;
+      }
+
+      const before = [...this.todos];
+      const { updated, added } = this.applyUpdates([[id, updates]]);
+      const updatedTodo = updated[0]!;
+      this.registerTags(updatedTodo.tags);
+      this.recordHistory('Update todo', before);
+      this.emit({ type: 'update', todo: updatedTodo });
+      added.forEach(todo => this.emit({ type: 'add', todo }));
+      return updatedTodo;
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to update todo: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Update several todos at once
+   *
+   * `updates` is applied to every todo, or called per todo to compute its
+   * updates. The whole batch is validated before anything changes, and it is
+   * saved, recorded in history and announced once.
+   */
+  updateMany(ids: string[], updates: TodoUpdates | ((todo: Todo) => TodoUpdates)): Todo[] {
+    try {
+      const todos = this.requireTodos(ids);
+      if (todos.length === 0) {
+        return [];
+      }
+
+      const before = [...this.todos];
+      const { updated, added } = this.applyUpdates(
+        todos.map(todo => [todo.id, typeof updates === 'function' ? updates(todo) : updates])
+      );
+      this.registerTags(updated.flatMap(todo => todo.tags));
+      this.recordHistory(`Update ${updated.length} todos`, before);
+      this.emit({ type: 'update', todos: updated });
+      if (added.length > 0) {
+        this.emit({ type: 'add', todos: added });
+      }
+      return updated;
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to update todos: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Toggle todo completion status
+   */
+  toggleTodo(id: string): Todo | null {
     try {
       this.validateId(id);
       
-      const todoIndex = this.todos.findIndex(todo => todo.id === id);
-      
-      if (todoIndex === -1) {
+      const todo = this.getTodoById(id);
+      if (!todo) {
         return null;
       }
 
-      const todo = this.todos[todoIndex];
+      const before = [...this.todos];
+      const { updated, added } = this.applyUpdates([[id, { completed: !todo.completed }]]);
+      const updatedTodo = updated[0]!;
+      this.recordHistory(updatedTodo.completed ? 'Complete todo' : 'Reopen todo', before);
+      this.emit({ type: 'toggle', todo: updatedTodo });
+      added.forEach(todo => this.emit({ type: 'add', todo }));
+      return updatedTodo;
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to toggle todo: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Toggle the completion status of several todos at once, saving once
+   */
+  toggleMany(ids: string[]): Todo[] {
+    try {
+      const todos = this.requireTodos(ids);
+      if (todos.length === 0) {
+        return [];
+      }
+
+      const before = [...this.todos];
+      const { updated, added } = this.applyUpdates(todos.map(todo => [todo.id, { completed: !todo.completed }]));
+      this.recordHistory(`Toggle ${updated.length} todos`, before);
+      this.emit({ type: 'toggle', todos: updated });
+      if (added.length > 0) {
+        this.emit({ type: 'add', todos: added });
+      }
+      return updated;
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to toggle todos: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Move a todo to just before another todo (or to the end with null)
+   *
+   * Only the moved todo's order changes, so todos hidden by the current
+   * filter keep their positions relative to each other.
+   */
+  moveTodo(id: string, beforeId: string | null): Todo | null {
+    try {
+      this.validateId(id);
+      if (beforeId !== null) {
+        this.validateId(beforeId);
+      }
+
+      const todo = this.getTodoById(id);
       if (!todo) {
         return null;
       }
-      
-      // Validate text if it's being updated
-      if (updates.text !== undefined) {
-        this.validateTodoText(updates.text);
-        updates.text = this.sanitizeTodoText(updates.text);
+      if (beforeId === id) {
+        return todo;
+      }
+
+      const remaining = this.todos.filter(candidate => candidate.id !== id);
+      const targetIndex = beforeId === null
+        ? remaining.length
+        : remaining.findIndex(candidate => candidate.id === beforeId && !candidate.deletedAt);
+      if (targetIndex === -1) {
+        throw new ValidationError('Todo to move before not found');
+      }
+      if (this.todos.indexOf(todo) === targetIndex) {
+        return todo;
+      }
+
+      const before = [...this.todos];
+      const movedTodo: Todo = { ...todo, order: this.orderAt(remaining, targetIndex) };
+      remaining.splice(targetIndex, 0, movedTodo);
+
+      this.todos = this.orderTodos(remaining);
+      this.saveToStorage();
+      this.recordHistory('Reorder todo', before);
+
+      const result = this.getTodoById(id) ?? movedTodo;
+      this.emit({ type: 'reorder', todo: result });
+      return result;
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
       }
+      throw new Error(`Failed to move todo: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete a todo, moving it (and its subtasks, per the cascade rule) to the trash
+   */
+  deleteTodo(id: string): boolean {
+    try {
+      this.validateId(id);
       
-      // Validate completed status if it's being updated
-      if (updates.completed !== undefined) {
-        this.validateCompletedStatus(updates.completed);
+      const deletedTodo = this.findActiveTodo(id);
+      
+      if (!deletedTodo) {
+        return false;
+      }
+
+      const before = [...this.todos];
+      const removedTodos = this.removeTodos(new Set([id]));
+      this.saveToStorage();
+      this.recordHistory('Delete todo', before);
+      this.emit({ type: 'remove', todo: deletedTodo, todos: removedTodos });
+      return true;
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to delete todo: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete several todos at once, saving once
+   *
+   * Deleted todos go to the trash unless `permanent` is set (e.g. when they
+   * were moved to another list). Returns the number of todos removed,
+   * including subtasks removed by the delete cascade.
+   */
+  deleteMany(ids: string[], options: { permanent?: boolean } = {}): number {
+    try {
+      const todos = this.requireTodos(ids);
+      if (todos.length === 0) {
+        return 0;
+      }
+
+      const before = [...this.todos];
+      const removedTodos = this.removeTodos(new Set(todos.map(todo => todo.id)), options.permanent ? null : new Date());
+      this.saveToStorage();
+      this.recordHistory(`Delete ${todos.length} todos`, before);
+      this.emit({ type: 'remove', todos: removedTodos });
+      return removedTodos.length;
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to delete todos: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Move all completed todos to the trash
+   */
+  deleteCompletedTodos(): number {
+    try {
+      const before = [...this.todos];
+      const completedIds = new Set(this.activeTodos().filter(todo => todo.completed).map(todo => todo.id));
+      const removedTodos = this.removeTodos(completedIds);
+      this.saveToStorage();
+      this.recordHistory('Clear completed todos', before);
+      this.emit({ type: 'clear-completed', todos: removedTodos });
+      return removedTodos.length;
+    } catch (error) {
+      if (error instanceof StorageError) {
+        throw error; // Re-throw storage errors as-is
+      }
+      throw new Error(`Failed to delete completed todos: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the todos in the trash, most recently deleted first
+   */
+  getTrashedTodos(): Todo[] {
+    return this.todos
+      .filter(todo => todo.deletedAt)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+  }
+
+  /**
+   * Bring todos back from the trash
+   *
+   * Subtasks deleted together with a todo come back with it. A todo whose
+   * parent is gone or still in the trash comes back at the top level.
+   * Returns the restored todos.
+   */
+  restoreTodos(ids: string[]): Todo[] {
+    try {
+      const todos = this.requireTrashedTodos(ids);
+      if (todos.length === 0) {
+        return [];
+      }
+
+      const before = [...this.todos];
+      const restoreIds = new Set<string>();
+      todos.forEach(todo => {
+        const deletedTogether = this.todos.filter(candidate => candidate.deletedAt?.getTime() === todo.deletedAt!.getTime());
+        restoreIds.add(todo.id);
+        this.getDescendantIds(todo.id, deletedTogether).forEach(id => restoreIds.add(id));
+      });
+
+      const now = new Date();
+      this.todos = this.normalizeHierarchy(this.todos.map(todo => {
+        if (!restoreIds.has(todo.id)) {
+          return todo;
+        }
+        const { deletedAt: _deletedAt, ...restoredTodo } = todo;
+        return { ...restoredTodo, updatedAt: now };
+      }));
+      this.saveToStorage();
+
+      const restoredTodos = this.todos.filter(todo => restoreIds.has(todo.id));
+      this.recordHistory(restoredTodos.length === 1 ? 'Restore todo' : `Restore ${restoredTodos.length} todos`, before);
+      this.emit({ type: 'restore', todos: restoredTodos });
+      return restoredTodos;
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
       }
+      throw new Error(`Failed to restore todos: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Permanently delete todos in the trash (all of them without `ids`)
+   *
+   * Their subtasks in the trash go too. This cannot be undone. Returns the
+   * number of todos deleted.
+   */
+  purgeTrash(ids?: string[]): number {
+    try {
+      const trashedTodos = this.getTrashedTodos();
+      const purgeIds = new Set<string>();
+      (ids === undefined ? trashedTodos : this.requireTrashedTodos(ids)).forEach(todo => {
+        purgeIds.add(todo.id);
+        this.getDescendantIds(todo.id, trashedTodos).forEach(id => purgeIds.add(id));
+      });
+
+      return this.dropFromTrash(purgeIds).length;
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to empty the trash: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Permanently delete todos that have been in the trash longer than the retention period
+   *
+   * Runs when the list loads and when the retention period changes. Returns
+   * the number of todos deleted.
+   */
+  purgeExpiredTrash(now: Date = new Date()): number {
+    try {
+      if (this.trashRetentionDays === null) {
+        return 0;
+      }
+
+      const cutoff = now.getTime() - this.trashRetentionDays * DAY_MS;
+      const expiredIds = new Set(this.getTrashedTodos()
+        .filter(todo => todo.deletedAt!.getTime() <= cutoff)
+        .map(todo => todo.id));
+      return this.dropFromTrash(expiredIds).length;
+    } catch (error) {
+      if (error instanceof StorageError) {
+        throw error; // Re-throw storage errors as-is
+      }
+      throw new Error(`Failed to purge the trash: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get how many days deleted todos stay in the trash (null: until emptied)
+   */
+  getTrashRetentionDays(): number | null {
+    return this.trashRetentionDays;
+  }
+
+  /**
+   * Change how many days deleted todos stay in the trash (null: until emptied)
+   *
+   * Todos already past the new period are deleted straight away.
+   */
+  setTrashRetentionDays(days: number | null): void {
+    this.validateTrashRetention(days);
+    this.trashRetentionDays = days;
+    this.purgeExpiredTrash();
+  }
+
+  /**
+   * Set the current filter
+   */
+  setFilter(filter: TodoFilter): void {
+    try {
+      this.validateFilter(filter);
+      this.currentFilter = filter;
+      this.saveFilterToStorage();
+      this.emit({ type: 'filter', filter });
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to set filter: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the current filter
+   */
+  getCurrentFilter(): TodoFilter {
+    try {
+      return this.currentFilter;
+    } catch (error) {
+      throw new Error(`Failed to get current filter: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Set the current sort order
+   */
+  setSort(sort: TodoSort): void {
+    try {
+      this.validateSort(sort);
+      this.currentSort = { field: sort.field, direction: sort.direction };
+      this.saveSortToStorage();
+      this.emit({ type: 'sort', sort: this.getCurrentSort() });
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to set sort order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the current sort order
+   */
+  getCurrentSort(): TodoSort {
+    return { ...this.currentSort };
+  }
+
+  /**
+   * Set the tags a todo must all have to pass the filter (empty for no tag filter)
+   */
+  setTagFilter(tags: string[]): void {
+    try {
+      this.tagFilter = normalizeTags(tags);
+      this.emit({ type: 'filter', filter: this.currentFilter, tags: this.getTagFilter() });
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to set tag filter: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the tags currently filtered by
+   */
+  getTagFilter(): string[] {
+    return [...this.tagFilter];
+  }
+
+  /**
+   * Set the search query todos must match to pass the filter (empty for no search)
+   *
+   * Throws a ValidationError for queries that do not parse; the previous
+   * query then stays in effect.
+   */
+  setSearchQuery(query: string): void {
+    try {
+      const trimmedQuery = typeof query === 'string' ? query.trim() : '';
+      this.searchNode = parseQuery(trimmedQuery);
+      this.searchQuery = trimmedQuery;
+      this.emit({ type: 'filter', filter: this.currentFilter, query: this.searchQuery });
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to set search query: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the current search query
+   */
+  getSearchQuery(): string {
+    return this.searchQuery;
+  }
+
+  /**
+   * Get the parsed current search query (null when not searching)
+   */
+  getSearchNode(): SearchNode | null {
+    return this.searchNode;
+  }
+
+  /**
+   * Get the tag registry, including any tag used by a todo, sorted by name
+   */
+  getTags(): TagDefinition[] {
+    const tags = new Map(this.tagRegistry.map(tag => [tag.name, { ...tag }]));
+
+    this.activeTodos().forEach(todo => todo.tags.forEach(name => {
+      if (!tags.has(name)) {
+        tags.set(name, { name, color: this.nextTagColor(tags.size) });
+      }
+    }));
+
+    return [...tags.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get the colour of a tag
+   */
+  getTagColor(tag: string): string {
+    const name = normalizeTag(tag);
+    return this.tagRegistry.find(definition => definition.name === name)?.color ?? this.nextTagColor(0);
+  }
+
+  /**
+   * Set the display colour of a tag, registering it if needed
+   */
+  setTagColor(tag: string, color: string): TagDefinition {
+    try {
+      const name = normalizeTags([tag])[0];
+      if (!name) {
+        throw new ValidationError('Tag cannot be empty');
+      }
+      this.validateTagColor(color);
+
+      const definition: TagDefinition = { name, color: color.toLowerCase() };
+      this.tagRegistry = [...this.tagRegistry.filter(existing => existing.name !== name), definition];
+      this.saveTagsToStorage();
+      this.emit({ type: 'tags', tags: [name] });
+      return definition;
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to set tag colour: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get todo statistics
+   */
+  getStats(): TodoStats {
+    try {
+      return calculateStats(this.activeTodos());
+    } catch (error) {
+      throw new Error(`Failed to get todo statistics: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get productivity analytics (completions per day and week, time to complete, streaks, backlog)
+   *
+   * Todos in the trash still count, and so do those purged from it through
+   * the completion log, so clearing completed todos does not erase the
+   * record of finishing them.
+   */
+  getAnalytics(options: AnalyticsOptions = {}): TodoAnalytics {
+    try {
+      return calculateAnalytics([...this.todos, ...this.completionLog.map(fromCompletionRecord)], options);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw error; // Re-throw validation errors as-is
+      }
+      throw new Error(`Failed to get analytics: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Move every todo to the trash
+   */
+  clearAll(): void {
+    try {
+      const deletedAt = new Date();
+      const clearedTodos = this.activeTodos().map(todo => ({ ...todo, deletedAt, updatedAt: deletedAt }));
+      const clearedById = new Map(clearedTodos.map(todo => [todo.id, todo]));
+      const before = this.todos;
+      this.todos = this.todos.map(todo => clearedById.get(todo.id) ?? todo);
+      this.saveToStorage();
+      this.recordActivity(before);
+      this.emit({ type: 'clear', todos: clearedTodos });
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to clear all todos: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Undo the most recent change
+   */
+  undo(): boolean {
+    try {
+      const result = this.history.undo(this.todos);
+      if (!result) {
+        return false;
+      }
+
+      const before = this.todos;
+      this.todos = this.orderTodos(result.todos);
+      this.saveToStorage();
+      this.saveHistoryToStorage();
+      this.recordActivity(before);
+      this.emit({ type: 'undo', todos: [...this.todos] });
+      return true;
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to undo: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Redo the most recently undone change
+   */
+  redo(): boolean {
+    try {
+      const result = this.history.redo(this.todos);
+      if (!result) {
+        return false;
+      }
+
+      const before = this.todos;
+      this.todos = this.orderTodos(result.todos);
+      this.saveToStorage();
+      this.saveHistoryToStorage();
+      this.recordActivity(before);
+      this.emit({ type: 'redo', todos: [...this.todos] });
+      return true;
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to redo: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Check if there is a change to undo
+   */
+  canUndo(): boolean {
+    return this.history.canUndo();
+  }
+
+  /**
+   * Check if there is a change to redo
+   */
+  canRedo(): boolean {
+    return this.history.canRedo();
+  }
+
+  /**
+   * Get a description of the change undo() would revert
+   */
+  getUndoLabel(): string | null {
+    return this.history.peekUndo();
+  }
+
+  /**
+   * Get a description of the change redo() would re-apply
+   */
+  getRedoLabel(): string | null {
+    return this.history.peekRedo();
+  }
+
+  /**
+   * Get activity log entries, newest first
+   *
+   * Pass `todoId` for one todo's history (it may since have been deleted);
+   * without it, the whole list's activity is returned. Only the most recent
+   * `activityLimit` entries are kept.
+   */
+  getActivity(query: ActivityQuery = {}): ActivityEntry[] {
+    return this.activity.query(query);
+  }
+
+  /**
+   * Get saved data that could not be read when the list was loaded
+   *
+   * The storage backend keeps a copy of unreadable data instead of
+   * discarding it; it stays there until discardQuarantinedData() is called.
+   */
+  getQuarantinedData(): QuarantinedData[] {
+    return this.quarantine.map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Permanently discard quarantined data
+   */
+  discardQuarantinedData(): void {
+    try {
+      this.trackWrite(this.storage.clearQuarantine(), 'Failed to discard quarantined data');
+      this.quarantine = [];
+    } catch (error) {
+      throw new StorageError(`Failed to discard quarantined data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get todos count
+   */
+  getTodosCount(): number {
+    return this.activeTodos().length;
+  }
+
+  /**
+   * Check if todo list is empty
+   */
+  isEmpty(): boolean {
+    return this.activeTodos().length === 0;
+  }
+
+  /**
+   * Private helper method to get the todos that are not in the trash
+   */
+  private activeTodos(): Todo[] {
+    return this.todos.filter(todo => !todo.deletedAt);
+  }
+
+  /**
+   * Private helper method to find a todo that is not in the trash
+   */
+  private findActiveTodo(id: string): Todo | undefined {
+    return this.todos.find(todo => todo.id === id && !todo.deletedAt);
+  }
+
+  /**
+   * Private helper method to look up todos in the trash, failing if any is missing
+   */
+  private requireTrashedTodos(ids: string[]): Todo[] {
+    if (!Array.isArray(ids)) {
+      throw new ValidationError('Todo IDs must be an array');
+    }
+
+    return [...new Set(ids)].map(id => {
+      this.validateId(id);
+      const todo = this.todos.find(candidate => candidate.id === id && candidate.deletedAt);
+      if (!todo) {
+        throw new ValidationError(`Todo not in the trash: ${id}`);
+      }
+      return todo;
+    });
+  }
+
+  /**
+   * Private helper method to permanently remove todos from the trash, saving and announcing it
+   */
+  private dropFromTrash(ids: Set<string>): Todo[] {
+    const purgedTodos = this.todos.filter(todo => todo.deletedAt && ids.has(todo.id));
+    if (purgedTodos.length === 0) {
+      return [];
+    }
+
+    const before = this.todos;
+    this.todos = this.normalizeHierarchy(this.todos.filter(todo => !(todo.deletedAt && ids.has(todo.id))));
+    this.saveToStorage();
+    this.recordActivity(before);
+    this.recordCompletions(purgedTodos);
+    this.emit({ type: 'purge', todos: purgedTodos });
+    return purgedTodos;
+  }
+
+  /**
+   * Notify listeners of an event
+   */
+  private emit(event: TodoEvent): void {
+    const listeners = [
+      ...(this.listeners.get(event.type) ?? []),
+      ...(this.listeners.get('*') ?? [])
+    ];
+
+    listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        // A failing listener must not break the mutation that triggered it
+        console.error(`Todo event listener failed for "${event.type}":`, error);
+      }
+    });
+  }
+
+  /**
+   * Private helper method to generate unique ID
+   */
+  private generateId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  }
+
+  /**
+   * Private helper method to validate and apply optional todo details
+   */
+  private applyDetails(todo: Todo, details: TodoDetails): Todo {
+    const result: Todo = { ...todo };
+
+    if (details.dueAt === null) {
+      delete result.dueAt;
+      delete result.dueAllDay;
+    } else if (details.dueAt !== undefined) {
+      this.validateDueDate(details.dueAt);
+      result.dueAt = new Date(details.dueAt);
+      result.dueAllDay = details.dueAllDay === true;
+    } else if (details.dueAllDay !== undefined && result.dueAt) {
+      result.dueAllDay = details.dueAllDay === true;
+    }
+
+    if (details.priority !== undefined) {
+      this.validatePriority(details.priority);
+      result.priority = details.priority;
+    }
+
+    if (details.tags !== undefined) {
+      result.tags = normalizeTags(details.tags);
+    }
+
+    if (details.recurrence === null) {
+      delete result.recurrence;
+    } else if (details.recurrence !== undefined) {
+      result.recurrence = validateRecurrence(details.recurrence);
+    }
+
+    return result;
+  }
+
+  /**
+   * Private helper method to validate and append existing todos without recording or emitting
+   */
+  private adoptAll(todos: Todo[]): Todo[] {
+    const ids = new Set(this.todos.map(existing => existing.id));
+    const prepared = todos.map(todo => {
+      this.validateId(todo.id);
+      this.validateTodoText(todo.text);
+      this.validateCompletedStatus(todo.completed);
+
+      if (ids.has(todo.id)) {
+        throw new ValidationError('A todo with this ID already exists in the list');
+      }
+
+      const { parentId, ...rest } = todo;
+      const hasParent = parentId !== undefined && ids.has(parentId);
+      ids.add(todo.id);
+      return this.applyDetails({
+        ...rest,
+        ...(hasParent ? { parentId } : {}),
+        text: this.sanitizeTodoText(todo.text)
+      }, {
+        dueAt: todo.dueAt ?? null,
+        dueAllDay: todo.dueAllDay,
+        priority: todo.priority,
+        tags: todo.tags
+      });
+    });
+
+    const adoptedTodos = prepared.map(todo => {
+      const adoptedTodo = { ...todo, order: this.orderAt(this.todos, this.todos.length) };
+      this.todos.push(adoptedTodo);
+      return adoptedTodo;
+    });
+
+    this.saveToStorage();
+    this.registerTags(adoptedTodos.flatMap(todo => todo.tags));
+    return adoptedTodos;
+  }
+
+  /**
+   * Private helper method to validate and apply updates to existing todos
+   *
+   * Every update is validated before any todo changes. Completing a todo
+   * applies the complete cascade and schedules its next occurrence, and
+   * storage is written once at the end. Returns the updated todos and any
+   * new occurrences of repeating todos.
+   */
+  private applyUpdates(changes: Array<[string, TodoUpdates]>): { updated: Todo[]; added: Todo[] } {
+    const prepared = changes.map(([id, updates]) => {
+      const todo = this.findActiveTodo(id);
+      if (!todo) {
+        throw new ValidationError(`Todo not found: ${id}`);
+      }
+      return { previous: todo, updates, next: this.buildUpdate(todo, updates) };
+    });
+
+    const nextById = new Map(prepared.map(({ next }) => [next.id, next]));
+    this.todos = this.todos.map(todo => nextById.get(todo.id) ?? todo);
+
+    const added: Todo[] = [];
+    prepared.forEach(({ previous, updates, next }) => {
+      if (updates.completed === true && this.cascade.onComplete === 'complete-children') {
+        // Subtasks completed along with their parent repeat just as if completed directly
+        this.completeDescendants(next.id).forEach(subtask => {
+          const [, nextOccurrence] = this.scheduleNextOccurrence(subtask);
+          if (nextOccurrence) {
+            added.push(nextOccurrence);
+          }
+        });
+      }
+      if (next.completed && !previous.completed) {
+        const current = this.todos.find(todo => todo.id === next.id) ?? next;
+        const [, nextOccurrence] = this.scheduleNextOccurrence(current);
+        if (nextOccurrence) {
+          added.push(nextOccurrence);
+        }
+      }
+    });
+
+    this.saveToStorage();
+
+    const updated = prepared.map(({ next }) => this.todos.find(todo => todo.id === next.id) ?? next);
+    return { updated, added };
+  }
+
+  /**
+   * Private helper method to build the updated version of a todo, validating the updates
+   */
+  private buildUpdate(todo: Todo, updates: TodoUpdates): Todo {
+    if (updates.text !== undefined) {
+      this.validateTodoText(updates.text);
+    }
+    if (updates.completed !== undefined) {
+      this.validateCompletedStatus(updates.completed);
+    }
 
-      const updatedTodo: Todo = {
-        id: todo.id,
-        text: updates.text !== undefined ? updates.text : todo.text,
-        completed: updates.completed !== undefined ? updates.completed : todo.completed,
-        createdAt: todo.createdAt,
-        updatedAt: new Date()
-      };
+    // Completing stamps the completion time; reopening clears it
+    const now = new Date();
+    const completed = updates.completed !== undefined ? updates.completed : todo.completed;
+    const completedAt = !completed ? undefined : todo.completed ? todo.completedAt : now;
+    const { completedAt: _completedAt, ...rest } = todo;
 
-      this.todos[todoIndex] = updatedTodo;
-      this.saveToStorage();
-      return updatedTodo;
-    } catch (error) {
-      if (error instanceof ValidationError) {
-        throw error; // Re-throw validation errors as-is
-      }
-      throw new Error(`Failed to update todo: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    return this.applyDetails({
+      ...rest,
+      text: updates.text !== undefined ? this.sanitizeTodoText(updates.text) : todo.text,
+      completed,
+      updatedAt: now,
+      ...(completedAt ? { completedAt } : {})
+    }, updates);
   }
 
   /**
-   * Toggle todo completion status
+   * Private helper method to look up the todos for a batch, failing if any is missing
+   *
+   * Duplicate ids are ignored.
    */
-  toggleTodo(id: string): Todo | null {
-    try {
+  private requireTodos(ids: string[]): Todo[] {
+    if (!Array.isArray(ids)) {
+      throw new ValidationError('Todo IDs must be an array');
+    }
+
+    return [...new Set(ids)].map(id => {
       this.validateId(id);
-      
-      const todo = this.getTodoById(id);
+      const todo = this.findActiveTodo(id);
       if (!todo) {
-        return null;
+        throw new ValidationError(`Todo not found: ${id}`);
       }
+      return todo;
+    });
+  }
 
-      return this.updateTodo(id, { completed: !todo.completed });
-    } catch (error) {
-      if (error instanceof ValidationError) {
-        throw error; // Re-throw validation errors as-is
-      }
-      throw new Error(`Failed to toggle todo: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  /**
+   * Private helper method to pick the order for a todo inserted at an index
+   *
+   * Uses the midpoint between the neighbours, so no other todo changes.
+   */
+  private orderAt(todos: Todo[], index: number): number {
+    const previous = todos[index - 1];
+    const next = todos[index];
+
+    if (previous && next) {
+      return (previous.order + next.order) / 2;
     }
+    if (previous) {
+      return previous.order + 1;
+    }
+    return next ? next.order - 1 : 0;
   }
 
   /**
-   * Delete a todo
+   * Private helper method to sort todos by order (stable)
+   *
+   * Renumbers every todo when orders collide or midpoints have become too
+   * close together to split again.
    */
-  deleteTodo(id: string): boolean {
-    try {
-      this.validateId(id);
-      
-      const todoIndex = this.todos.findIndex(todo => todo.id === id);
-      
-      if (todoIndex === -1) {
-        return false;
-      }
+  private orderTodos(todos: Todo[]): Todo[] {
+    const sorted = [...todos].sort((a, b) => a.order - b.order);
+    const crowded = sorted.some((todo, index) => index > 0 && todo.order - sorted[index - 1]!.order < MIN_ORDER_GAP);
 
-      this.todos.splice(todoIndex, 1);
-      this.saveToStorage();
-      return true;
-    } catch (error) {
-      if (error instanceof ValidationError) {
-        throw error; // Re-throw validation errors as-is
-      }
-      throw new Error(`Failed to delete todo: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return crowded
+      ? sorted.map((todo, index) => (todo.order === index ? todo : { ...todo, order: index }))
+      : sorted;
+  }
+
+  /**
+   * Private helper method to create the next instance of a repeating todo
+   *
+   * The rule moves to the new instance, so the completed one stays in the
+   * list as a plain todo and reopening it does not repeat it a second time.
+   * Returns the completed todo and the new instance (null if it does not repeat).
+   */
+  private scheduleNextOccurrence(todo: Todo): [Todo, Todo | null] {
+    if (!todo.recurrence) {
+      return [todo, null];
     }
+
+    const index = this.todos.findIndex(candidate => candidate.id === todo.id);
+    const { recurrence, ...completedTodo } = todo;
+    const { completedAt: _completedAt, ...nextTodo } = completedTodo;
+    const now = new Date();
+    const nextOccurrence: Todo = {
+      ...nextTodo,
+      id: this.generateId(),
+      completed: false,
+      createdAt: now,
+      updatedAt: now,
+      dueAt: getNextOccurrence(recurrence, todo.dueAt, now),
+      dueAllDay: todo.dueAt ? todo.dueAllDay === true : true,
+      recurrence,
+      order: this.orderAt(this.todos, index + 1)
+    };
+
+    this.todos.splice(index, 1, completedTodo, nextOccurrence);
+    this.todos = this.orderTodos(this.todos);
+    return [completedTodo, nextOccurrence];
   }
 
   /**
-   * Delete all completed todos
+   * Private helper method to create, store and announce a new todo
    */
-  deleteCompletedTodos(): number {
-    try {
-      const initialLength = this.todos.length;
-      this.todos = this.todos.filter(todo => !todo.completed);
-      this.saveToStorage();
-      return initialLength - this.todos.length;
-    } catch (error) {
-      throw new Error(`Failed to delete completed todos: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  private insertTodo(text: string, details: TodoDetails, parentId: string | undefined, label: string): Todo {
+    this.validateTodoText(text);
+
+    const sanitizedText = this.sanitizeTodoText(text);
+    const before = [...this.todos];
+    const newTodo: Todo = this.applyDetails({
+      id: this.generateId(),
+      text: sanitizedText,
+      completed: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      priority: 'normal',
+      tags: [],
+      order: this.orderAt(this.todos, this.todos.length),
+      ...(parentId ? { parentId } : {})
+    }, details);
+
+    this.todos.push(newTodo);
+    this.saveToStorage();
+    this.registerTags(newTodo.tags);
+    this.recordHistory(label, before);
+    this.emit({ type: 'add', todo: newTodo });
+    return newTodo;
+  }
+
+  /**
+   * Private helper method to remove todos, applying the delete cascade rule
+   *
+   * Removed todos go to the trash marked with `deletedAt`, or are dropped for
+   * good when it is null. Returns every removed todo. With
+   * 'promote-children', subtasks of removed todos move up to their nearest
+   * remaining ancestor.
+   */
+  private removeTodos(ids: Set<string>, deletedAt: Date | null = new Date()): Todo[] {
+    const removeIds = new Set(ids);
+    if (this.cascade.onDelete === 'delete-children') {
+      ids.forEach(id => this.getDescendantIds(id).forEach(descendantId => removeIds.add(descendantId)));
     }
+
+    const removedById = new Map(this.activeTodos()
+      .filter(todo => removeIds.has(todo.id))
+      .map(todo => [todo.id, deletedAt ? { ...todo, deletedAt, updatedAt: deletedAt } : todo]));
+    const now = new Date();
+
+    this.todos = this.todos
+      .filter(todo => deletedAt || !removedById.has(todo.id))
+      .map(todo => {
+        if (!todo.deletedAt && removedById.has(todo.id)) {
+          return removedById.get(todo.id)!; // Trashed todos keep their parent, to go back under it when restored
+        }
+        if (todo.deletedAt || !todo.parentId || !removedById.has(todo.parentId)) {
+          return todo;
+        }
+
+        // Walk up past removed ancestors
+        let parentId: string | undefined = todo.parentId;
+        while (parentId && removedById.has(parentId)) {
+          parentId = removedById.get(parentId)?.parentId;
+        }
+
+        const { parentId: _removedParentId, ...rest } = todo;
+        return parentId ? { ...rest, parentId, updatedAt: now } : { ...rest, updatedAt: now };
+      });
+
+    return [...removedById.values()];
   }
 
   /**
-   * Set the current filter
+   * Private helper method to detach subtasks whose parent is missing or forms a cycle
+   *
+   * Todos outside the trash are also detached from parents in the trash.
    */
-  setFilter(filter: TodoFilter): void {
-    try {
-      this.validateFilter(filter);
-      this.currentFilter = filter;
-      this.saveFilterToStorage();
-    } catch (error) {
-      if (error instanceof ValidationError) {
-        throw error; // Re-throw validation errors as-is
+  private normalizeHierarchy(todos: Todo[]): Todo[] {
+    const byId = new Map(todos.map(todo => [todo.id, todo]));
+
+    return todos.map(todo => {
+      const seen = new Set([todo.id]);
+      let parentId = todo.parentId;
+
+      while (parentId) {
+        if (seen.has(parentId) || !byId.has(parentId) || (!todo.deletedAt && byId.get(parentId)!.deletedAt)) {
+          const { parentId: _invalidParentId, ...rest } = todo;
+          return rest;
+        }
+        seen.add(parentId);
+        parentId = byId.get(parentId)?.parentId;
       }
-      throw new Error(`Failed to set filter: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+
+      return todo;
+    });
   }
 
   /**
-   * Get the current filter
+   * Private helper method to mark every subtask (recursively) as completed
+   *
+   * Returns the subtasks that were open and are now completed.
    */
-  getCurrentFilter(): TodoFilter {
-    try {
-      return this.currentFilter;
-    } catch (error) {
-      throw new Error(`Failed to get current filter: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  private completeDescendants(id: string): Todo[] {
+    const descendantIds = this.getDescendantIds(id);
+    if (descendantIds.size === 0) {
+      return [];
     }
+
+    const now = new Date();
+    const completed: Todo[] = [];
+    this.todos = this.todos.map(todo => {
+      if (!descendantIds.has(todo.id) || todo.completed) {
+        return todo;
+      }
+      const completedTodo = { ...todo, completed: true, updatedAt: now, completedAt: now };
+      completed.push(completedTodo);
+      return completedTodo;
+    });
+    return completed;
   }
 
   /**
-   * Get todo statistics
+   * Private helper method to collect the ids of all subtasks below a todo
+   *
+   * Only todos outside the trash are searched unless `todos` says otherwise.
    */
-  getStats(): TodoStats {
-    try {
-      const total = this.todos.length;
-      const completed = this.todos.filter(todo => todo.completed).length;
-      const pending = total - completed;
+  private getDescendantIds(id: string, todos: Todo[] = this.activeTodos()): Set<string> {
+    const descendants = new Set<string>();
+    const queue = [id];
 
-      return { total, completed, pending };
-    } catch (error) {
-      throw new Error(`Failed to get todo statistics: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    while (queue.length > 0) {
+      const currentId = queue.shift();
+      todos.forEach(todo => {
+        if (todo.parentId === currentId && !descendants.has(todo.id)) {
+          descendants.add(todo.id);
+          queue.push(todo.id);
+        }
+      });
     }
+
+    return descendants;
   }
 
   /**
-   * Clear all todos
+   * Private helper method to get a todo's depth (0 for top-level todos)
    */
-  clearAll(): void {
-    try {
-      this.todos = [];
-      this.saveToStorage();
-    } catch (error) {
-      throw new Error(`Failed to clear all todos: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  private getDepth(todo: Todo): number {
+    let depth = 0;
+    let parentId = todo.parentId;
+
+    while (parentId && depth < MAX_TODO_DEPTH) {
+      const parent = this.todos.find(candidate => candidate.id === parentId);
+      parentId = parent?.parentId;
+      depth++;
     }
+
+    return depth;
   }
 
   /**
-   * Get todos count
+   * Private helper method to count the levels in a todo's subtree (1 for a leaf)
    */
-  getTodosCount(): number {
-    return this.todos.length;
+  private getSubtreeHeight(id: string): number {
+    const children = this.getSubtasks(id);
+    return 1 + Math.max(0, ...children.map(child => this.getSubtreeHeight(child.id)));
   }
 
   /**
-   * Check if todo list is empty
+   * Private helper method to add unknown tags to the registry with a colour
    */
-  isEmpty(): boolean {
-    return this.todos.length === 0;
+  private registerTags(tags: string[]): void {
+    const known = new Set(this.tagRegistry.map(tag => tag.name));
+    const newTags = tags.filter(tag => !known.has(tag));
+
+    if (newTags.length === 0) {
+      return;
+    }
+
+    this.tagRegistry = [
+      ...this.tagRegistry,
+      ...newTags.map((name, index) => ({ name, color: this.nextTagColor(this.tagRegistry.length + index) }))
+    ];
+    this.saveTagsToStorage();
   }
 
   /**
-   * Private helper method to generate unique ID
+   * Private helper method to pick a colour for the n-th registered tag
    */
-  private generateId(): string {
-    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  private nextTagColor(index: number): string {
+    return TAG_COLORS[index % TAG_COLORS.length] ?? '#8b5cf6';
   }
 
   /**
    * Private helper method to filter todos
    */
   private filterTodos(todos: Todo[], filter: TodoFilter): Todo[] {
+    const now = new Date();
+
     switch (filter) {
       case 'completed':
         return todos.filter(todo => todo.completed);
       case 'pending':
         return todos.filter(todo => !todo.completed);
+      case 'overdue':
+        return todos.filter(todo => isOverdue(todo, now));
+      case 'due-today':
+        return todos.filter(todo => isDueToday(todo, now));
       case 'all':
       default:
         return todos;
@@ -326,125 +1667,520 @@ export class TodoList {
     }
   }
 
+  /**
+   * Validate due date
+   */
+  private validateDueDate(dueAt: Date): void {
+    if (!(dueAt instanceof Date) || isNaN(dueAt.getTime())) {
+      throw new ValidationError('Due date must be a valid date');
+    }
+  }
+
+  /**
+   * Validate priority level
+   */
+  private validatePriority(priority: TodoPriority): void {
+    if (!TODO_PRIORITIES.includes(priority)) {
+      throw new ValidationError(`Invalid priority. Must be one of: ${TODO_PRIORITIES.join(', ')}`);
+    }
+  }
+
+  /**
+   * Validate tag colour (hex "#rrggbb")
+   */
+  private validateTagColor(color: string): void {
+    if (typeof color !== 'string' || !TAG_COLOR_PATTERN.test(color)) {
+      throw new ValidationError('Tag colour must be a hex colour like #8b5cf6');
+    }
+  }
+
+  /**
+   * Validate the trash retention period
+   */
+  private validateTrashRetention(days: number | null): void {
+    if (days !== null && (!Number.isInteger(days) || days < 1)) {
+      throw new ValidationError('Trash retention must be a whole number of days (at least 1), or null to keep deleted todos');
+    }
+  }
+
+  /**
+   * Validate sort order
+   */
+  private validateSort(sort: TodoSort): void {
+    if (!StorageUtils.isValidSort(sort)) {
+      throw new ValidationError('Invalid sort order');
+    }
+  }
+
   /**
    * Validate filter type
    */
   private validateFilter(filter: TodoFilter): void {
-    const validFilters: TodoFilter[] = ['all', 'completed', 'pending'];
-    
-    if (!validFilters.includes(filter)) {
-      throw new ValidationError(`Invalid filter type. Must be one of: ${validFilters.join(', ')}`);
+    if (!TODO_FILTERS.includes(filter)) {
+      throw new ValidationError(`Invalid filter type. Must be one of: ${TODO_FILTERS.join(', ')}`);
     }
   }
 
   /**
-   * Storage methods for in-memory persistence
+   * Storage methods for persistence through the storage backend
    */
   
   /**
-   * Load todos from localStorage
+   * Load todos and filter preference from storage
    */
-  private loadFromStorage(): void {
-    try {
-      this.todos = StorageUtils.loadTodos();
-      this.currentFilter = StorageUtils.loadFilter();
-    } catch (error) {
+  private loadFromStorage(): Promise<void> {
+    const applyState = (state: PersistedState): void => {
+      this.todos = this.orderTodos(state.todos);
+      this.currentFilter = state.filter;
+      this.currentSort = state.sort;
+      this.tagRegistry = state.tags;
+      this.history.restore(state.history);
+      this.activity.restore(state.activity);
+      this.completionLog = readCompletionLog(state.completionLog);
+      this.quarantine = state.quarantine;
+
+      try {
+        this.purgeExpiredTrash();
+      } catch (error) {
+        console.warn('Failed to purge the trash:', error);
+      }
+    };
+    const resetState = (error: unknown): void => {
       console.warn('Failed to load todos from storage:', error);
       // Continue with empty state if storage fails
-      this.todos = [];
-      this.currentFilter = 'all';
+      applyState({ todos: [], filter: 'all', sort: { ...DEFAULT_SORT }, tags: [], history: null, activity: [], completionLog: [], quarantine: [] });
+    };
+
+    try {
+      const state = resolveAll<PersistedState>({
+        todos: this.storage.loadTodos(),
+        filter: this.storage.loadFilter(),
+        sort: this.storage.loadSort(),
+        tags: this.storage.loadTags(),
+        history: this.storage.loadHistory(),
+        activity: this.storage.loadActivity(),
+        completionLog: this.storage.loadCompletionLog(),
+        quarantine: this.storage.loadQuarantine()
+      });
+
+      if (!(state instanceof Promise)) {
+        applyState(state);
+        return Promise.resolve();
+      }
+
+      return state
+        .then(applyState)
+        .catch(resetState)
+        .then(() => this.emit({
+          type: 'load',
+          todos: [...this.todos],
+          filter: this.currentFilter,
+          sort: this.getCurrentSort()
+        }));
+    } catch (error) {
+      resetState(error);
+      return Promise.resolve();
     }
   }
 
   /**
-   * Save todos to localStorage
+   * Save todos to storage
    */
   private saveToStorage(): void {
     try {
-      StorageUtils.saveTodos(this.todos);
+      this.trackWrite(this.storage.saveTodos([...this.todos]), 'Failed to save todos to storage');
     } catch (error) {
       throw new StorageError(`Failed to save todos to storage: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Save filter preference to localStorage
+   * Save filter preference to storage
    */
   private saveFilterToStorage(): void {
     try {
-      StorageUtils.saveFilter(this.currentFilter);
+      this.trackWrite(this.storage.saveFilter(this.currentFilter), 'Failed to save filter to storage');
     } catch (error) {
       throw new StorageError(`Failed to save filter to storage: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Save sort order to storage
+   */
+  private saveSortToStorage(): void {
+    try {
+      this.trackWrite(this.storage.saveSort(this.currentSort), 'Failed to save sort order to storage');
+    } catch (error) {
+      throw new StorageError(`Failed to save sort order to storage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Save the tag registry to storage
+   */
+  private saveTagsToStorage(): void {
+    try {
+      this.trackWrite(this.storage.saveTags(this.tagRegistry), 'Failed to save tags to storage');
+    } catch (error) {
+      throw new StorageError(`Failed to save tags to storage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Save undo/redo history to storage
+   *
+   * History is a convenience, so failing to persist it only logs a warning.
+   */
+  private saveHistoryToStorage(): void {
+    try {
+      this.trackWrite(this.storage.saveHistory(this.history.getState()), 'Failed to save history to storage');
+    } catch (error) {
+      console.warn('Failed to save history to storage:', error);
+    }
+  }
+
+  /**
+   * Record the change made since `before` as an undoable history entry
+   *
+   * The change is added to the activity log too, with new todos recorded
+   * as `createdAs`.
+   */
+  private recordHistory(label: string, before: Todo[], createdAs?: ActivityType): void {
+    const entry = TodoHistory.diff(label, before, this.todos);
+    if (entry) {
+      this.history.record(entry);
+      this.saveHistoryToStorage();
+    }
+    this.recordActivity(before, createdAs);
+  }
+
+  /**
+   * Append what happened to each todo since `before` to the activity log
+   */
+  private recordActivity(before: Todo[], createdAs?: ActivityType): void {
+    const entries = ActivityLog.diff(before, this.todos, createdAs);
+    if (entries.length > 0) {
+      this.activity.record(entries);
+      this.saveActivityToStorage();
+    }
+  }
+
+  /**
+   * Save the activity log to storage
+   *
+   * Like history, failing to persist it only logs a warning.
+   */
+  private saveActivityToStorage(): void {
+    try {
+      this.trackWrite(this.storage.saveActivity(this.activity.getState()), 'Failed to save activity to storage');
+    } catch (error) {
+      console.warn('Failed to save activity to storage:', error);
+    }
+  }
+
+  /**
+   * Keep the timestamps of todos purged from the trash so analytics still count them
+   */
+  private recordCompletions(purgedTodos: Todo[]): void {
+    this.completionLog = [...this.completionLog, ...purgedTodos.map(toCompletionRecord)].slice(-MAX_COMPLETION_RECORDS);
+    try {
+      this.trackWrite(this.storage.saveCompletionLog(this.completionLog), 'Failed to save the completion log to storage');
+    } catch (error) {
+      console.warn('Failed to save the completion log to storage:', error);
+    }
+  }
+
+  /**
+   * Keep track of asynchronous writes so failures surface through flush()
+   */
+  private trackWrite(result: MaybePromise<void>, context: string): void {
+    if (!(result instanceof Promise)) {
+      return;
+    }
+
+    const write = result.catch(error => {
+      const storageError = new StorageError(`${context}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(storageError);
+      this.lastWriteError = storageError;
+    });
+    this.pendingWrites = this.pendingWrites.then(() => write);
+  }
+
   /**
    * Clear all data from storage
    */
   public clearStorage(): void {
     try {
-      StorageUtils.clearAll();
+      this.trackWrite(this.storage.clearAll(), 'Failed to clear storage');
+      const clearedTodos = this.todos;
       this.todos = [];
       this.currentFilter = 'all';
+      this.currentSort = { ...DEFAULT_SORT };
+      this.tagFilter = [];
+      this.searchQuery = '';
+      this.searchNode = null;
+      this.tagRegistry = [];
+      this.quarantine = [];
+      this.history.clear();
+      this.activity.clear();
+      this.completionLog = [];
+      this.emit({ type: 'clear', todos: clearedTodos, filter: this.currentFilter });
     } catch (error) {
       throw new StorageError(`Failed to clear storage: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Export todos to JSON string
+   * Export todos in a registered format (JSON by default)
    */
-  public exportTodos(): string {
+  public exportTodos(formatId: string = 'json'): string {
     try {
-      return JSON.stringify(this.todos, null, 2);
+      return getTodoFormat(formatId).serialize(this.activeTodos());
     } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
       throw new Error(`Failed to export todos: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Import todos from JSON string
+   * Import todos from a file's content in a registered format (JSON by default)
+   *
+   * 'merge' (the default) matches imported todos to current ones by id: new
+   * todos are added, and when both versions changed the newer `updatedAt`
+   * wins unless `resolutions` picks a side. Updated todos keep their current
+   * position. 'append' adds copies with new ids and 'replace' swaps the
+   * current todos for the imported ones. Lines that cannot be read are
+   * skipped and reported, and subtasks nested too deep move up to the
+   * deepest allowed level. With `dryRun` nothing changes and the result is a
+   * preview. Throws a ValidationError if no line can be imported.
    */
-  public importTodos(jsonString: string): number {
+  public importTodos(content: string, options: ImportOptions = {}): TodoImportResult {
     try {
-      const importedTodos = JSON.parse(jsonString);
-      
-      if (!Array.isArray(importedTodos)) {
-        throw new Error('Invalid data format: expected an array of todos');
-      }
-
-      // Validate each todo
-      const validTodos: Todo[] = [];
-      for (const todo of importedTodos) {
-        if (this.isValidTodo(todo)) {
-          validTodos.push({
-            ...todo,
-            createdAt: new Date(todo.createdAt),
-            updatedAt: new Date(todo.updatedAt)
-          });
-        }
+      const mode = options.mode ?? 'merge';
+      if (!IMPORT_MODES.includes(mode)) {
+        throw new ValidationError(`Invalid import mode. Must be one of: ${IMPORT_MODES.join(', ')}`);
       }
 
-      this.todos = validTodos;
-      this.saveToStorage();
-      return validTodos.length;
+      const { records, errors } = this.readImport(content, options.format ?? 'json');
+      const result: TodoImportResult = {
+        mode,
+        dryRun: options.dryRun ?? false,
+        imported: 0,
+        added: [],
+        updated: [],
+        skipped: [],
+        removed: [],
+        conflicts: [],
+        errors
+      };
+
+      // Imported todos keep their relative order after the current ones
+      const nextOrder = this.orderAt(this.todos, this.todos.length);
+      const sortedRecords = [...records].sort((a, b) => a.todo.order - b.todo.order);
+      let nextTodos: Todo[];
+
+      if (mode === 'replace') {
+        // The replaced todos go to the trash
+        const importedIds = new Set(records.map(({ todo }) => todo.id));
+        const deletedAt = new Date();
+        result.removed = this.activeTodos();
+        result.added = records.map(({ line, todo }) => ({ line, todo, reason: 'Replaces the current todos' }));
+        nextTodos = [
+          ...records.map(({ todo }) => todo),
+          ...this.todos
+            .filter(todo => !importedIds.has(todo.id))
+            .map(todo => todo.deletedAt ? todo : { ...todo, deletedAt, updatedAt: deletedAt })
+        ];
+      } else if (mode === 'append') {
+        const newIds = new Map(records.map(({ todo }) => [todo.id, this.generateId()]));
+        result.added = sortedRecords.map(({ line, todo }, index) => {
+          const { parentId, ...rest } = todo;
+          const newParentId = parentId ? newIds.get(parentId) : undefined;
+          const copy: Todo = {
+            ...rest,
+            id: newIds.get(todo.id)!,
+            order: nextOrder + index,
+            ...(newParentId ? { parentId: newParentId } : {})
+          };
+          return { line, todo: copy, reason: 'Added as a copy' };
+        });
+        nextTodos = [...this.todos, ...result.added.map(item => item.todo)];
+      } else {
+        const localById = new Map(this.activeTodos().map(todo => [todo.id, todo]));
+        const replacements = new Map<string, Todo>();
+
+        sortedRecords.forEach(({ line, todo }) => {
+          const local = localById.get(todo.id);
+          if (!local) {
+            result.added.push({ line, todo: { ...todo, order: nextOrder + result.added.length }, reason: 'New todo' });
+            return;
+          }
+          if (this.isSameTodo(local, todo)) {
+            result.skipped.push({ line, todo, reason: 'Already up to date' });
+            return;
+          }
+
+          const localTime = local.updatedAt.getTime();
+          const importedTime = todo.updatedAt.getTime();
+          const newer = importedTime > localTime ? 'imported' : importedTime < localTime ? 'local' : 'same';
+          const chosen = options.resolutions?.[todo.id];
+          const resolution = chosen ?? (newer === 'imported' ? 'imported' : 'local');
+          result.conflicts.push({ line, local, imported: todo, newer, resolution });
+
+          if (resolution === 'imported') {
+            replacements.set(todo.id, { ...todo, order: local.order });
+            result.updated.push({ line, todo, reason: chosen ? 'Imported version chosen' : 'Imported version is newer' });
+          } else {
+            const reason = chosen
+              ? 'Current version chosen'
+              : newer === 'same' ? 'Both versions changed at the same time; current version kept' : 'Current version is newer';
+            result.skipped.push({ line, todo, reason });
+          }
+        });
+
+        // An imported todo that is in the trash replaces the trashed one
+        const addedIds = new Set(result.added.map(item => item.todo.id));
+        nextTodos = [
+          ...this.todos.filter(todo => !addedIds.has(todo.id)).map(todo => replacements.get(todo.id) ?? todo),
+          ...result.added.map(item => item.todo)
+        ];
+      }
+
+      result.imported = result.added.length + result.updated.length;
+
+      if (!result.dryRun && (mode === 'replace' || result.imported > 0)) {
+        const before = this.todos;
+        this.todos = this.orderTodos(this.limitImportedDepth(this.normalizeHierarchy(nextTodos)));
+        this.saveToStorage();
+        this.registerTags([...result.added, ...result.updated].flatMap(item => item.todo.tags));
+        this.recordHistory('Import todos', before, 'imported');
+        this.emit({ type: 'import', todos: [...this.todos] });
+      }
+
+      return result;
     } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
       throw new Error(`Failed to import todos: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Validate todo object structure
+   * Preview an import without changing anything (see importTodos)
+   */
+  public previewImport(content: string, options: Omit<ImportOptions, 'dryRun'> = {}): TodoImportResult {
+    return this.importTodos(content, { ...options, dryRun: true });
+  }
+
+  /**
+   * Apply changes made to this list elsewhere, e.g. in another tab
+   *
+   * Todos in `upserts` replace the todo with the same id or are added (in
+   * the trash if they have `deletedAt`), and deleted ids are removed for good.
+   * Storage is written once and nothing is recorded in the undo history,
+   * though the changes are added to the activity log. Emits a 'sync' event.
+   */
+  public applyRemoteChanges(upserts: Todo[], deletedIds: string[]): void {
+    try {
+      const upsertsById = new Map(upserts.map(todo => [todo.id, todo]));
+      const deleted = new Set(deletedIds);
+      const existingIds = new Set(this.todos.map(todo => todo.id));
+      const before = this.todos;
+
+      this.todos = this.orderTodos(this.normalizeHierarchy([
+        ...this.todos.filter(todo => !deleted.has(todo.id)).map(todo => upsertsById.get(todo.id) ?? todo),
+        ...upserts.filter(todo => !existingIds.has(todo.id) && !deleted.has(todo.id))
+      ]));
+      this.saveToStorage();
+      this.registerTags(upserts.flatMap(todo => todo.tags));
+      this.recordActivity(before);
+      this.emit({ type: 'sync', todos: [...this.todos] });
+    } catch (error) {
+      if (error instanceof StorageError) {
+        throw error; // Re-throw storage errors as-is
+      }
+      throw new Error(`Failed to apply remote changes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Move subtasks nested deeper than MAX_TODO_DEPTH allows up to the deepest allowed level
+   *
+   * Imported files can nest items as deep as they like; the parent chains
+   * must already be valid (see normalizeHierarchy).
+   */
+  private limitImportedDepth(todos: Todo[]): Todo[] {
+    const byId = new Map(todos.map(todo => [todo.id, todo]));
+
+    return todos.map(todo => {
+      const ancestors: string[] = [];
+      for (let parentId = todo.parentId; parentId; parentId = byId.get(parentId)?.parentId) {
+        ancestors.push(parentId);
+      }
+      if (ancestors.length < MAX_TODO_DEPTH) {
+        return todo;
+      }
+      // ancestors runs from the parent up to the top-level todo
+      return { ...todo, parentId: ancestors[ancestors.length - MAX_TODO_DEPTH + 1]! };
+    });
+  }
+
+  /**
+   * Private helper method to parse and validate imported todos
+   *
+   * Throws a ValidationError if lines were found but none could be read.
+   */
+  private readImport(content: string, formatId: string): { records: Array<{ line: number; todo: Todo }>; errors: ImportLineError[] } {
+    const parsed = getTodoFormat(formatId).parse(content);
+    const errors = [...parsed.errors];
+    const records: Array<{ line: number; todo: Todo }> = [];
+    const seenIds = new Set<string>();
+
+    parsed.records.forEach(({ line, todo }, index) => {
+      const problem = StorageUtils.describeInvalidStoredTodo(todo);
+      if (problem) {
+        errors.push({ line, message: problem });
+        return;
+      }
+
+      const storedTodo = todo as StoredTodo;
+      if (!isValidTodoId(storedTodo.id) || (storedTodo.parentId !== undefined && !isValidTodoId(storedTodo.parentId))) {
+        errors.push({ line, message: 'Todo ids may only contain letters, numbers, "-" and "_"' });
+        return;
+      }
+      if (seenIds.has(storedTodo.id)) {
+        errors.push({ line, message: `Duplicate todo id "${storedTodo.id}"` });
+        return;
+      }
+
+      try {
+        // Imported todos never go straight to the trash
+        const { deletedAt: _deletedAt, ...importedTodo } = StorageUtils.fromStoredTodo(storedTodo, index);
+        records.push({ line, todo: { ...importedTodo, tags: normalizeTags(storedTodo.tags ?? []) } });
+        seenIds.add(storedTodo.id);
+      } catch (error) {
+        errors.push({ line, message: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    });
+    errors.sort((a, b) => a.line - b.line);
+
+    if (records.length === 0 && errors.length > 0) {
+      throw new ValidationError(`No todos could be imported. Line ${errors[0]!.line}: ${errors[0]!.message}`);
+    }
+
+    return { records, errors };
+  }
+
+  /**
+   * Private helper method to check whether two versions of a todo have the same content
+   *
+   * Position in the list and modification time are ignored.
    */
-  private isValidTodo(todo: any): todo is Todo {
-    return (
-      typeof todo === 'object' &&
-      todo !== null &&
-      typeof todo.id === 'string' &&
-      typeof todo.text === 'string' &&
-      typeof todo.completed === 'boolean' &&
-      typeof todo.createdAt === 'string' &&
-      typeof todo.updatedAt === 'string'
-    );
+  private isSameTodo(a: Todo, b: Todo): boolean {
+    return StorageUtils.fingerprint(a, ['order', 'updatedAt']) === StorageUtils.fingerprint(b, ['order', 'updatedAt']);
   }
 }
@@ -0,0 +1,446 @@
+/**
+ * TodoListManager class managing multiple named todo lists (projects)
+ */
+
+import {
+  Todo,
+  TodoListInfo,
+  ActivityQuery,
+  ListActivityEntry,
+  TodoListsState,
+  TodoListsStorage,
+  TodoListOptions,
+  TodoStats,
+  TodoStorageFactory,
+  MaybePromise,
+  ValidationError,
+  StorageError,
+  STORAGE_NAMESPACE
+} from './types.js';
+import { TodoList } from './TodoList.js';
+import { LocalStorageTodoStorage } from './storage.js';
+import { generateId } from './utils.js';
+
+// Id of the list that existing single-list data belongs to
+export const DEFAULT_LIST_ID = 'default';
+
+// Name given to the default list
+export const DEFAULT_LIST_NAME = 'My Todos';
+
+// Event types for list operations
+export type TodoListManagerEventType = 'lists' | 'switch';
+
+// Listener for list events
+export type TodoListManagerListener = (type: TodoListManagerEventType, lists: TodoListInfo[]) => void;
+
+export class TodoListManager {
+  private lists: TodoListInfo[] = [];
+  private currentListId: string = DEFAULT_LIST_ID;
+  private todoLists = new Map<string, TodoList>();
+  private listeners = new Set<TodoListManagerListener>();
+  private ready: Promise<void>;
+
+  constructor(
+    private storageFactory: TodoStorageFactory = (namespace) => new LocalStorageTodoStorage(namespace),
+    private listsStorage: TodoListsStorage = new LocalStorageTodoStorage(),
+    private listOptions: TodoListOptions = {}
+  ) {
+    this.ready = this.loadLists();
+  }
+
+  /**
+   * Storage namespace for a list
+   *
+   * The default list uses the original single-list namespace, so data saved
+   * before multiple lists existed shows up in it without any copying.
+   */
+  static namespaceFor(listId: string): string {
+    return listId === DEFAULT_LIST_ID ? STORAGE_NAMESPACE : `${STORAGE_NAMESPACE}-list-${listId}`;
+  }
+
+  /**
+   * Resolve once the set of lists and every list's todos have loaded
+   */
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  /**
+   * Subscribe to list changes ('lists') and list switches ('switch')
+   *
+   * Returns a function that removes the listener again.
+   */
+  on(listener: TodoListManagerListener): () => void {
+    this.listeners.add(listener);
+    return () => this.off(listener);
+  }
+
+  /**
+   * Unsubscribe a listener from list events
+   */
+  off(listener: TodoListManagerListener): void {
+    this.listeners.delete(listener);
+  }
+
+  /**
+   * Get all lists in display order
+   */
+  getLists(): TodoListInfo[] {
+    return this.lists.map(list => ({ ...list }));
+  }
+
+  /**
+   * Get the currently selected list's info
+   */
+  getCurrentListInfo(): TodoListInfo {
+    const list = this.lists.find(list => list.id === this.currentListId);
+    if (!list) {
+      throw new Error('Current list not found');
+    }
+    return { ...list };
+  }
+
+  /**
+   * Get the currently selected TodoList
+   */
+  getCurrentList(): TodoList {
+    return this.getList(this.currentListId);
+  }
+
+  /**
+   * Get the TodoList for a list id
+   */
+  getList(listId: string): TodoList {
+    this.requireList(listId);
+
+    let todoList = this.todoLists.get(listId);
+    if (!todoList) {
+      todoList = new TodoList(this.storageFactory(TodoListManager.namespaceFor(listId)), this.listOptions);
+      this.todoLists.set(listId, todoList);
+    }
+    return todoList;
+  }
+
+  /**
+   * Change how many days deleted todos stay in every list's trash (null: until emptied)
+   */
+  setTrashRetentionDays(days: number | null): void {
+    this.todoLists.forEach(todoList => todoList.setTrashRetentionDays(days));
+    this.listOptions = { ...this.listOptions, trashRetentionDays: days };
+  }
+
+  /**
+   * Get statistics for a list
+   */
+  getListStats(listId: string): TodoStats {
+    return this.getList(listId).getStats();
+  }
+
+  /**
+   * Create a new list and return its info
+   */
+  createList(name: string): TodoListInfo {
+    try {
+      const sanitizedName = this.validateListName(name);
+      const list: TodoListInfo = { id: generateId(), name: sanitizedName };
+
+      this.lists.push(list);
+      this.saveLists();
+      this.emit('lists');
+      return { ...list };
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to create list: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Rename a list
+   */
+  renameList(listId: string, name: string): TodoListInfo {
+    try {
+      const list = this.requireList(listId);
+      const sanitizedName = this.validateListName(name, listId);
+
+      list.name = sanitizedName;
+      this.saveLists();
+      this.emit('lists');
+      return { ...list };
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to rename list: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete a list and all of its todos
+   */
+  deleteList(listId: string): void {
+    try {
+      this.requireList(listId);
+
+      if (this.lists.length === 1) {
+        throw new ValidationError('Cannot delete the only list');
+      }
+
+      const index = this.lists.findIndex(list => list.id === listId);
+      this.getList(listId).clearStorage();
+      this.todoLists.delete(listId);
+      this.lists.splice(index, 1);
+
+      const switched = this.currentListId === listId;
+      if (switched) {
+        this.currentListId = (this.lists[index] ?? this.lists[index - 1] ?? this.lists[0])!.id;
+      }
+
+      this.saveLists();
+      this.emit('lists');
+      if (switched) {
+        this.emit('switch');
+      }
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to delete list: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Move a list to a new position in the display order
+   */
+  reorderList(listId: string, toIndex: number): void {
+    try {
+      this.requireList(listId);
+
+      if (!Number.isInteger(toIndex) || toIndex < 0 || toIndex >= this.lists.length) {
+        throw new ValidationError(`List position must be between 0 and ${this.lists.length - 1}`);
+      }
+
+      const fromIndex = this.lists.findIndex(list => list.id === listId);
+      const [list] = this.lists.splice(fromIndex, 1);
+      this.lists.splice(toIndex, 0, list!);
+
+      this.saveLists();
+      this.emit('lists');
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to reorder list: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Make a list the current one
+   */
+  switchList(listId: string): TodoList {
+    try {
+      this.requireList(listId);
+
+      if (listId !== this.currentListId) {
+        this.currentListId = listId;
+        this.saveLists();
+        this.emit('switch');
+      }
+
+      return this.getCurrentList();
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to switch list: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Move a todo (with its subtasks) to another list, keeping ids and timestamps
+   */
+  async moveTodo(todoId: string, fromListId: string, toListId: string): Promise<Todo> {
+    const [movedTodo] = await this.moveTodos([todoId], fromListId, toListId);
+    return movedTodo!;
+  }
+
+  /**
+   * Move several todos (with their subtasks) to another list, saving each list once
+   *
+   * Returns the moved todos that were not subtasks of other moved todos; those
+   * become top-level todos in the target list.
+   */
+  async moveTodos(todoIds: string[], fromListId: string, toListId: string): Promise<Todo[]> {
+    try {
+      if (fromListId === toListId) {
+        throw new ValidationError('Todo is already in this list');
+      }
+
+      const source = this.getList(fromListId);
+      const target = this.getList(toListId);
+      await Promise.all([source.whenReady(), target.whenReady()]);
+
+      // Collect every moved todo once; parents are adopted before their subtasks
+      const moving = new Map<string, Todo>();
+      todoIds.forEach(todoId => {
+        const subtree = source.getSubtree(todoId);
+        if (subtree.length === 0) {
+          throw new ValidationError('Todo not found');
+        }
+        subtree.forEach(todo => moving.set(todo.id, todo));
+      });
+
+      const rootIds = new Set([...moving.values()]
+        .filter(todo => !todo.parentId || !moving.has(todo.parentId))
+        .map(todo => todo.id));
+      const movedTodos = [...rootIds].flatMap(rootId => source.getSubtree(rootId));
+
+      // Moved todos whose parent stays behind become top-level
+      const adopted = target.adoptTodos(movedTodos.map(todo => {
+        if (!rootIds.has(todo.id)) {
+          return todo;
+        }
+        const { parentId, ...topLevelTodo } = todo;
+        return topLevelTodo;
+      }));
+      // The todos live on in the target list, so they skip the source's trash
+      source.deleteMany([...moving.keys()], { permanent: true });
+
+      return adopted.filter(todo => rootIds.has(todo.id));
+    } catch (error) {
+      if (error instanceof ValidationError || error instanceof StorageError) {
+        throw error; // Re-throw validation and storage errors as-is
+      }
+      throw new Error(`Failed to move todos: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get all todos across every list
+   */
+  getAllTodos(): Todo[] {
+    return this.lists.flatMap(list => this.getList(list.id).getAllTodos());
+  }
+
+  /**
+   * Get activity across every list, newest first (see TodoList.getActivity)
+   */
+  getActivity(query: ActivityQuery = {}): ListActivityEntry[] {
+    const entries = this.lists
+      .flatMap(list => this.getList(list.id).getActivity({ ...query, limit: undefined }).map(entry => ({ ...entry, listId: list.id })))
+      .sort((a, b) => b.at.getTime() - a.at.getTime());
+    return query.limit === undefined ? entries : entries.slice(0, Math.max(0, query.limit));
+  }
+
+  /**
+   * Load the set of lists, creating the default list on first run
+   */
+  private loadLists(): Promise<void> {
+    const applyState = (state: TodoListsState | null): Promise<void> => {
+      const isFirstRun = !state;
+      const loadedState = state ?? {
+        lists: [{ id: DEFAULT_LIST_ID, name: DEFAULT_LIST_NAME }],
+        currentListId: DEFAULT_LIST_ID
+      };
+
+      this.lists = loadedState.lists;
+      this.currentListId = loadedState.currentListId;
+      if (isFirstRun) {
+        this.saveLists();
+      }
+
+      return Promise.all(this.lists.map(list => this.getList(list.id).whenReady())).then(() => undefined);
+    };
+
+    try {
+      const state = this.listsStorage.loadLists();
+
+      if (!(state instanceof Promise)) {
+        return applyState(state);
+      }
+
+      return state
+        .catch((error) => {
+          console.warn('Failed to load lists from storage:', error);
+          return null;
+        })
+        .then(applyState)
+        .then(() => this.emit('lists'));
+    } catch (error) {
+      console.warn('Failed to load lists from storage:', error);
+      return applyState(null);
+    }
+  }
+
+  /**
+   * Save the set of lists
+   */
+  private saveLists(): void {
+    try {
+      const result: MaybePromise<void> = this.listsStorage.saveLists({
+        lists: this.getLists(),
+        currentListId: this.currentListId
+      });
+
+      if (result instanceof Promise) {
+        result.catch(error => console.error('Failed to save lists to storage:', error));
+      }
+    } catch (error) {
+      throw new StorageError(`Failed to save lists to storage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Notify listeners of a list event
+   */
+  private emit(type: TodoListManagerEventType): void {
+    const lists = this.getLists();
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(type, lists);
+      } catch (error) {
+        console.error(`List event listener failed for "${type}":`, error);
+      }
+    });
+  }
+
+  /**
+   * Find a list by id or throw
+   */
+  private requireList(listId: string): TodoListInfo {
+    if (!listId || typeof listId !== 'string') {
+      throw new ValidationError('List ID is required');
+    }
+
+    const list = this.lists.find(list => list.id === listId);
+    if (!list) {
+      throw new ValidationError('List not found');
+    }
+    return list;
+  }
+
+  /**
+   * Validate and sanitize a list name, which must be unique
+   */
+  private validateListName(name: string, ignoreListId?: string): string {
+    if (!name || typeof name !== 'string' || name.trim().length === 0) {
+      throw new ValidationError('List name cannot be empty');
+    }
+
+    const sanitizedName = name.trim().replace(/\s+/g, ' ');
+    if (sanitizedName.length > 50) {
+      throw new ValidationError('List name cannot exceed 50 characters');
+    }
+
+    const duplicate = this.lists.some(list =>
+      list.id !== ignoreListId && list.name.toLowerCase() === sanitizedName.toLowerCase()
+    );
+    if (duplicate) {
+      throw new ValidationError(`A list named "${sanitizedName}" already exists`);
+    }
+
+    return sanitizedName;
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Append-only activity log of changes to a list's todos
+ */
+
+import { Todo, ActivityEntry, ActivityQuery, ActivityType, StoredActivityEntry, ValidationError } from './types.js';
+
+// Default number of activity entries kept per list
+export const DEFAULT_ACTIVITY_LIMIT = 500;
+
+// Types that can be recorded, for checking persisted entries
+const ACTIVITY_TYPES: ReadonlyArray<ActivityType> = [
+  'created', 'imported', 'moved-in', 'text-changed', 'completed', 'reopened',
+  'due-changed', 'priority-changed', 'tags-changed', 'deleted', 'restored', 'purged', 'removed'
+];
+
+export class ActivityLog {
+  private entries: ActivityEntry[] = []; // oldest first
+
+  constructor(private limit: number = DEFAULT_ACTIVITY_LIMIT) {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new ValidationError('Activity limit must be a positive integer');
+    }
+  }
+
+  /**
+   * Describe what happened to each todo between two list states
+   *
+   * Todos are compared by id and by reference, like TodoHistory.diff. New
+   * todos are recorded as `createdAs`; todos that disappear are 'purged'
+   * if they were in the trash and 'removed' otherwise (e.g. moved away or
+   * an add undone).
+   */
+  static diff(before: Todo[], after: Todo[], createdAs: ActivityType = 'created', at: Date = new Date()): ActivityEntry[] {
+    const beforeById = new Map(before.map(todo => [todo.id, todo]));
+    const afterIds = new Set(after.map(todo => todo.id));
+    const entries: ActivityEntry[] = [];
+    const add = (todo: Todo, type: ActivityType, from?: string, to?: string): void => {
+      entries.push({ at, todoId: todo.id, type, text: todo.text, ...(from !== undefined ? { from, to: to ?? '' } : {}) });
+    };
+
+    after.forEach(todo => {
+      const previous = beforeById.get(todo.id);
+      if (!previous) {
+        if (!todo.deletedAt) {
+          add(todo, createdAs);
+        }
+        return;
+      }
+      if (previous === todo) return;
+
+      if (previous.text !== todo.text) {
+        add(todo, 'text-changed', previous.text, todo.text);
+      }
+      if (previous.completed !== todo.completed) {
+        add(todo, todo.completed ? 'completed' : 'reopened');
+      }
+      const previousDue = previous.dueAt?.toISOString() ?? '';
+      const due = todo.dueAt?.toISOString() ?? '';
+      if (previousDue !== due) {
+        add(todo, 'due-changed', previousDue, due);
+      }
+      if (previous.priority !== todo.priority) {
+        add(todo, 'priority-changed', previous.priority, todo.priority);
+      }
+      if (previous.tags.join(' ') !== todo.tags.join(' ')) {
+        add(todo, 'tags-changed', previous.tags.join(' '), todo.tags.join(' '));
+      }
+      if (!previous.deletedAt && todo.deletedAt) {
+        add(todo, 'deleted');
+      } else if (previous.deletedAt && !todo.deletedAt) {
+        add(todo, 'restored');
+      }
+    });
+
+    before.forEach(todo => {
+      if (!afterIds.has(todo.id)) {
+        add(todo, todo.deletedAt ? 'purged' : 'removed');
+      }
+    });
+
+    return entries;
+  }
+
+  /**
+   * Append entries, dropping the oldest beyond the limit
+   */
+  record(entries: ActivityEntry[]): void {
+    this.entries.push(...entries);
+    this.trim();
+  }
+
+  /**
+   * Get entries matching a query, newest first
+   */
+  query(query: ActivityQuery = {}): ActivityEntry[] {
+    const matches = this.entries
+      .filter(entry =>
+        (query.todoId === undefined || entry.todoId === query.todoId) &&
+        (query.types === undefined || query.types.includes(entry.type)) &&
+        (query.since === undefined || entry.at >= query.since)
+      )
+      .reverse();
+    return query.limit === undefined ? matches : matches.slice(0, Math.max(0, query.limit));
+  }
+
+  /**
+   * Get the entries in their compact form for persistence
+   */
+  getState(): StoredActivityEntry[] {
+    return this.entries.map(entry => entry.from !== undefined
+      ? [entry.at.getTime(), entry.todoId, entry.type, entry.text, entry.from, entry.to ?? '']
+      : [entry.at.getTime(), entry.todoId, entry.type, entry.text]);
+  }
+
+  /**
+   * Restore persisted entries, skipping any that cannot be read
+   */
+  restore(state: unknown): void {
+    this.entries = (Array.isArray(state) ? state : [])
+      .filter(ActivityLog.isStoredEntry)
+      .map(([at, todoId, type, text, from, to]) => ({
+        at: new Date(at),
+        todoId,
+        type,
+        text,
+        ...(from !== undefined ? { from, to: to ?? '' } : {})
+      }));
+    this.trim();
+  }
+
+  /**
+   * Forget all entries
+   */
+  clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * Drop the oldest entries beyond the limit
+   */
+  private trim(): void {
+    if (this.entries.length > this.limit) {
+      this.entries.splice(0, this.entries.length - this.limit);
+    }
+  }
+
+  /**
+   * Check the shape of a persisted entry
+   */
+  private static isStoredEntry(value: unknown): value is StoredActivityEntry {
+    if (!Array.isArray(value) || (value.length !== 4 && value.length !== 6)) {
+      return false;
+    }
+    const [at, todoId, type, ...texts] = value;
+    return Number.isFinite(at) &&
+      typeof todoId === 'string' &&
+      ACTIVITY_TYPES.includes(type) &&
+      texts.every(text => typeof text === 'string');
+  }
+}
+
+/**
+ * Describe an activity entry in a short sentence, e.g. 'Renamed from "a" to "b"'
+ *
+ * Due dates are written with `formatDate` (ISO 8601 by default).
+ */
+export function describeActivity(entry: ActivityEntry, formatDate: (date: Date) => string = date => date.toISOString()): string {
+  const value = (text: string | undefined): string => text ? `"${text}"` : 'none';
+  const tags = (text: string | undefined): string => text ? text.split(' ').map(tag => `#${tag}`).join(' ') : 'none';
+
+  switch (entry.type) {
+    case 'created': return 'Created';
+    case 'imported': return 'Imported';
+    case 'moved-in': return 'Moved here from another list';
+    case 'text-changed': return `Renamed from ${value(entry.from)} to ${value(entry.to)}`;
+    case 'completed': return 'Completed';
+    case 'reopened': return 'Reopened';
+    case 'due-changed': return entry.to ? `Due date set to ${formatDate(new Date(entry.to))}` : 'Due date removed';
+    case 'priority-changed': return `Priority changed from ${entry.from} to ${entry.to}`;
+    case 'tags-changed': return `Tags changed from ${tags(entry.from)} to ${tags(entry.to)}`;
+    case 'deleted': return 'Moved to the trash';
+    case 'restored': return 'Restored from the trash';
+    case 'purged': return 'Deleted for good';
+    case 'removed': return 'Removed from the list';
+  }
+}
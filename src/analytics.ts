@@ -0,0 +1,253 @@
+/**
+ * Productivity analytics worked out from todos' timestamps
+ *
+ * Days and weeks follow local time. Completed todos saved without a
+ * `completedAt` (e.g. imported ones) count as completed at `updatedAt`.
+ */
+
+import { Todo, AnalyticsTodo, DatedCount, TodoAnalytics, AnalyticsOptions, StoredCompletionRecord, ValidationError } from './types.js';
+
+// Default periods covered
+export const DEFAULT_ANALYTICS_DAYS = 30;
+export const DEFAULT_ANALYTICS_WEEKS = 12;
+
+// Most purged todos kept in a list's completion log; the oldest go first
+export const MAX_COMPLETION_RECORDS = 10000;
+
+/**
+ * Work out every figure in TodoAnalytics at once
+ */
+export function calculateAnalytics(todos: AnalyticsTodo[], options: AnalyticsOptions = {}): TodoAnalytics {
+  const now = options.now ?? new Date();
+  const days = options.days ?? DEFAULT_ANALYTICS_DAYS;
+  const weeks = options.weeks ?? DEFAULT_ANALYTICS_WEEKS;
+  const streaks = getStreaks(todos, now);
+
+  return {
+    completionsPerDay: getCompletionsPerDay(todos, days, now),
+    completionsPerWeek: getCompletionsPerWeek(todos, weeks, now),
+    averageCompletionMs: getAverageCompletionTime(todos),
+    currentStreak: streaks.current,
+    longestStreak: streaks.longest,
+    backlog: getBacklogTrend(todos, days, now)
+  };
+}
+
+/**
+ * Count completions on each of the last `days` days, oldest first
+ */
+export function getCompletionsPerDay(todos: AnalyticsTodo[], days: number = DEFAULT_ANALYTICS_DAYS, now: Date = new Date()): DatedCount[] {
+  validatePeriod(days, 'days');
+
+  const counts = countByDay(todos);
+  return lastDays(days, now).map(day => ({ date: dayKey(day), count: counts.get(dayKey(day)) ?? 0 }));
+}
+
+/**
+ * Count completions in each of the last `weeks` weeks (starting on Monday), oldest first
+ */
+export function getCompletionsPerWeek(todos: AnalyticsTodo[], weeks: number = DEFAULT_ANALYTICS_WEEKS, now: Date = new Date()): DatedCount[] {
+  validatePeriod(weeks, 'weeks');
+
+  const thisWeek = startOfWeek(now);
+  const result: DatedCount[] = [];
+  for (let i = weeks - 1; i >= 0; i--) {
+    result.push({ date: dayKey(addDays(thisWeek, -7 * i)), count: 0 });
+  }
+
+  const indexByWeek = new Map(result.map((week, index) => [week.date, index]));
+  todos.forEach(todo => {
+    const completedAt = getCompletionTime(todo);
+    const index = completedAt ? indexByWeek.get(dayKey(startOfWeek(completedAt))) : undefined;
+    if (index !== undefined) {
+      result[index]!.count++;
+    }
+  });
+  return result;
+}
+
+/**
+ * Average time from creating a todo to completing it, in milliseconds (null without completions)
+ */
+export function getAverageCompletionTime(todos: AnalyticsTodo[]): number | null {
+  const durations = todos
+    .map(todo => {
+      const completedAt = getCompletionTime(todo);
+      return completedAt ? Math.max(0, completedAt.getTime() - todo.createdAt.getTime()) : null;
+    })
+    .filter((duration): duration is number => duration !== null);
+
+  return durations.length > 0 ? durations.reduce((sum, duration) => sum + duration, 0) / durations.length : null;
+}
+
+/**
+ * Find the current and longest runs of days with at least one completion
+ *
+ * The current streak is still running when nothing has been completed yet
+ * today, as long as something was completed yesterday.
+ */
+export function getStreaks(todos: AnalyticsTodo[], now: Date = new Date()): { current: number; longest: number } {
+  const days = new Set(countByDay(todos).keys());
+
+  let current = 0;
+  let day = startOfDay(now);
+  if (!days.has(dayKey(day))) {
+    day = addDays(day, -1);
+  }
+  while (days.has(dayKey(day))) {
+    current++;
+    day = addDays(day, -1);
+  }
+
+  let longest = 0;
+  days.forEach(key => {
+    const start = parseDayKey(key);
+    if (days.has(dayKey(addDays(start, -1)))) return; // Not the first day of a run
+
+    let length = 1;
+    while (days.has(dayKey(addDays(start, length)))) {
+      length++;
+    }
+    longest = Math.max(longest, length);
+  });
+
+  return { current, longest };
+}
+
+/**
+ * Count the todos still open at the end of each of the last `days` days, oldest first
+ *
+ * A todo is open from its creation until it is completed or deleted; today
+ * is counted as of `now`.
+ */
+export function getBacklogTrend(todos: AnalyticsTodo[], days: number = DEFAULT_ANALYTICS_DAYS, now: Date = new Date()): DatedCount[] {
+  validatePeriod(days, 'days');
+
+  return lastDays(days, now).map(day => {
+    const end = Math.min(addDays(day, 1).getTime(), now.getTime());
+    const count = todos.filter(todo => {
+      const closedAt = Math.min(
+        getCompletionTime(todo)?.getTime() ?? Infinity,
+        todo.deletedAt?.getTime() ?? Infinity
+      );
+      return todo.createdAt.getTime() < end && closedAt >= end;
+    }).length;
+    return { date: dayKey(day), count };
+  });
+}
+
+/**
+ * When a completed todo was completed, or null if it is open
+ */
+export function getCompletionTime(todo: AnalyticsTodo): Date | null {
+  return todo.completed ? todo.completedAt ?? todo.updatedAt : null;
+}
+
+/**
+ * Keep the timestamps analytics need from a todo purged from the trash
+ */
+export function toCompletionRecord(todo: Todo): StoredCompletionRecord {
+  return [
+    todo.createdAt.getTime(),
+    getCompletionTime(todo)?.getTime() ?? null,
+    (todo.deletedAt ?? new Date()).getTime()
+  ];
+}
+
+/**
+ * Read a completion log entry back for analytics
+ */
+export function fromCompletionRecord([createdAt, completedAt, deletedAt]: StoredCompletionRecord): AnalyticsTodo {
+  return {
+    createdAt: new Date(createdAt),
+    completed: completedAt !== null,
+    completedAt: completedAt !== null ? new Date(completedAt) : undefined,
+    updatedAt: new Date(completedAt ?? deletedAt),
+    deletedAt: new Date(deletedAt)
+  };
+}
+
+/**
+ * Keep only the well-formed entries of a stored completion log
+ */
+export function readCompletionLog(records: unknown[]): StoredCompletionRecord[] {
+  return records.filter((record): record is StoredCompletionRecord =>
+    Array.isArray(record) &&
+    record.length === 3 &&
+    Number.isFinite(record[0]) &&
+    (record[1] === null || Number.isFinite(record[1])) &&
+    Number.isFinite(record[2])
+  );
+}
+
+/**
+ * Write a day as YYYY-MM-DD in local time
+ */
+export function dayKey(date: Date): string {
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Count completions by day key
+ */
+function countByDay(todos: AnalyticsTodo[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  todos.forEach(todo => {
+    const completedAt = getCompletionTime(todo);
+    if (completedAt) {
+      const key = dayKey(completedAt);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  });
+  return counts;
+}
+
+/**
+ * The starts of the last `days` days, oldest first, ending today
+ */
+function lastDays(days: number, now: Date): Date[] {
+  const today = startOfDay(now);
+  return Array.from({ length: days }, (_, index) => addDays(today, index - days + 1));
+}
+
+/**
+ * Midnight at the start of a date's day
+ */
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Midnight at the start of the Monday of a date's week
+ */
+function startOfWeek(date: Date): Date {
+  const day = startOfDay(date);
+  return addDays(day, -((day.getDay() + 6) % 7));
+}
+
+/**
+ * Move a date by whole calendar days, keeping the time of day across DST changes
+ */
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Read a YYYY-MM-DD day key back as local midnight
+ */
+function parseDayKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year!, month! - 1, day!);
+}
+
+/**
+ * Check the number of days or weeks asked for
+ */
+function validatePeriod(value: number, unit: string): void {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new ValidationError(`Number of ${unit} must be a positive integer`);
+  }
+}
@@ -4,44 +4,225 @@
  */
 
 import { TodoList } from './TodoList.js';
-import { Todo, TodoFilter, ValidationError, StorageError, DOM_IDS, CSS_CLASSES } from './types.js';
-import { DOMUtils } from './utils.js';
+import { TodoListManager } from './TodoListManager.js';
+import {
+  Todo,
+  TodoFilter,
+  TodoSort,
+  TodoSortField,
+  TodoPriority,
+  RecurrenceRule,
+  RecurrenceFrequency,
+  MessageAction,
+  NotificationType,
+  AppCommand,
+  ImportLineError,
+  ImportConflict,
+  ImportMode,
+  ImportResolution,
+  TabSyncConflict,
+  SyncStatus,
+  TODO_FILTERS,
+  MAX_TODO_DEPTH,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  ValidationError,
+  StorageError,
+  DOM_IDS,
+  CSS_CLASSES,
+  STORAGE_KEYS,
+  STORAGE_NAMESPACE
+} from './types.js';
+import { validateTodoText, sanitizeTodoText, parseDueDate, parseTagInput, isOverdue } from './utils.js';
+import { DOMUtils } from './dom.js';
+import { Notifier } from './notifications.js';
+import { DueReminders } from './reminders.js';
+import { TabSync } from './tabSync.js';
+import { SyncEngine } from './sync.js';
+import { KeyBindings, keyFromEvent, keyParts, searchCommands } from './keybindings.js';
+import { describeRecurrence } from './recurrence.js';
+import { describeActivity } from './activity.js';
+import { renderBarChart, renderLineChart } from './charts.js';
+import { getHighlightTerms, findMatchRanges } from './search.js';
+import { getTodoFormat, getTodoFormats, findTodoFormatForFile } from './formats.js';
+
+// Delay before a changed search query is applied, in milliseconds
+const SEARCH_DEBOUNCE_DELAY = 150;
+
+// Most todos or skipped lines listed for an import
+const MAX_IMPORT_ITEMS_SHOWN = 50;
+
+// Most entries listed in the recent activity across lists
+const MAX_ACTIVITY_ENTRIES_SHOWN = 100;
+
+// Days and weeks charted on the insights dashboard
+const DASHBOARD_DAYS = 30;
+const DASHBOARD_WEEKS = 12;
+
+// Where the sync server URL is kept
+const SYNC_ENDPOINT_KEY = `${STORAGE_NAMESPACE}-${STORAGE_KEYS.SYNC_ENDPOINT}`;
+
+// Where the trash retention period is kept, and the periods offered (null: forever)
+const TRASH_RETENTION_KEY = `${STORAGE_NAMESPACE}-${STORAGE_KEYS.TRASH_RETENTION}`;
+const TRASH_RETENTION_CHOICES: Array<number | null> = [7, 30, 90, null];
+
+/**
+ * Read the saved trash retention period, falling back to the default
+ */
+function loadTrashRetentionDays(): number | null {
+  const saved = localStorage.getItem(TRASH_RETENTION_KEY);
+  if (saved === 'forever') {
+    return null;
+  }
+  const days = Number(saved);
+  return saved && Number.isInteger(days) && days >= 1 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
 
 export class TodoApp {
+  private listManager: TodoListManager;
   private todoList: TodoList;
+  private unsubscribeFromTodoList: (() => void) | null = null;
+  private listSelect: HTMLSelectElement | null = null;
+  private listButtons: Record<'create' | 'rename' | 'delete' | 'left' | 'right', HTMLButtonElement | null> = {
+    create: null,
+    rename: null,
+    delete: null,
+    left: null,
+    right: null
+  };
   private todoForm: HTMLFormElement | null = null;
   private todoInput: HTMLInputElement | null = null;
+  private todoDueDateInput: HTMLInputElement | null = null;
+  private todoDueTimeInput: HTMLInputElement | null = null;
+  private todoPrioritySelect: HTMLSelectElement | null = null;
+  private todoTagsInput: HTMLInputElement | null = null;
+  private todoRecurrenceSelect: HTMLSelectElement | null = null;
+  private todoRecurrenceDaysInput: HTMLInputElement | null = null;
+  private todoRecurrenceWeekdays: HTMLElement | null = null;
+  private tagFiltersContainer: HTMLElement | null = null;
+  private searchInput: HTMLInputElement | null = null;
+  private searchTimerId: ReturnType<typeof setTimeout> | null = null;
+  private sortFieldSelect: HTMLSelectElement | null = null;
+  private sortDirectionBtn: HTMLButtonElement | null = null;
   private todoListContainer: HTMLUListElement | null = null;
   private emptyState: HTMLElement | null = null;
   private filterButtons: NodeListOf<HTMLButtonElement> | null = null;
   private clearCompletedBtn: HTMLButtonElement | null = null;
+  private showTrashBtn: HTMLButtonElement | null = null;
 
   // Statistics elements
   private totalTodosEl: HTMLElement | null = null;
   private completedTodosEl: HTMLElement | null = null;
   private pendingTodosEl: HTMLElement | null = null;
+  private dashboardEl: HTMLDetailsElement | null = null;
+  private dashboardContentEl: HTMLElement | null = null;
+
+  private reminders: DueReminders;
+  private tabSyncs = new Map<string, { sync: TabSync; unsubscribe: () => void }>(); // with the list's 'sync' listener
+  private serverSyncs = new Map<string, SyncEngine>();
+  private syncEndpoint: string | null = localStorage.getItem(SYNC_ENDPOINT_KEY);
+  private syncSettingsBtn: HTMLButtonElement | null = null;
+  private syncStatusEl: HTMLElement | null = null;
+  private collapsedTodoIds = new Set<string>();
+  private draggedTodo: Todo | null = null;
+  private selectedTodoIds = new Set<string>();
+  private lastSelectedTodoId: string | null = null;
+  private bulkActionsBar: HTMLElement | null = null;
+  private bulkCountEl: HTMLElement | null = null;
+  private bulkMoveSelect: HTMLSelectElement | null = null;
+  private exportFormatSelect: HTMLSelectElement | null = null;
+  private exportBtn: HTMLButtonElement | null = null;
+  private importBtn: HTMLButtonElement | null = null;
+  private importFileInput: HTMLInputElement | null = null;
+  private importErrorsEl: HTMLElement | null = null;
+  private showShortcutsBtn: HTMLButtonElement | null = null;
+  private keyBindings: KeyBindings;
+  private notifier: Notifier;
+  private activeTodoId: string | null = null;
 
-  constructor() {
-    this.todoList = new TodoList();
+  constructor(listManager: TodoListManager = new TodoListManager(undefined, undefined, { trashRetentionDays: loadTrashRetentionDays() })) {
+    this.listManager = listManager;
+    this.todoList = listManager.getCurrentList();
+    this.keyBindings = new KeyBindings(this.createCommands(), localStorage);
+    this.notifier = new Notifier(
+      DOMUtils.getElementById(DOM_IDS.NOTIFICATIONS) ??
+        document.body.appendChild(DOMUtils.createElement('div', { id: DOM_IDS.NOTIFICATIONS, class: 'notification-stack' }))
+    );
     this.initializeElements();
     this.setupEventListeners();
+    this.subscribeToTodoEvents();
+    this.subscribeToListEvents();
+    this.updateFilterButtons(this.todoList.getCurrentFilter());
+    this.updateSortControls(this.todoList.getCurrentSort());
     this.render();
+
+    this.reminders = new DueReminders(() => this.listManager.getAllTodos(), (todos) => this.handleDueTodos(todos));
+    this.reminders.start();
+
+    this.listManager.whenReady().then(() => {
+      this.syncListsAcrossTabs();
+      this.syncListsWithServer();
+      this.promptForQuarantinedData();
+    });
   }
 
   /**
    * Initialize DOM elements
    */
   private initializeElements(): void {
+    this.listSelect = DOMUtils.getElementById<HTMLSelectElement>(DOM_IDS.LIST_SELECT);
+    this.listButtons = {
+      create: DOMUtils.getElementById<HTMLButtonElement>(DOM_IDS.LIST_CREATE),
+      rename: DOMUtils.getElementById<HTMLButtonElement>(DOM_IDS.LIST_RENAME),
+      delete: DOMUtils.getElementById<HTMLButtonElement>(DOM_IDS.LIST_DELETE),
+      left: DOMUtils.getElementById<HTMLButtonElement>(DOM_IDS.LIST_MOVE_LEFT),
+      right: DOMUtils.getElementById<HTMLButtonElement>(DOM_IDS.LIST_MOVE_RIGHT)
+    };
     this.todoForm = DOMUtils.getElementById<HTMLFormElement>(DOM_IDS.TODO_FORM);
     this.todoInput = DOMUtils.getElementById<HTMLInputElement>(DOM_IDS.TODO_INPUT);
+    this.todoDueDateInput = DOMUtils.getElementById<HTMLInputElement>(DOM_IDS.TODO_DUE_DATE);
+    this.todoDueTimeInput = DOMUtils.getElementById<HTMLInputElement>(DOM_IDS.TODO_DUE_TIME);
+    this.todoPrioritySelect = DOMUtils.getElementById<HTMLSelectElement>(DOM_IDS.TODO_PRIORITY);
+    this.todoTagsInput = DOMUtils.getElementById<HTMLInputElement>(DOM_IDS.TODO_TAGS);
+    this.todoRecurrenceSelect = DOMUtils.getElementById<HTMLSelectElement>(DOM_IDS.TODO_RECURRENCE);
+    this.todoRecurrenceDaysInput = DOMUtils.getElementById<HTMLInputElement>(DOM_IDS.TODO_RECURRENCE_DAYS);
+    this.todoRecurrenceWeekdays = DOMUtils.getElementById<HTMLElement>(DOM_IDS.TODO_RECURRENCE_WEEKDAYS);
+    this.tagFiltersContainer = DOMUtils.getElementById<HTMLElement>(DOM_IDS.TAG_FILTERS);
+    this.searchInput = DOMUtils.getElementById<HTMLInputElement>(DOM_IDS.SEARCH_INPUT);
+    this.sortFieldSelect = DOMUtils.getElementById<HTMLSelectElement>(DOM_IDS.SORT_FIELD);
+    this.sortDirectionBtn = DOMUtils.getElementById<HTMLButtonElement>(DOM_IDS.SORT_DIRECTION);
     this.todoListContainer = DOMUtils.getElementById<HTMLUListElement>(DOM_IDS.TODO_LIST);
+    this.bulkActionsBar = DOMUtils.getElementById<HTMLElement>(DOM_IDS.BULK_ACTIONS);
+    this.bulkCountEl = DOMUtils.getElementById<HTMLElement>(DOM_IDS.BULK_COUNT);
+    this.bulkMoveSelect = DOMUtils.getElementById<HTMLSelectElement>(DOM_IDS.BULK_MOVE);
     this.emptyState = DOMUtils.getElementById<HTMLElement>(DOM_IDS.EMPTY_STATE);
     this.clearCompletedBtn = DOMUtils.getElementById<HTMLButtonElement>(DOM_IDS.CLEAR_COMPLETED);
+    this.showTrashBtn = DOMUtils.getElementById<HTMLButtonElement>(DOM_IDS.SHOW_TRASH);
+    this.exportFormatSelect = DOMUtils.getElementById<HTMLSelectElement>(DOM_IDS.EXPORT_FORMAT);
+    this.exportBtn = DOMUtils.getElementById<HTMLButtonElement>(DOM_IDS.EXPORT_TODOS);
+    this.importBtn = DOMUtils.getElementById<HTMLButtonElement>(DOM_IDS.IMPORT_TODOS);
+    this.importFileInput = DOMUtils.getElementById<HTMLInputElement>(DOM_IDS.IMPORT_FILE);
+    this.importErrorsEl = DOMUtils.getElementById<HTMLElement>(DOM_IDS.IMPORT_ERRORS);
+    this.syncSettingsBtn = DOMUtils.getElementById<HTMLButtonElement>(DOM_IDS.SYNC_SETTINGS);
+    this.syncStatusEl = DOMUtils.getElementById<HTMLElement>(DOM_IDS.SYNC_STATUS);
+    this.showShortcutsBtn = DOMUtils.getElementById<HTMLButtonElement>(DOM_IDS.SHOW_SHORTCUTS);
+
+    // Offer every registered file format
+    const formats = getTodoFormats();
+    if (this.exportFormatSelect) {
+      this.exportFormatSelect.innerHTML = formats
+        .map(format => `<option value="${this.escapeHtml(format.id)}">${this.escapeHtml(format.label)}</option>`)
+        .join('');
+    }
+    if (this.importFileInput) {
+      this.importFileInput.accept = formats.flatMap(format => format.extensions.map(extension => `.${extension}`)).join(',');
+    }
 
     // Statistics elements
     this.totalTodosEl = DOMUtils.getElementById<HTMLElement>(DOM_IDS.TOTAL_TODOS);
     this.completedTodosEl = DOMUtils.getElementById<HTMLElement>(DOM_IDS.COMPLETED_TODOS);
     this.pendingTodosEl = DOMUtils.getElementById<HTMLElement>(DOM_IDS.PENDING_TODOS);
+    this.dashboardEl = DOMUtils.getElementById<HTMLDetailsElement>(DOM_IDS.DASHBOARD);
+    this.dashboardContentEl = DOMUtils.getElementById<HTMLElement>(DOM_IDS.DASHBOARD_CONTENT);
 
     // Filter buttons
     this.filterButtons = document.querySelectorAll('.filter-btn');
@@ -66,342 +247,2511 @@ export class TodoApp {
   private setupEventListeners(): void {
     // Form submission
     this.todoForm?.addEventListener('submit', (e) => this.handleAddTodo(e));
+    this.todoRecurrenceSelect?.addEventListener('change', () => this.updateRecurrenceInputs());
 
     // Filter buttons
     this.filterButtons?.forEach(btn => {
       btn.addEventListener('click', (e) => this.handleFilterChange(e));
     });
 
-    // Clear completed button
-    this.clearCompletedBtn?.addEventListener('click', () => this.handleClearCompleted());
-  }
+    // Search box
+    this.searchInput?.addEventListener('input', () => this.handleSearchInput());
 
-  /**
-   * Handle add todo form submission
-   */
-  private handleAddTodo(event: Event): void {
-    event.preventDefault();
-    console.log('Form submitted!');
-    
-    if (!this.todoInput) {
-      console.error('Todo input not found!');
-      return;
-    }
+    // Sort controls
+    this.sortFieldSelect?.addEventListener('change', () => this.handleSortChange());
+    this.sortDirectionBtn?.addEventListener('click', () => this.handleSortDirectionToggle());
 
-    const text = this.todoInput.value.trim();
-    console.log('Todo text:', text);
-    
-    if (!text) {
-      console.log('Empty text, not adding todo');
-      return;
-    }
+    // Bulk actions for selected todos
+    this.bulkActionsBar?.addEventListener('click', (e) => {
+      const action = (e.target as HTMLElement).closest<HTMLElement>('[data-bulk]')?.dataset.bulk;
+      if (action) {
+        this.handleBulkAction(action);
+      }
+    });
+    this.bulkMoveSelect?.addEventListener('change', () => {
+      if (this.bulkMoveSelect?.value) {
+        this.handleBulkMove(this.bulkMoveSelect.value);
+      }
+    });
 
-    try {
-      const newTodo = this.todoList.addTodo(text);
-      console.log('Todo added:', newTodo);
-      this.todoInput.value = '';
-      this.render();
-      this.showSuccessMessage(`Todo "${newTodo.text}" added successfully!`);
-    } catch (error) {
-      console.error('Error adding todo:', error);
-      this.handleError(error, 'Failed to add todo');
-    }
-  }
+    // Clear completed button
+    this.clearCompletedBtn?.addEventListener('click', () => this.handleClearCompleted());
+    this.showTrashBtn?.addEventListener('click', () => this.showTrash());
 
-  /**
-   * Handle filter button clicks
-   */
-  private handleFilterChange(event: Event): void {
-    const target = event.target as HTMLButtonElement;
-    const filter = target.dataset.filter as TodoFilter;
+    // Insights are only worked out while the dashboard is open
+    this.dashboardEl?.addEventListener('toggle', () => this.renderDashboard());
 
-    if (!filter) return;
+    // Export and import, including files dropped on the todo list
+    this.exportBtn?.addEventListener('click', () => this.handleExport());
+    this.importBtn?.addEventListener('click', () => this.importFileInput?.click());
+    this.importFileInput?.addEventListener('change', () => {
+      const file = this.importFileInput?.files?.[0];
+      if (file) {
+        this.handleImportFile(file);
+      }
+      this.importFileInput!.value = '';
+    });
+    this.importErrorsEl?.addEventListener('click', (e) => {
+      if ((e.target as HTMLElement).closest('[data-action="dismiss-import-errors"]')) {
+        this.renderImportErrors(null);
+      }
+    });
+    this.setupFileDrop();
 
-    try {
-      this.todoList.setFilter(filter);
-      this.updateFilterButtons(filter);
-      this.render();
-    } catch (error) {
-      this.handleError(error, 'Failed to change filter');
-    }
-  }
+    // Sync server settings
+    this.syncSettingsBtn?.addEventListener('click', () => this.handleSyncSettings());
 
-  /**
-   * Handle todo toggle (completion status)
-   */
-  private handleToggleTodo(todoId: string): void {
-    try {
-      const updatedTodo = this.todoList.toggleTodo(todoId);
-      if (updatedTodo) {
-        this.render();
-        const status = updatedTodo.completed ? 'completed' : 'pending';
-        this.showSuccessMessage(`Todo marked as ${status}!`);
+    // List switcher
+    this.listSelect?.addEventListener('change', () => this.handleSwitchList());
+    this.listButtons.create?.addEventListener('click', () => this.handleCreateList());
+    this.listButtons.rename?.addEventListener('click', () => this.handleRenameList());
+    this.listButtons.delete?.addEventListener('click', () => this.handleDeleteList());
+    this.listButtons.left?.addEventListener('click', () => this.handleReorderList(-1));
+    this.listButtons.right?.addEventListener('click', () => this.handleReorderList(1));
+
+    // Keyboard shortcuts; focusing a todo makes it the active one
+    document.addEventListener('keydown', (e) => this.handleShortcut(e));
+    this.showShortcutsBtn?.addEventListener('click', () => this.showShortcuts());
+    this.todoListContainer?.addEventListener('focusin', (e) => {
+      const todoId = (e.target as HTMLElement).closest<HTMLElement>('li[data-todo-id]')?.dataset.todoId;
+      if (todoId && todoId !== this.activeTodoId) {
+        this.setActiveTodo(todoId, false);
       }
-    } catch (error) {
-      this.handleError(error, 'Failed to toggle todo');
-    }
+    });
   }
 
   /**
-   * Handle todo deletion
+   * Re-render whenever the todo list changes
    */
-  private handleDeleteTodo(todoId: string): void {
-    try {
-      const success = this.todoList.deleteTodo(todoId);
-      if (success) {
-        this.render();
-        this.showSuccessMessage('Todo deleted successfully!');
+  private subscribeToTodoEvents(): void {
+    this.unsubscribeFromTodoList?.();
+    this.unsubscribeFromTodoList = this.todoList.on('*', (event) => {
+      if (event.type === 'filter' || event.type === 'sort' || event.type === 'load' || event.type === 'clear') {
+        this.updateFilterButtons(this.todoList.getCurrentFilter());
+        this.updateSortControls(this.todoList.getCurrentSort());
       }
-    } catch (error) {
-      this.handleError(error, 'Failed to delete todo');
-    }
+      this.render();
+    });
   }
 
   /**
-   * Handle clear completed todos
+   * Follow the current list when lists change or the user switches list
    */
-  private handleClearCompleted(): void {
-    try {
-      const deletedCount = this.todoList.deleteCompletedTodos();
-      if (deletedCount > 0) {
-        this.render();
-        this.showSuccessMessage(`${deletedCount} completed todo(s) cleared!`);
-      } else {
-        this.showInfoMessage('No completed todos to clear.');
+  private subscribeToListEvents(): void {
+    this.listManager.on((type) => {
+      if (type === 'lists') {
+        this.syncListsAcrossTabs();
+        this.syncListsWithServer();
       }
-    } catch (error) {
-      this.handleError(error, 'Failed to clear completed todos');
-    }
+      if (type === 'switch') {
+        this.todoList = this.listManager.getCurrentList();
+        this.selectedTodoIds.clear();
+        this.lastSelectedTodoId = null;
+        this.renderImportErrors(null);
+        this.subscribeToTodoEvents();
+        this.updateFilterButtons(this.todoList.getCurrentFilter());
+        this.updateSortControls(this.todoList.getCurrentSort());
+        this.applySearchQuery();
+        this.renderSyncStatus();
+      }
+      this.render();
+    });
   }
 
   /**
-   * Render the entire application
+   * Keep every list in step with the same list open in other tabs
    */
-  private render(): void {
-    this.renderTodoList();
-    this.renderStatistics();
-    this.updateClearCompletedButton();
-    this.updateEmptyState();
-  }
+  private syncListsAcrossTabs(): void {
+    const listIds = new Set(this.listManager.getLists().map(list => list.id));
 
-  /**
-   * Render the todo list
-   */
-  private renderTodoList(): void {
-    if (!this.todoListContainer) return;
+    this.tabSyncs.forEach(({ sync, unsubscribe }, listId) => {
+      if (!listIds.has(listId)) {
+        sync.stop();
+        unsubscribe();
+        this.tabSyncs.delete(listId);
+      }
+    });
 
-    const todos = this.todoList.getFilteredTodos();
-    this.todoListContainer.innerHTML = '';
+    listIds.forEach(listId => {
+      if (this.tabSyncs.has(listId)) return;
 
-    todos.forEach(todo => {
-      const todoElement = this.createTodoElement(todo);
-      this.todoListContainer!.appendChild(todoElement);
+      const todoList = this.listManager.getList(listId);
+      const sync = new TabSync(todoList, `${TodoListManager.namespaceFor(listId)}-sync`, (conflicts) => this.handleSyncConflicts(conflicts));
+      sync.start();
+
+      // The current list re-renders on every event; others only affect the list switcher
+      const unsubscribe = todoList.on('sync', () => {
+        if (todoList !== this.todoList) {
+          this.render();
+        }
+      });
+      this.tabSyncs.set(listId, { sync, unsubscribe });
     });
   }
 
   /**
-   * Create a todo element
+   * Keep every list in step with the sync server, when one is set
    */
-  private createTodoElement(todo: Todo): HTMLLIElement {
-    const li = DOMUtils.createElement('li', {
-      'class': `${CSS_CLASSES.TODO_ITEM} ${todo.completed ? CSS_CLASSES.COMPLETED : ''}`,
-      'data-todo-id': todo.id
-    });
+  private syncListsWithServer(): void {
+    const endpoint = this.syncEndpoint;
+    const listIds = new Set(endpoint ? this.listManager.getLists().map(list => list.id) : []);
 
-    li.innerHTML = `
-      <div class="form-check d-flex align-items-center">
-        <input 
-          class="form-check-input me-3" 
-          type="checkbox" 
-          ${todo.completed ? 'checked' : ''}
-          id="todo-${todo.id}"
-        >
-        <label class="form-check-label flex-grow-1" for="todo-${todo.id}">
-          <span class="todo-text">${this.escapeHtml(todo.text)}</span>
-        </label>
-        <button 
-          type="button" 
-          class="btn btn-outline-danger btn-sm ms-2"
-          data-action="delete"
-          title="Delete todo"
-        >
-          Delete
-        </button>
-      </div>
-    `;
+    this.serverSyncs.forEach((engine, listId) => {
+      if (!listIds.has(listId)) {
+        engine.stop();
+        this.serverSyncs.delete(listId);
+      }
+    });
 
-    // Add event listeners
-    const checkbox = li.querySelector('input[type="checkbox"]') as HTMLInputElement;
-    const deleteBtn = li.querySelector('[data-action="delete"]') as HTMLButtonElement;
+    listIds.forEach(listId => {
+      if (this.serverSyncs.has(listId)) return;
 
-    checkbox.addEventListener('change', () => this.handleToggleTodo(todo.id));
-    deleteBtn.addEventListener('click', () => this.handleDeleteTodo(todo.id));
+      const todoList = this.listManager.getList(listId);
+      const engine = new SyncEngine(todoList, {
+        endpoint: endpoint!,
+        listId,
+        store: localStorage,
+        namespace: TodoListManager.namespaceFor(listId)
+      });
+      engine.onStatus(() => {
+        if (todoList === this.todoList) {
+          this.renderSyncStatus();
+        }
+      });
+      engine.start();
+      this.serverSyncs.set(listId, engine);
+    });
 
-    return li;
+    this.renderSyncStatus();
   }
 
   /**
-   * Render statistics
+   * Handle setting or clearing the sync server URL
    */
-  private renderStatistics(): void {
-    const stats = this.todoList.getStats();
+  private handleSyncSettings(): void {
+    const input = window.prompt('Sync server URL (leave empty to stop syncing):', this.syncEndpoint ?? 'http://127.0.0.1:3002');
+    if (input === null) return;
 
-    if (this.totalTodosEl) {
-      this.totalTodosEl.textContent = stats.total.toString();
-    }
-    if (this.completedTodosEl) {
-      this.completedTodosEl.textContent = stats.completed.toString();
+    const endpoint = input.trim();
+    if (endpoint) {
+      let url: URL;
+      try {
+        url = new URL(endpoint);
+      } catch {
+        this.showErrorMessage('Please enter a valid URL, e.g. http://127.0.0.1:3002');
+        return;
+      }
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        this.showErrorMessage('The sync server URL must start with http:// or https://');
+        return;
+      }
     }
-    if (this.pendingTodosEl) {
-      this.pendingTodosEl.textContent = stats.pending.toString();
+
+    // Restart every engine against the new server
+    this.syncEndpoint = endpoint || null;
+    if (this.syncEndpoint) {
+      localStorage.setItem(SYNC_ENDPOINT_KEY, this.syncEndpoint);
+    } else {
+      localStorage.removeItem(SYNC_ENDPOINT_KEY);
     }
+    this.serverSyncs.forEach(engine => engine.stop());
+    this.serverSyncs.clear();
+    this.syncListsWithServer();
+    this.showInfoMessage(this.syncEndpoint ? `Syncing with ${this.syncEndpoint}.` : 'Sync turned off.');
   }
 
   /**
-   * Update filter buttons active state
+   * Show the current list's sync status next to the sync button
    */
-  private updateFilterButtons(activeFilter: TodoFilter): void {
-    this.filterButtons?.forEach(btn => {
-      const filter = btn.dataset.filter as TodoFilter;
-      DOMUtils.toggleClass(btn, CSS_CLASSES.FILTER_ACTIVE, filter === activeFilter);
-    });
+  private renderSyncStatus(): void {
+    if (!this.syncStatusEl) return;
+
+    const engine = this.serverSyncs.get(this.listManager.getCurrentListInfo().id);
+    const status = engine?.getStatus();
+    this.syncStatusEl.dataset.state = status?.state ?? 'off';
+    this.syncStatusEl.textContent = status ? this.describeSyncStatus(status) : 'Not synced';
   }
 
   /**
-   * Update clear completed button visibility
+   * Describe a sync status in a few words
    */
-  private updateClearCompletedButton(): void {
-    if (!this.clearCompletedBtn) return;
+  private describeSyncStatus(status: SyncStatus): string {
+    const pending = status.pending === 1 ? '1 change' : `${status.pending} changes`;
 
-    const stats = this.todoList.getStats();
-    this.clearCompletedBtn.style.display = stats.completed > 0 ? 'inline-block' : 'none';
+    switch (status.state) {
+      case 'syncing':
+        return 'Syncing…';
+      case 'offline':
+        return `Offline, ${pending} pending`;
+      case 'error':
+        return `Sync failed: ${status.error ?? 'unknown error'}`;
+      default: {
+        const time = status.lastSyncedAt?.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+        const synced = time ? `Synced ${time}` : 'Not synced yet';
+        return status.pending > 0 ? `${synced}, ${pending} pending` : synced;
+      }
+    }
   }
 
   /**
-   * Update empty state visibility
+   * Tell the user when a todo was changed in another tab at the same time
    */
-  private updateEmptyState(): void {
-    if (!this.emptyState) return;
-
-    const todos = this.todoList.getFilteredTodos();
-    this.emptyState.style.display = todos.length === 0 ? 'block' : 'none';
+  private handleSyncConflicts(conflicts: TabSyncConflict[]): void {
+    const names = conflicts.map(conflict => `"${(conflict.local ?? conflict.remote)!.text}"`).join(', ');
+    this.showInfoMessage(`${names} ${conflicts.length === 1 ? 'was' : 'were'} also changed in another tab; the newer change was kept.`);
   }
 
   /**
-   * Show success message
+   * Handle list selection
    */
-  private showSuccessMessage(message: string): void {
-    this.showMessage(message, 'success');
+  private handleSwitchList(): void {
+    const listId = this.listSelect?.value;
+    if (!listId) return;
+
+    try {
+      this.listManager.switchList(listId);
+    } catch (error) {
+      this.handleError(error, 'Failed to switch list');
+    }
   }
 
   /**
-   * Show info message
+   * Handle creating a new list
    */
-  private showInfoMessage(message: string): void {
-    this.showMessage(message, 'info');
+  private handleCreateList(): void {
+    const name = window.prompt('Name of the new list:');
+    if (name === null) return;
+
+    try {
+      const list = this.listManager.createList(name);
+      this.listManager.switchList(list.id);
+      this.showSuccessMessage(`List "${list.name}" created!`);
+    } catch (error) {
+      this.handleError(error, 'Failed to create list');
+    }
   }
 
   /**
-   * Show error message
+   * Handle renaming the current list
    */
-  private showErrorMessage(message: string): void {
-    this.showMessage(message, 'danger');
+  private handleRenameList(): void {
+    const current = this.listManager.getCurrentListInfo();
+    const name = window.prompt('New name for this list:', current.name);
+    if (name === null) return;
+
+    try {
+      this.listManager.renameList(current.id, name);
+    } catch (error) {
+      this.handleError(error, 'Failed to rename list');
+    }
   }
 
   /**
-   * Show message with Bootstrap modal
+   * Handle deleting the current list
    */
-  private showMessage(message: string, type: 'success' | 'info' | 'danger'): void {
-    // Remove existing modals
-    const existingModals = document.querySelectorAll('#messageModal');
-    existingModals.forEach(modal => modal.remove());
-
-    // Create modal HTML
-    const modalHtml = `
-      <div class="modal fade" id="messageModal" tabindex="-1" aria-labelledby="messageModalLabel" aria-hidden="true">
-        <div class="modal-dialog modal-dialog-centered">
-          <div class="modal-content">
-            <div class="modal-header bg-${type} text-white">
-              <h5 class="modal-title" id="messageModalLabel">
-                ${this.getModalTitle(type)}
-              </h5>
-              <button type="button" class="btn-close btn-close-white" data-bs-dismiss="modal" aria-label="Close"></button>
-            </div>
-            <div class="modal-body">
-              <p class="mb-0">${message}</p>
-            </div>
-            <div class="modal-footer">
-              <button type="button" class="btn btn-${type}" data-bs-dismiss="modal">OK</button>
-            </div>
-          </div>
-        </div>
-      </div>
-    `;
+  private handleDeleteList(): void {
+    const current = this.listManager.getCurrentListInfo();
+    if (!window.confirm(`Delete the list "${current.name}" and all of its todos?`)) return;
 
-    // Add modal to body
-    document.body.insertAdjacentHTML('beforeend', modalHtml);
-
-    // Show modal
-    const modalElement = document.getElementById('messageModal');
-    if (modalElement) {
-      const modal = new (window as any).bootstrap.Modal(modalElement);
-      modal.show();
-
-      // Auto-hide after 3 seconds
-      setTimeout(() => {
-        modal.hide();
-        // Remove modal from DOM after hiding
-        setTimeout(() => {
-          if (modalElement.parentNode) {
-            modalElement.remove();
-          }
-        }, 300);
-      }, 3000);
+    try {
+      this.listManager.deleteList(current.id);
+      this.showSuccessMessage(`List "${current.name}" deleted!`);
+    } catch (error) {
+      this.handleError(error, 'Failed to delete list');
     }
   }
 
   /**
-   * Get modal title based on type
+   * Handle moving the current list left or right in the switcher
    */
-  private getModalTitle(type: 'success' | 'info' | 'danger'): string {
-    switch (type) {
-      case 'success':
-        return '✅ Success';
-      case 'info':
-        return 'ℹ️ Information';
-      case 'danger':
-        return '❌ Error';
-      default:
-        return '📝 Message';
+  private handleReorderList(offset: number): void {
+    const lists = this.listManager.getLists();
+    const current = this.listManager.getCurrentListInfo();
+    const toIndex = lists.findIndex(list => list.id === current.id) + offset;
+    if (toIndex < 0 || toIndex >= lists.length) return;
+
+    try {
+      this.listManager.reorderList(current.id, toIndex);
+    } catch (error) {
+      this.handleError(error, 'Failed to reorder list');
     }
   }
 
   /**
-   * Handle errors
+   * Handle moving a todo to another list
    */
-  private handleError(error: unknown, context: string): void {
-    console.error(`${context}:`, error);
-    
-    let message = `${context}. Please try again.`;
-    
-    if (error instanceof ValidationError) {
-      message = error.message;
-    } else if (error instanceof StorageError) {
-      message = `Storage error: ${error.message}`;
-    } else if (error instanceof Error) {
-      message = error.message;
+  private async handleMoveTodo(todoId: string, toListId: string): Promise<void> {
+    try {
+      const fromList = this.listManager.getCurrentListInfo();
+      await this.listManager.moveTodo(todoId, fromList.id, toListId);
+      const toList = this.listManager.getLists().find(list => list.id === toListId);
+      this.showSuccessMessage(`Todo moved to "${toList?.name ?? 'list'}"!`);
+    } catch (error) {
+      this.handleError(error, 'Failed to move todo', () => this.handleMoveTodo(todoId, toListId));
     }
-
-    this.showErrorMessage(message);
   }
 
   /**
-   * Escape HTML to prevent XSS
+   * Handle add todo form submission
    */
-  private escapeHtml(text: string): string {
-    const div = document.createElement('div');
-    div.textContent = text;
-    return div.innerHTML;
+  private handleAddTodo(event: Event): void {
+    event.preventDefault();
+    console.log('Form submitted!');
+    
+    if (!this.todoInput) {
+      console.error('Todo input not found!');
+      return;
+    }
+
+    const text = this.todoInput.value.trim();
+    console.log('Todo text:', text);
+    
+    if (!text) {
+      console.log('Empty text, not adding todo');
+      return;
+    }
+
+    try {
+      const due = parseDueDate(this.todoDueDateInput?.value ?? '', this.todoDueTimeInput?.value ?? '');
+      const priority = (this.todoPrioritySelect?.value || 'normal') as TodoPriority;
+      const tags = parseTagInput(this.todoTagsInput?.value ?? '');
+      const recurrence = this.readRecurrenceInputs(due?.dueAt ?? new Date());
+      const newTodo = this.todoList.addTodo(text, { ...due, priority, tags, ...(recurrence ? { recurrence } : {}) });
+      console.log('Todo added:', newTodo);
+      this.todoInput.value = '';
+      if (this.todoDueDateInput) this.todoDueDateInput.value = '';
+      if (this.todoDueTimeInput) this.todoDueTimeInput.value = '';
+      if (this.todoPrioritySelect) this.todoPrioritySelect.value = 'normal';
+      if (this.todoTagsInput) this.todoTagsInput.value = '';
+      this.resetRecurrenceInputs();
+      this.showSuccessMessage(`Todo "${newTodo.text}" added successfully!`, this.undoAction());
+    } catch (error) {
+      console.error('Error adding todo:', error);
+      this.handleError(error, 'Failed to add todo');
+    }
+  }
+
+  /**
+   * Build the recurrence rule chosen in the form, if any
+   *
+   * Weekly rules default to the weekday of the due date (or today) when no
+   * weekday is ticked; monthly rules repeat on the due date's day of month.
+   */
+  private readRecurrenceInputs(start: Date): RecurrenceRule | null {
+    const frequency = this.todoRecurrenceSelect?.value as RecurrenceFrequency | '';
+
+    switch (frequency) {
+      case 'daily':
+        return { frequency };
+      case 'weekly': {
+        const checked = this.todoRecurrenceWeekdays?.querySelectorAll<HTMLInputElement>('input:checked') ?? [];
+        const weekdays = Array.from(checked, input => Number(input.value));
+        return { frequency, weekdays: weekdays.length > 0 ? weekdays : [start.getDay()] };
+      }
+      case 'monthly':
+        return { frequency, dayOfMonth: start.getDate() };
+      case 'after-completion':
+        return { frequency, days: Number(this.todoRecurrenceDaysInput?.value) };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Show the weekday or interval inputs for the chosen recurrence
+   */
+  private updateRecurrenceInputs(): void {
+    const frequency = this.todoRecurrenceSelect?.value;
+
+    if (this.todoRecurrenceWeekdays) {
+      this.todoRecurrenceWeekdays.style.display = frequency === 'weekly' ? '' : 'none';
+    }
+    if (this.todoRecurrenceDaysInput) {
+      this.todoRecurrenceDaysInput.style.display = frequency === 'after-completion' ? '' : 'none';
+    }
+  }
+
+  /**
+   * Reset the recurrence inputs to "Does not repeat"
+   */
+  private resetRecurrenceInputs(): void {
+    if (this.todoRecurrenceSelect) this.todoRecurrenceSelect.value = '';
+    if (this.todoRecurrenceDaysInput) this.todoRecurrenceDaysInput.value = '7';
+    this.todoRecurrenceWeekdays?.querySelectorAll<HTMLInputElement>('input').forEach(input => {
+      input.checked = false;
+    });
+    this.updateRecurrenceInputs();
+  }
+
+  /**
+   * Handle filter button clicks
+   */
+  private handleFilterChange(event: Event): void {
+    const target = event.target as HTMLButtonElement;
+    const filter = target.dataset.filter as TodoFilter;
+
+    if (!filter) return;
+
+    this.handleSetFilter(filter);
+  }
+
+  /**
+   * Show the todos matching a filter
+   */
+  private handleSetFilter(filter: TodoFilter): void {
+    try {
+      this.todoList.setFilter(filter);
+    } catch (error) {
+      this.handleError(error, 'Failed to change filter');
+    }
+  }
+
+  /**
+   * Handle typing in the search box
+   */
+  private handleSearchInput(): void {
+    if (this.searchTimerId !== null) {
+      clearTimeout(this.searchTimerId);
+    }
+    this.searchTimerId = setTimeout(() => {
+      this.searchTimerId = null;
+      this.applySearchQuery();
+    }, SEARCH_DEBOUNCE_DELAY);
+  }
+
+  /**
+   * Apply the search box query to the current list
+   *
+   * Syntax errors are shown under the search box instead of in a modal, since
+   * they are expected while a query is still being typed.
+   */
+  private applySearchQuery(): void {
+    if (!this.searchInput) return;
+
+    const feedback = this.searchInput.nextElementSibling as HTMLElement | null;
+
+    try {
+      this.todoList.setSearchQuery(this.searchInput.value);
+      this.searchInput.classList.remove('is-invalid');
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        this.searchInput.classList.add('is-invalid');
+        if (feedback) feedback.textContent = error.message;
+      } else {
+        this.handleError(error, 'Failed to search');
+      }
+    }
+  }
+
+  /**
+   * Handle sort field selection
+   */
+  private handleSortChange(): void {
+    const field = this.sortFieldSelect?.value as TodoSortField | undefined;
+    if (!field) return;
+
+    try {
+      this.todoList.setSort({ ...this.todoList.getCurrentSort(), field });
+    } catch (error) {
+      this.handleError(error, 'Failed to change sort order');
+    }
+  }
+
+  /**
+   * Handle sort direction toggle
+   */
+  private handleSortDirectionToggle(): void {
+    const sort = this.todoList.getCurrentSort();
+
+    try {
+      this.todoList.setSort({ ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' });
+    } catch (error) {
+      this.handleError(error, 'Failed to change sort order');
+    }
+  }
+
+  /**
+   * Handle clicks on a tag chip by adding or removing it from the tag filter
+   */
+  private handleTagFilterToggle(tag: string): void {
+    const tags = this.todoList.getTagFilter();
+
+    try {
+      this.todoList.setTagFilter(tags.includes(tag) ? tags.filter(t => t !== tag) : [...tags, tag]);
+    } catch (error) {
+      this.handleError(error, 'Failed to filter by tag');
+    }
+  }
+
+  /**
+   * Handle tag colour changes from the tag filter bar
+   */
+  private handleTagColorChange(tag: string, color: string): void {
+    try {
+      this.todoList.setTagColor(tag, color);
+    } catch (error) {
+      this.handleError(error, 'Failed to change tag colour');
+    }
+  }
+
+  /**
+   * Handle todo toggle (completion status)
+   */
+  private handleToggleTodo(todoId: string): void {
+    try {
+      const updatedTodo = this.todoList.toggleTodo(todoId);
+      if (updatedTodo) {
+        const status = updatedTodo.completed ? 'completed' : 'pending';
+        this.showSuccessMessage(`Todo marked as ${status}!`, this.undoAction());
+      }
+    } catch (error) {
+      this.handleError(error, 'Failed to toggle todo');
+    }
+  }
+
+  /**
+   * Handle saving edited todo text
+   *
+   * Validation errors propagate so the inline editor can display them.
+   */
+  private handleUpdateTodoText(todoId: string, text: string): void {
+    const updatedTodo = this.todoList.updateTodo(todoId, { text });
+    if (updatedTodo) {
+      this.showSuccessMessage('Todo updated successfully!', this.undoAction());
+    }
+  }
+
+  /**
+   * Handle adding a subtask to a todo
+   */
+  private handleAddSubtask(parentId: string): void {
+    const text = window.prompt('Subtask:');
+    if (text === null) return;
+
+    try {
+      const subtask = this.todoList.addSubtask(parentId, text);
+      this.collapsedTodoIds.delete(parentId);
+      this.render();
+      this.showSuccessMessage(`Subtask "${subtask.text}" added successfully!`, this.undoAction());
+    } catch (error) {
+      this.handleError(error, 'Failed to add subtask');
+    }
+  }
+
+  /**
+   * Handle promoting a subtask one level up
+   */
+  private handlePromoteSubtask(todoId: string): void {
+    try {
+      this.todoList.promoteSubtask(todoId);
+    } catch (error) {
+      this.handleError(error, 'Failed to promote subtask');
+    }
+  }
+
+  /**
+   * Handle collapsing or expanding a todo's subtasks
+   */
+  private handleToggleCollapsed(todoId: string): void {
+    if (this.collapsedTodoIds.has(todoId)) {
+      this.collapsedTodoIds.delete(todoId);
+    } else {
+      this.collapsedTodoIds.add(todoId);
+    }
+    this.render();
+  }
+
+  /**
+   * Handle todo deletion
+   */
+  private handleDeleteTodo(todoId: string): void {
+    try {
+      const success = this.todoList.deleteTodo(todoId);
+      if (success) {
+        this.showSuccessMessage('Todo moved to the trash!', this.undoAction());
+      }
+    } catch (error) {
+      this.handleError(error, 'Failed to delete todo');
+    }
+  }
+
+  /**
+   * Handle selecting or deselecting a todo
+   *
+   * With shift held, every visible todo between the previously clicked one
+   * and this one gets the same selection state.
+   */
+  private handleSelectTodo(todoId: string, selected: boolean, extendRange: boolean): void {
+    const visibleIds = this.getVisibleTodoIds();
+    const anchorIndex = this.lastSelectedTodoId ? visibleIds.indexOf(this.lastSelectedTodoId) : -1;
+    const index = visibleIds.indexOf(todoId);
+
+    const ids = extendRange && anchorIndex !== -1 && index !== -1
+      ? visibleIds.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+      : [todoId];
+
+    ids.forEach(id => (selected ? this.selectedTodoIds.add(id) : this.selectedTodoIds.delete(id)));
+    this.lastSelectedTodoId = todoId;
+    this.render();
+  }
+
+  /**
+   * Handle a button in the bulk action bar
+   */
+  private handleBulkAction(action: string): void {
+    const ids = [...this.selectedTodoIds];
+
+    try {
+      switch (action) {
+        case 'select-all':
+          this.getVisibleTodoIds().forEach(id => this.selectedTodoIds.add(id));
+          this.render();
+          return;
+
+        case 'clear':
+          this.selectedTodoIds.clear();
+          this.render();
+          return;
+
+        case 'complete':
+        case 'reopen': {
+          const updated = this.todoList.updateMany(ids, { completed: action === 'complete' });
+          this.showSuccessMessage(
+            `${updated.length} todo${updated.length === 1 ? '' : 's'} ${action === 'complete' ? 'completed' : 'reopened'}!`,
+            this.undoAction()
+          );
+          return;
+        }
+
+        case 'add-tag':
+        case 'remove-tag': {
+          const input = window.prompt(action === 'add-tag' ? 'Tag to add to the selected todos:' : 'Tag to remove from the selected todos:');
+          if (input === null) return;
+
+          const tags = parseTagInput(input);
+          if (tags.length === 0) return;
+
+          const updated = this.todoList.updateMany(ids, todo => ({
+            tags: action === 'add-tag' ? [...todo.tags, ...tags] : todo.tags.filter(tag => !tags.includes(tag))
+          }));
+          this.showSuccessMessage(`Tags updated on ${updated.length} todo${updated.length === 1 ? '' : 's'}!`, this.undoAction());
+          return;
+        }
+
+        case 'delete': {
+          const deletedCount = this.todoList.deleteMany(ids);
+          this.selectedTodoIds.clear();
+          this.showSuccessMessage(`${deletedCount} todo${deletedCount === 1 ? '' : 's'} moved to the trash!`, this.undoAction());
+          return;
+        }
+      }
+    } catch (error) {
+      this.handleError(error, 'Failed to update selected todos');
+    }
+  }
+
+  /**
+   * Handle moving the selected todos to another list
+   */
+  private async handleBulkMove(toListId: string): Promise<void> {
+    try {
+      const fromList = this.listManager.getCurrentListInfo();
+      const moved = await this.listManager.moveTodos([...this.selectedTodoIds], fromList.id, toListId);
+      const toList = this.listManager.getLists().find(list => list.id === toListId);
+      this.selectedTodoIds.clear();
+      this.render();
+      this.showSuccessMessage(`${moved.length} todo${moved.length === 1 ? '' : 's'} moved to "${toList?.name ?? 'list'}"!`);
+    } catch (error) {
+      this.handleError(error, 'Failed to move todos', () => this.handleBulkMove(toListId));
+    }
+  }
+
+  /**
+   * Get the ids of the rendered todos in display order
+   */
+  private getVisibleTodoIds(): string[] {
+    const items = this.todoListContainer?.querySelectorAll<HTMLElement>('li[data-todo-id]') ?? [];
+    return Array.from(items, item => item.dataset.todoId ?? '').filter(Boolean);
+  }
+
+  /**
+   * Handle clear completed todos
+   */
+  private handleClearCompleted(): void {
+    try {
+      const deletedCount = this.todoList.deleteCompletedTodos();
+      if (deletedCount > 0) {
+        this.showSuccessMessage(`${deletedCount} completed todo(s) moved to the trash!`, this.undoAction());
+      } else {
+        this.showInfoMessage('No completed todos to clear.');
+      }
+    } catch (error) {
+      this.handleError(error, 'Failed to clear completed todos');
+    }
+  }
+
+  /**
+   * Download the current list in the selected format
+   */
+  private handleExport(): void {
+    try {
+      const format = getTodoFormat(this.exportFormatSelect?.value || 'json');
+      const content = this.todoList.exportTodos(format.id);
+      this.downloadFile(`${this.fileNameFor(this.listManager.getCurrentListInfo().name)}.${format.extensions[0]}`, content, format.mimeType);
+    } catch (error) {
+      this.handleError(error, 'Failed to export todos', () => this.handleExport());
+    }
+  }
+
+  /**
+   * Import a file into the current list, choosing the format from its extension
+   */
+  private async handleImportFile(file: File): Promise<void> {
+    const format = findTodoFormatForFile(file.name);
+    if (!format) {
+      const extensions = getTodoFormats().flatMap(format => format.extensions.map(extension => `.${extension}`));
+      this.showErrorMessage(`Cannot import ${file.name}. Supported files: ${extensions.join(', ')}`);
+      return;
+    }
+
+    try {
+      this.showImportPreview(file.name, await file.text(), format.id);
+    } catch (error) {
+      this.handleError(error, 'Failed to import todos', () => this.handleImportFile(file));
+    }
+  }
+
+  /**
+   * Show what importing a file would change and import it once confirmed
+   *
+   * The preview is a dry run; it is refreshed when the user changes the import
+   * mode or picks a side for a conflict, and nothing changes until "Import".
+   */
+  private showImportPreview(fileName: string, content: string, format: string): void {
+    let mode: ImportMode = 'merge';
+    const resolutions: Record<string, ImportResolution> = {};
+    let preview = this.todoList.previewImport(content, { format, mode, resolutions });
+    let afterClose: (() => void) | null = null;
+
+    document.querySelectorAll('#importModal').forEach(modal => modal.remove());
+
+    const modes: Array<{ mode: ImportMode; label: string; description: string }> = [
+      { mode: 'merge', label: 'Merge', description: 'Match todos by id; the newer version wins unless you choose' },
+      { mode: 'append', label: 'Append', description: 'Add every imported todo as a new copy' },
+      { mode: 'replace', label: 'Replace', description: 'Delete the current todos and use the imported ones' }
+    ];
+
+    const modalHtml = `
+      <div class="modal fade" id="importModal" tabindex="-1" aria-labelledby="importModalLabel" aria-hidden="true">
+        <div class="modal-dialog modal-dialog-centered modal-dialog-scrollable modal-lg">
+          <div class="modal-content">
+            <div class="modal-header">
+              <h5 class="modal-title" id="importModalLabel">Import ${this.escapeHtml(fileName)}</h5>
+              <button type="button" class="btn-close" data-bs-dismiss="modal" aria-label="Close"></button>
+            </div>
+            <div class="modal-body">
+              <div class="btn-group btn-group-sm mb-2" role="group" aria-label="Import mode">
+                ${modes.map(option => `
+                  <input type="radio" class="btn-check" name="importMode" id="importMode-${option.mode}" value="${option.mode}" ${option.mode === mode ? 'checked' : ''}>
+                  <label class="btn btn-outline-primary" for="importMode-${option.mode}" title="${this.escapeHtml(option.description)}">${option.label}</label>
+                `).join('')}
+              </div>
+              <p class="small text-muted" data-preview="mode"></p>
+              <p data-preview="summary"></p>
+              <div data-preview="conflicts"></div>
+              <div class="small" data-preview="details"></div>
+            </div>
+            <div class="modal-footer">
+              <button type="button" class="btn btn-outline-secondary" data-bs-dismiss="modal">Cancel</button>
+              <button type="button" class="btn btn-primary" data-action="confirm-import">Import</button>
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+
+    document.body.insertAdjacentHTML('beforeend', modalHtml);
+
+    const modalElement = document.getElementById('importModal');
+    if (!modalElement) return;
+
+    const part = (name: string): HTMLElement | null => modalElement.querySelector<HTMLElement>(`[data-preview="${name}"]`);
+    const confirmBtn = modalElement.querySelector<HTMLButtonElement>('[data-action="confirm-import"]');
+
+    const renderPreview = (includeConflicts: boolean): void => {
+      preview = this.todoList.previewImport(content, { format, mode, resolutions });
+
+      const modeText = part('mode');
+      if (modeText) {
+        modeText.textContent = modes.find(option => option.mode === mode)?.description ?? '';
+      }
+
+      const summary = part('summary');
+      if (summary) {
+        summary.textContent = [
+          `${preview.added.length} to add`,
+          `${preview.updated.length} to update`,
+          `${preview.skipped.length} skipped`,
+          ...(preview.removed.length > 0 ? [`${preview.removed.length} current todo(s) removed`] : []),
+          ...(preview.errors.length > 0 ? [`${preview.errors.length} unreadable line(s)`] : [])
+        ].join(', ') + '.';
+      }
+
+      const conflicts = part('conflicts');
+      if (conflicts && includeConflicts) {
+        conflicts.innerHTML = preview.conflicts.length === 0 ? '' : `
+          <h6>Conflicts</h6>
+          <ul class="list-group mb-3">
+            ${preview.conflicts.map(conflict => this.renderImportConflict(conflict)).join('')}
+          </ul>
+        `;
+      }
+
+      const details = part('details');
+      if (details) {
+        details.innerHTML = [
+          this.renderImportItems('Added', preview.added.map(item => `Line ${item.line}: ${item.todo.text}`)),
+          this.renderImportItems('Updated', preview.updated.map(item => `Line ${item.line}: ${item.todo.text} (${item.reason})`)),
+          this.renderImportItems('Skipped', preview.skipped.map(item => `Line ${item.line}: ${item.todo.text} (${item.reason})`)),
+          this.renderImportItems('Removed', preview.removed.map(todo => todo.text)),
+          this.renderImportItems('Unreadable lines', preview.errors.map(error => `Line ${error.line}: ${error.message}`))
+        ].join('');
+      }
+
+      if (confirmBtn) {
+        confirmBtn.disabled = mode !== 'replace' && preview.imported === 0;
+        confirmBtn.textContent = mode === 'replace' ? 'Replace todos' : `Import ${preview.imported} todo(s)`;
+      }
+    };
+
+    const modal = new (window as any).bootstrap.Modal(modalElement);
+    modalElement.addEventListener('hidden.bs.modal', () => {
+      modalElement.remove();
+      afterClose?.();
+    }, { once: true });
+
+    modalElement.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement | HTMLSelectElement;
+      try {
+        if (target.name === 'importMode') {
+          mode = target.value as ImportMode;
+          renderPreview(true);
+        } else if (target.dataset.conflictId) {
+          resolutions[target.dataset.conflictId] = target.value as ImportResolution;
+          renderPreview(false);
+        }
+      } catch (error) {
+        modal.hide();
+        this.handleError(error, 'Failed to preview import');
+      }
+    });
+
+    confirmBtn?.addEventListener('click', () => {
+      try {
+        const result = this.todoList.importTodos(content, { format, mode, resolutions });
+        afterClose = () => {
+          this.renderImportErrors(result.errors.length > 0 ? { fileName, errors: result.errors } : null);
+          this.showSuccessMessage(`${result.imported} todo(s) imported from ${fileName}!`, this.undoAction());
+        };
+      } catch (error) {
+        afterClose = () => this.handleError(error, 'Failed to import todos');
+      }
+      modal.hide();
+    });
+
+    renderPreview(true);
+    modal.show();
+  }
+
+  /**
+   * Render a conflict in the import preview, with a choice of which version to keep
+   */
+  private renderImportConflict(conflict: ImportConflict): string {
+    const describe = (todo: Todo): string =>
+      `${todo.completed ? '✓ ' : ''}${todo.text} · updated ${this.formatDate(todo.updatedAt)}`;
+    const option = (value: ImportResolution, label: string): string =>
+      `<option value="${value}" ${conflict.resolution === value ? 'selected' : ''}>${label}${conflict.newer === value ? ' (newer)' : ''}</option>`;
+
+    return `
+      <li class="list-group-item small">
+        <div class="d-flex align-items-center gap-2">
+          <span class="me-auto">Line ${conflict.line}</span>
+          <select class="form-select form-select-sm import-resolution" data-conflict-id="${this.escapeHtml(conflict.local.id)}" aria-label="Version to keep">
+            ${option('local', 'Keep current')}
+            ${option('imported', 'Use imported')}
+          </select>
+        </div>
+        <div>Current: ${this.escapeHtml(describe(conflict.local))}</div>
+        <div>Imported: ${this.escapeHtml(describe(conflict.imported))}</div>
+      </li>
+    `;
+  }
+
+  /**
+   * Render a collapsible list of import preview lines (nothing if empty)
+   */
+  private renderImportItems(title: string, lines: string[]): string {
+    if (lines.length === 0) {
+      return '';
+    }
+
+    const shown = lines.slice(0, MAX_IMPORT_ITEMS_SHOWN);
+    const hidden = lines.length - shown.length;
+    return `
+      <details class="mb-2">
+        <summary>${title} (${lines.length})</summary>
+        <ul class="mb-0 mt-1">
+          ${shown.map(line => `<li>${this.escapeHtml(line)}</li>`).join('')}
+          ${hidden > 0 ? `<li>…and ${hidden} more</li>` : ''}
+        </ul>
+      </details>
+    `;
+  }
+
+  /**
+   * Accept files dragged from outside the page onto the todo list
+   */
+  private setupFileDrop(): void {
+    const dropZone = this.todoListContainer?.closest<HTMLElement>('.card');
+    if (!dropZone) return;
+
+    // Todos dragged for reordering carry no files and are left alone
+    const hasFiles = (e: DragEvent): boolean => e.dataTransfer?.types.includes('Files') ?? false;
+
+    dropZone.addEventListener('dragover', (e) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      dropZone.classList.add(CSS_CLASSES.FILE_DROP);
+    });
+    dropZone.addEventListener('dragleave', (e) => {
+      if (!dropZone.contains(e.relatedTarget as Node | null)) {
+        dropZone.classList.remove(CSS_CLASSES.FILE_DROP);
+      }
+    });
+    dropZone.addEventListener('drop', (e) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      dropZone.classList.remove(CSS_CLASSES.FILE_DROP);
+
+      const file = e.dataTransfer?.files[0];
+      if (file) {
+        this.handleImportFile(file);
+      }
+    });
+  }
+
+  /**
+   * Show the lines of the last imported file that were skipped, or hide the list
+   */
+  private renderImportErrors(report: { fileName: string; errors: ImportLineError[] } | null): void {
+    if (!this.importErrorsEl) return;
+
+    if (!report) {
+      this.importErrorsEl.style.display = 'none';
+      this.importErrorsEl.innerHTML = '';
+      return;
+    }
+
+    const shown = report.errors.slice(0, MAX_IMPORT_ITEMS_SHOWN);
+    const hidden = report.errors.length - shown.length;
+    this.importErrorsEl.innerHTML = `
+      <div class="d-flex align-items-start">
+        <strong class="me-auto">${report.errors.length} line(s) of ${this.escapeHtml(report.fileName)} were skipped:</strong>
+        <button type="button" class="btn-close" data-action="dismiss-import-errors" aria-label="Dismiss"></button>
+      </div>
+      <ul class="mb-0 mt-1">
+        ${shown.map(error => `<li>Line ${error.line}: ${this.escapeHtml(error.message)}</li>`).join('')}
+        ${hidden > 0 ? `<li>…and ${hidden} more</li>` : ''}
+      </ul>
+    `;
+    this.importErrorsEl.style.display = 'block';
+  }
+
+  /**
+   * Show a reminder for todos whose due time just passed
+   */
+  private handleDueTodos(todos: Todo[]): void {
+    // Overdue styling and the overdue filter depend on the current time
+    this.render();
+
+    const names = todos.map(todo => `"${todo.text}"`).join(', ');
+    this.showInfoMessage(`Reminder: ${names} ${todos.length === 1 ? 'is' : 'are'} now due.`);
+  }
+
+  /**
+   * Handle undo of the most recent change
+   */
+  private handleUndo(): void {
+    try {
+      if (!this.todoList.undo()) {
+        this.showInfoMessage('Nothing to undo.');
+      }
+    } catch (error) {
+      this.handleError(error, 'Failed to undo');
+    }
+  }
+
+  /**
+   * Build the "Undo" action offered in success messages
+   */
+  private undoAction(): MessageAction {
+    return { label: 'Undo', handler: () => this.handleUndo() };
+  }
+
+  /**
+   * Handle redo of the most recently undone change
+   */
+  private handleRedo(): void {
+    try {
+      if (!this.todoList.redo()) {
+        this.showInfoMessage('Nothing to redo.');
+      }
+    } catch (error) {
+      this.handleError(error, 'Failed to redo');
+    }
+  }
+
+  /**
+   * Build the commands offered as shortcuts and in the command palette
+   */
+  private createCommands(): AppCommand[] {
+    const hasActiveTodo = (): boolean => this.getActiveTodoElement() !== null;
+    const filterLabels: Record<TodoFilter, string> = {
+      'all': 'all todos',
+      'completed': 'completed todos',
+      'pending': 'pending todos',
+      'overdue': 'overdue todos',
+      'due-today': 'todos due today'
+    };
+
+    return [
+      { id: 'command-palette', label: 'Open command palette', defaultKeys: ['Ctrl+k', 'Meta+k'], run: () => this.showCommandPalette() },
+      { id: 'show-shortcuts', label: 'Show keyboard shortcuts', defaultKeys: ['?'], run: () => this.showShortcuts() },
+      { id: 'new-todo', label: 'New todo', defaultKeys: ['n'], run: () => this.todoInput?.focus() },
+      { id: 'next-todo', label: 'Go to next todo', defaultKeys: ['j'], run: () => this.moveActiveTodo(1) },
+      { id: 'previous-todo', label: 'Go to previous todo', defaultKeys: ['k'], run: () => this.moveActiveTodo(-1) },
+      {
+        id: 'toggle-todo',
+        label: 'Complete or reopen todo',
+        defaultKeys: ['x'],
+        run: () => this.runOnActiveTodo(todo => this.handleToggleTodo(todo.id)),
+        isAvailable: hasActiveTodo
+      },
+      {
+        id: 'edit-todo',
+        label: 'Edit todo',
+        defaultKeys: ['e'],
+        run: () => {
+          const li = this.getActiveTodoElement();
+          const todo = this.activeTodoId ? this.todoList.getTodoById(this.activeTodoId) : null;
+          if (li && todo) {
+            this.startEditing(li, todo);
+          }
+        },
+        isAvailable: hasActiveTodo
+      },
+      {
+        id: 'todo-history',
+        label: 'Show todo history',
+        defaultKeys: ['h'],
+        run: () => this.runOnActiveTodo(todo => this.showActivity(todo.id)),
+        isAvailable: hasActiveTodo
+      },
+      {
+        id: 'delete-todo',
+        label: 'Delete todo',
+        defaultKeys: ['Delete'],
+        run: () => this.runOnActiveTodo(todo => this.handleDeleteTodo(todo.id)),
+        isAvailable: hasActiveTodo
+      },
+      ...TODO_FILTERS.map((filter, index) => ({
+        id: `filter-${filter}`,
+        label: `Show ${filterLabels[filter]}`,
+        defaultKeys: index < 3 ? [`${index + 1}`] : [],
+        run: () => this.handleSetFilter(filter)
+      })),
+      { id: 'search', label: 'Search todos', defaultKeys: [], run: () => this.searchInput?.focus() },
+      { id: 'toggle-sort-direction', label: 'Reverse sort order', defaultKeys: [], run: () => this.handleSortDirectionToggle() },
+      { id: 'undo', label: 'Undo', defaultKeys: [], run: () => this.handleUndo(), isAvailable: () => this.todoList.canUndo() },
+      { id: 'redo', label: 'Redo', defaultKeys: [], run: () => this.handleRedo(), isAvailable: () => this.todoList.canRedo() },
+      {
+        id: 'clear-completed',
+        label: 'Clear completed todos',
+        defaultKeys: [],
+        run: () => this.handleClearCompleted(),
+        isAvailable: () => this.todoList.getStats().completed > 0
+      },
+      { id: 'show-trash', label: 'Show trash', defaultKeys: [], run: () => this.showTrash() },
+      { id: 'show-activity', label: 'Show recent activity', defaultKeys: [], run: () => this.showActivity() },
+      {
+        id: 'toggle-insights',
+        label: 'Show or hide insights',
+        defaultKeys: [],
+        run: () => {
+          if (this.dashboardEl) {
+            this.dashboardEl.open = !this.dashboardEl.open;
+            this.dashboardEl.scrollIntoView({ block: 'nearest' });
+          }
+        }
+      },
+      { id: 'export', label: 'Export list', defaultKeys: [], run: () => this.handleExport() },
+      { id: 'import', label: 'Import file…', defaultKeys: [], run: () => this.importFileInput?.click() },
+      { id: 'new-list', label: 'New list…', defaultKeys: [], run: () => this.handleCreateList() },
+      { id: 'rename-list', label: 'Rename list…', defaultKeys: [], run: () => this.handleRenameList() },
+      { id: 'delete-list', label: 'Delete list', defaultKeys: [], run: () => this.handleDeleteList() },
+      { id: 'sync-settings', label: 'Sync settings…', defaultKeys: [], run: () => this.handleSyncSettings() }
+    ];
+  }
+
+  /**
+   * Get the commands the palette offers right now, including one per other list
+   */
+  private getPaletteCommands(): AppCommand[] {
+    const currentId = this.listManager.getCurrentListInfo().id;
+    const switchCommands: AppCommand[] = this.listManager.getLists()
+      .filter(list => list.id !== currentId)
+      .map(list => ({
+        id: `switch-list-${list.id}`,
+        label: `Switch to list: ${list.name}`,
+        defaultKeys: [],
+        run: () => this.listManager.switchList(list.id)
+      }));
+
+    return [...this.keyBindings.getCommands(), ...switchCommands]
+      .filter(command => command.isAvailable?.() !== false);
+  }
+
+  /**
+   * Run the command bound to a pressed key
+   *
+   * Keys typed into a text field stay there unless Ctrl, Alt or Meta is held,
+   * and nothing runs while a dialog is open.
+   */
+  private handleShortcut(event: KeyboardEvent): void {
+    if (event.defaultPrevented || document.querySelector('.modal.show')) return;
+    if (this.isTypingTarget(event.target) && !event.ctrlKey && !event.altKey && !event.metaKey) return;
+
+    const key = keyFromEvent(event);
+    const command = key ? this.keyBindings.findCommand(key) : undefined;
+    if (!command || command.isAvailable?.() === false) return;
+
+    event.preventDefault();
+    try {
+      command.run();
+    } catch (error) {
+      this.handleError(error, `Failed to run "${command.label}"`);
+    }
+  }
+
+  /**
+   * Check whether an event target takes typed text
+   */
+  private isTypingTarget(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false;
+    if (target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+
+    const nonTextTypes = ['checkbox', 'radio', 'button', 'submit', 'reset', 'file', 'color', 'range'];
+    return target instanceof HTMLInputElement && !nonTextTypes.includes(target.type);
+  }
+
+  /**
+   * Get the rendered element of the active todo, if it is shown
+   */
+  private getActiveTodoElement(): HTMLLIElement | null {
+    if (!this.activeTodoId) return null;
+    return this.todoListContainer?.querySelector<HTMLLIElement>(`li[data-todo-id="${CSS.escape(this.activeTodoId)}"]`) ?? null;
+  }
+
+  /**
+   * Make a todo the active one for keyboard commands
+   */
+  private setActiveTodo(todoId: string | null, focus: boolean = true): void {
+    this.getActiveTodoElement()?.classList.remove(CSS_CLASSES.ACTIVE);
+    this.activeTodoId = todoId;
+
+    const li = this.getActiveTodoElement();
+    li?.classList.add(CSS_CLASSES.ACTIVE);
+    if (focus) {
+      li?.querySelector<HTMLElement>(':scope > .form-check .todo-text')?.focus();
+    }
+  }
+
+  /**
+   * Move the active todo up or down the displayed list
+   */
+  private moveActiveTodo(offset: -1 | 1): void {
+    const ids = this.getVisibleTodoIds();
+    if (ids.length === 0) return;
+
+    const index = this.activeTodoId ? ids.indexOf(this.activeTodoId) : -1;
+    const next = index === -1
+      ? (offset === 1 ? 0 : ids.length - 1)
+      : Math.min(Math.max(index + offset, 0), ids.length - 1);
+    this.setActiveTodo(ids[next]!);
+  }
+
+  /**
+   * Run an action on the active todo, then keep a todo active
+   *
+   * If the action removed the todo from view (deleted, or filtered out once
+   * completed), the todo now in its place becomes active.
+   */
+  private runOnActiveTodo(action: (todo: Todo) => void): void {
+    const todo = this.activeTodoId ? this.todoList.getTodoById(this.activeTodoId) : null;
+    if (!todo) return;
+
+    const index = this.getVisibleTodoIds().indexOf(todo.id);
+    action(todo);
+
+    const ids = this.getVisibleTodoIds();
+    this.setActiveTodo(ids.includes(todo.id) ? todo.id : ids[Math.min(index, ids.length - 1)] ?? null);
+  }
+
+  /**
+   * Render the entire application
+   */
+  private render(): void {
+    this.renderListSwitcher();
+    this.renderTodoList();
+    this.renderBulkActions();
+    this.renderTagFilters();
+    this.renderStatistics();
+    this.renderDashboard();
+    this.updateClearCompletedButton();
+    this.updateTrashButton();
+    this.updateEmptyState();
+  }
+
+  /**
+   * Show the bulk action bar while todos are selected
+   */
+  private renderBulkActions(): void {
+    // Forget selected todos that were deleted or moved away
+    this.selectedTodoIds.forEach(id => {
+      if (!this.todoList.getTodoById(id)) {
+        this.selectedTodoIds.delete(id);
+      }
+    });
+
+    const count = this.selectedTodoIds.size;
+    if (this.bulkActionsBar) {
+      this.bulkActionsBar.style.display = count > 0 ? 'flex' : 'none';
+    }
+    if (this.bulkCountEl) {
+      this.bulkCountEl.textContent = `${count} selected`;
+    }
+    if (this.bulkMoveSelect) {
+      const currentId = this.listManager.getCurrentListInfo().id;
+      const otherLists = this.listManager.getLists().filter(list => list.id !== currentId);
+      this.bulkMoveSelect.style.display = otherLists.length > 0 ? '' : 'none';
+      this.bulkMoveSelect.innerHTML = `
+        <option value="">Move to…</option>
+        ${otherLists.map(list => `<option value="${this.escapeHtml(list.id)}">${this.escapeHtml(list.name)}</option>`).join('')}
+      `;
+    }
+  }
+
+  /**
+   * Render the list switcher with pending counts per list
+   */
+  private renderListSwitcher(): void {
+    if (!this.listSelect) return;
+
+    const lists = this.listManager.getLists();
+    const current = this.listManager.getCurrentListInfo();
+
+    this.listSelect.innerHTML = '';
+    lists.forEach(list => {
+      const pending = this.listManager.getListStats(list.id).pending;
+      const option = DOMUtils.createElement('option', { 'value': list.id }, `${list.name} (${pending})`);
+      option.selected = list.id === current.id;
+      this.listSelect!.appendChild(option);
+    });
+
+    const index = lists.findIndex(list => list.id === current.id);
+    if (this.listButtons.delete) this.listButtons.delete.disabled = lists.length <= 1;
+    if (this.listButtons.left) this.listButtons.left.disabled = index <= 0;
+    if (this.listButtons.right) this.listButtons.right.disabled = index >= lists.length - 1;
+  }
+
+  /**
+   * Render the todo list
+   */
+  private renderTodoList(): void {
+    if (!this.todoListContainer) return;
+
+    const todos = this.todoList.getFilteredTodos();
+    this.todoListContainer.innerHTML = '';
+
+    // Subtasks render under their parent when the parent is visible too
+    const visibleIds = new Set(todos.map(todo => todo.id));
+    const childrenByParent = new Map<string, Todo[]>();
+    const roots: Todo[] = [];
+
+    todos.forEach(todo => {
+      if (todo.parentId && visibleIds.has(todo.parentId)) {
+        childrenByParent.set(todo.parentId, [...(childrenByParent.get(todo.parentId) ?? []), todo]);
+      } else {
+        roots.push(todo);
+      }
+    });
+
+    roots.forEach(todo => {
+      const todoElement = this.createTodoTree(todo, childrenByParent);
+      this.todoListContainer!.appendChild(todoElement);
+    });
+  }
+
+  /**
+   * Create a todo element with its visible subtasks nested below it
+   */
+  private createTodoTree(todo: Todo, childrenByParent: Map<string, Todo[]>): HTMLLIElement {
+    const li = this.createTodoElement(todo);
+    const children = childrenByParent.get(todo.id) ?? [];
+
+    if (children.length > 0 && !this.collapsedTodoIds.has(todo.id)) {
+      const subtaskList = DOMUtils.createElement('ul', { 'class': 'subtask-list list-unstyled' });
+      children.forEach(child => subtaskList.appendChild(this.createTodoTree(child, childrenByParent)));
+      li.appendChild(subtaskList);
+    }
+
+    return li;
+  }
+
+  /**
+   * Create a todo element
+   */
+  private createTodoElement(todo: Todo): HTMLLIElement {
+    const overdue = isOverdue(todo);
+    const progress = this.todoList.getSubtaskProgress(todo.id);
+    const collapsed = this.collapsedTodoIds.has(todo.id);
+    const canAddSubtask = this.todoList.getTodoDepth(todo.id) + 1 < MAX_TODO_DEPTH;
+    const reorderable = this.todoList.getCurrentSort().field === 'manual';
+    const selected = this.selectedTodoIds.has(todo.id);
+    const li = DOMUtils.createElement('li', {
+      'class': [
+        CSS_CLASSES.TODO_ITEM,
+        todo.completed ? CSS_CLASSES.COMPLETED : '',
+        overdue ? CSS_CLASSES.OVERDUE : '',
+        todo.parentId ? CSS_CLASSES.SUBTASK : '',
+        collapsed ? CSS_CLASSES.COLLAPSED : '',
+        selected ? CSS_CLASSES.SELECTED : '',
+        todo.id === this.activeTodoId ? CSS_CLASSES.ACTIVE : ''
+      ].filter(Boolean).join(' '),
+      'data-todo-id': todo.id
+    });
+
+    li.innerHTML = `
+      <div class="form-check d-flex align-items-center">
+        <input
+          class="form-check-input todo-select me-2"
+          type="checkbox"
+          data-action="select"
+          aria-label="Select todo (shift-click to select a range)"
+          ${selected ? 'checked' : ''}
+        >
+        ${reorderable ? `
+          <button
+            type="button"
+            class="btn btn-link btn-sm drag-handle me-1"
+            data-action="reorder"
+            aria-label="Reorder todo (drag, or use the up and down arrow keys)"
+            title="Drag or press ↑/↓ to reorder"
+          >⠿</button>
+        ` : ''}
+        ${progress.total > 0 ? `
+          <button
+            type="button"
+            class="btn btn-link btn-sm subtask-toggle me-1"
+            data-action="collapse"
+            aria-expanded="${!collapsed}"
+            title="${collapsed ? 'Show' : 'Hide'} subtasks"
+          >${collapsed ? '▸' : '▾'}</button>
+        ` : ''}
+        <input 
+          class="form-check-input me-3" 
+          type="checkbox" 
+          data-action="toggle"
+          ${todo.completed ? 'checked' : ''}
+          id="todo-${this.escapeHtml(todo.id)}"
+        >
+        <label class="form-check-label flex-grow-1" for="todo-${this.escapeHtml(todo.id)}">
+          <span class="todo-text" tabindex="0" title="Double-click or press Enter to edit">${this.highlightMatches(todo.text)}</span>
+          ${todo.priority !== 'normal' ? `<span class="badge todo-priority priority-${todo.priority} ms-2">${todo.priority}</span>` : ''}
+          ${todo.recurrence ? `<span class="badge todo-recurrence ms-2" title="Repeats">🔁 ${this.escapeHtml(describeRecurrence(todo.recurrence))}</span>` : ''}
+          ${progress.total > 0 ? `<span class="badge subtask-progress ms-2">${progress.completed}/${progress.total} done</span>` : ''}
+          ${todo.tags.length > 0 ? `<span class="todo-tags d-block">${todo.tags.map(tag => this.createTagChipHtml(tag)).join('')}</span>` : ''}
+          ${todo.dueAt ? `<small class="todo-due d-block">${overdue ? 'Overdue' : 'Due'}: ${this.escapeHtml(this.formatDueDate(todo))}</small>` : ''}
+        </label>
+        ${canAddSubtask ? `
+          <button type="button" class="btn btn-outline-secondary btn-sm ms-2" data-action="add-subtask" title="Add subtask">
+            + Subtask
+          </button>
+        ` : ''}
+        ${todo.parentId ? `
+          <button type="button" class="btn btn-outline-secondary btn-sm ms-2" data-action="promote" title="Move up one level">
+            Promote
+          </button>
+        ` : ''}
+        ${this.createMoveSelectHtml()}
+        <button type="button" class="btn btn-outline-secondary btn-sm ms-2" data-action="history" title="Show what happened to this todo">
+          History
+        </button>
+        <button 
+          type="button" 
+          class="btn btn-outline-danger btn-sm ms-2"
+          data-action="delete"
+          title="Delete todo"
+        >
+          Delete
+        </button>
+      </div>
+    `;
+
+    // Add event listeners
+    const checkbox = li.querySelector('[data-action="toggle"]') as HTMLInputElement;
+    const selectBox = li.querySelector('[data-action="select"]') as HTMLInputElement;
+    const deleteBtn = li.querySelector('[data-action="delete"]') as HTMLButtonElement;
+    const textEl = li.querySelector('.todo-text') as HTMLSpanElement;
+
+    checkbox.addEventListener('change', () => this.handleToggleTodo(todo.id));
+    selectBox.addEventListener('click', (e) => this.handleSelectTodo(todo.id, selectBox.checked, e.shiftKey));
+    deleteBtn.addEventListener('click', () => this.handleDeleteTodo(todo.id));
+    li.querySelector('[data-action="collapse"]')?.addEventListener('click', () => this.handleToggleCollapsed(todo.id));
+    li.querySelector('[data-action="add-subtask"]')?.addEventListener('click', () => this.handleAddSubtask(todo.id));
+    li.querySelector('[data-action="promote"]')?.addEventListener('click', () => this.handlePromoteSubtask(todo.id));
+    li.querySelector('[data-action="history"]')?.addEventListener('click', () => this.showActivity(todo.id));
+    const moveSelect = li.querySelector<HTMLSelectElement>('[data-action="move"]');
+    moveSelect?.addEventListener('change', () => {
+      if (moveSelect.value) {
+        this.handleMoveTodo(todo.id, moveSelect.value);
+      }
+    });
+    li.querySelectorAll<HTMLButtonElement>(`.${CSS_CLASSES.TAG_CHIP}`).forEach(chip => {
+      chip.addEventListener('click', (e) => {
+        e.preventDefault();
+        this.handleTagFilterToggle(chip.dataset.tag ?? '');
+      });
+    });
+
+    if (reorderable) {
+      this.setupReordering(li, todo);
+    }
+
+    // Clicking the text edits it instead of toggling the checkbox via the label
+    textEl.addEventListener('click', (e) => e.preventDefault());
+    textEl.addEventListener('dblclick', () => this.startEditing(li, todo));
+    textEl.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        this.startEditing(li, todo);
+      }
+    });
+
+    return li;
+  }
+
+  /**
+   * Make a todo element reorderable by dragging its handle or with the arrow keys
+   *
+   * Todos can only be dropped among their siblings, since reordering never
+   * changes which todo a subtask belongs to.
+   */
+  private setupReordering(li: HTMLLIElement, todo: Todo): void {
+    const handle = li.querySelector<HTMLButtonElement>('[data-action="reorder"]');
+    const row = li.firstElementChild as HTMLElement;
+    if (!handle) return;
+
+    const clearDropMarkers = (): void => {
+      DOMUtils.removeClasses(li, CSS_CLASSES.DROP_BEFORE, CSS_CLASSES.DROP_AFTER);
+    };
+    const canDropHere = (): boolean =>
+      this.draggedTodo !== null &&
+      this.draggedTodo.id !== todo.id &&
+      this.draggedTodo.parentId === todo.parentId;
+    const isAfter = (event: DragEvent): boolean => {
+      const rect = row.getBoundingClientRect();
+      return event.clientY > rect.top + rect.height / 2;
+    };
+
+    // Only the handle starts a drag, so text selection and editing still work
+    handle.addEventListener('pointerdown', () => { li.draggable = true; });
+    handle.addEventListener('pointerup', () => { li.draggable = false; });
+    handle.addEventListener('keydown', (e) => {
+      if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+        e.preventDefault();
+        this.handleKeyboardReorder(li, todo, e.key === 'ArrowUp' ? -1 : 1);
+      }
+    });
+
+    li.addEventListener('dragstart', (e) => {
+      e.stopPropagation();
+      this.draggedTodo = todo;
+      e.dataTransfer?.setData('text/plain', todo.id);
+      if (e.dataTransfer) e.dataTransfer.effectAllowed = 'move';
+      DOMUtils.addClasses(li, CSS_CLASSES.DRAGGING);
+    });
+    li.addEventListener('dragend', (e) => {
+      e.stopPropagation();
+      this.draggedTodo = null;
+      li.draggable = false;
+      DOMUtils.removeClasses(li, CSS_CLASSES.DRAGGING);
+    });
+    li.addEventListener('dragover', (e) => {
+      if (!canDropHere()) return;
+      e.preventDefault();
+      e.stopPropagation();
+      const after = isAfter(e);
+      li.classList.toggle(CSS_CLASSES.DROP_BEFORE, !after);
+      li.classList.toggle(CSS_CLASSES.DROP_AFTER, after);
+    });
+    li.addEventListener('dragleave', (e) => {
+      if (!li.contains(e.relatedTarget as Node | null)) {
+        clearDropMarkers();
+      }
+    });
+    li.addEventListener('drop', (e) => {
+      clearDropMarkers();
+      if (!canDropHere()) return;
+      e.preventDefault();
+      e.stopPropagation();
+      this.handleReorderTodo(this.draggedTodo!.id, todo.id, isAfter(e));
+    });
+  }
+
+  /**
+   * Move a todo one place up or down among its visible siblings
+   */
+  private handleKeyboardReorder(li: HTMLLIElement, todo: Todo, offset: -1 | 1): void {
+    const siblings = Array.from(li.parentElement?.children ?? []) as HTMLElement[];
+    const target = siblings[siblings.indexOf(li) + offset];
+    const targetId = target?.dataset.todoId;
+    if (!targetId) return;
+
+    this.handleReorderTodo(todo.id, targetId, offset === 1);
+
+    // The list re-rendered, so put focus back on the moved todo's handle
+    this.todoListContainer
+      ?.querySelector<HTMLButtonElement>(`li[data-todo-id="${CSS.escape(todo.id)}"] > .form-check > [data-action="reorder"]`)
+      ?.focus();
+  }
+
+  /**
+   * Handle moving a todo just before or just after another todo, as displayed
+   */
+  private handleReorderTodo(todoId: string, targetId: string, after: boolean): void {
+    try {
+      // With a descending sort the list is displayed in reverse order
+      const afterInOrder = after !== (this.todoList.getCurrentSort().direction === 'desc');
+      if (!afterInOrder) {
+        this.todoList.moveTodo(todoId, targetId);
+        return;
+      }
+
+      // "After the target" is "before whatever follows it" in the full list
+      const others = this.todoList.getAllTodos().filter(todo => todo.id !== todoId);
+      const targetIndex = others.findIndex(todo => todo.id === targetId);
+      this.todoList.moveTodo(todoId, others[targetIndex + 1]?.id ?? null);
+    } catch (error) {
+      this.handleError(error, 'Failed to reorder todo');
+    }
+  }
+
+  /**
+   * Replace the todo text with an inline editor
+   *
+   * Enter or blur saves, Escape cancels. Validation errors are shown next to
+   * the field and keep the editor open.
+   */
+  private startEditing(li: HTMLLIElement, todo: Todo): void {
+    const label = li.querySelector('.form-check-label');
+    if (!label || li.classList.contains(CSS_CLASSES.EDITING)) return;
+
+    DOMUtils.addClasses(li, CSS_CLASSES.EDITING);
+
+    const editor = DOMUtils.createElement('div', { 'class': 'todo-edit flex-grow-1' });
+    const input = DOMUtils.createElement('input', {
+      'type': 'text',
+      'class': 'form-control form-control-sm todo-edit-input',
+      'aria-label': 'Edit todo text',
+      'maxlength': '200'
+    });
+    const errorEl = DOMUtils.createElement('div', { 'class': 'invalid-feedback', 'role': 'alert' });
+    input.value = todo.text;
+
+    editor.append(input, errorEl);
+    label.replaceWith(editor);
+    input.focus();
+    input.select();
+
+    let finished = false;
+
+    const showError = (message: string): void => {
+      DOMUtils.addClasses(input, 'is-invalid');
+      errorEl.textContent = message;
+    };
+
+    const finish = (save: boolean): void => {
+      if (finished) return;
+
+      if (!save || sanitizeTodoText(input.value) === todo.text) {
+        finished = true;
+        this.render();
+        return;
+      }
+
+      try {
+        validateTodoText(input.value);
+        finished = true;
+        this.handleUpdateTodoText(todo.id, input.value);
+      } catch (error) {
+        finished = false;
+        if (error instanceof ValidationError) {
+          showError(error.message);
+        } else {
+          this.handleError(error, 'Failed to update todo');
+        }
+      }
+    };
+
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        finish(true);
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        finish(false);
+      }
+    });
+    input.addEventListener('input', () => {
+      DOMUtils.removeClasses(input, 'is-invalid');
+      errorEl.textContent = '';
+    });
+    input.addEventListener('blur', () => finish(true));
+  }
+
+  /**
+   * Build the "Move to…" select listing the other lists (empty if there are none)
+   */
+  private createMoveSelectHtml(): string {
+    const currentId = this.listManager.getCurrentListInfo().id;
+    const otherLists = this.listManager.getLists().filter(list => list.id !== currentId);
+    if (otherLists.length === 0) return '';
+
+    return `
+      <select class="form-select form-select-sm ms-2 todo-move-select" data-action="move" aria-label="Move to list">
+        <option value="">Move to…</option>
+        ${otherLists.map(list => `<option value="${this.escapeHtml(list.id)}">${this.escapeHtml(list.name)}</option>`).join('')}
+      </select>
+    `;
+  }
+
+  /**
+   * Build the HTML for a clickable tag chip
+   */
+  private createTagChipHtml(tag: string): string {
+    const active = this.todoList.getTagFilter().includes(tag);
+    return `
+      <button
+        type="button"
+        class="${CSS_CLASSES.TAG_CHIP} ${active ? CSS_CLASSES.FILTER_ACTIVE : ''}"
+        data-tag="${this.escapeHtml(tag)}"
+        style="background-color: ${this.todoList.getTagColor(tag)}"
+        title="Filter by #${this.escapeHtml(tag)}"
+      >#${this.escapeHtml(tag)}</button>
+    `;
+  }
+
+  /**
+   * Render the active tag filters with colour pickers and remove buttons
+   */
+  private renderTagFilters(): void {
+    if (!this.tagFiltersContainer) return;
+
+    const tags = this.todoList.getTagFilter();
+    this.tagFiltersContainer.innerHTML = '';
+    this.tagFiltersContainer.style.display = tags.length > 0 ? 'flex' : 'none';
+
+    tags.forEach(tag => {
+      const chip = DOMUtils.createElement('span', {
+        'class': `${CSS_CLASSES.TAG_CHIP} ${CSS_CLASSES.FILTER_ACTIVE}`,
+        'style': `background-color: ${this.todoList.getTagColor(tag)}`
+      }, `#${tag}`);
+      const colorInput = DOMUtils.createElement('input', {
+        'type': 'color',
+        'class': 'tag-color-input',
+        'value': this.todoList.getTagColor(tag),
+        'aria-label': `Colour for #${tag}`
+      });
+      const removeBtn = DOMUtils.createElement('button', {
+        'type': 'button',
+        'class': 'btn-close btn-close-white ms-1',
+        'aria-label': `Remove #${tag} filter`
+      });
+
+      colorInput.addEventListener('change', () => this.handleTagColorChange(tag, colorInput.value));
+      removeBtn.addEventListener('click', () => this.handleTagFilterToggle(tag));
+
+      chip.append(colorInput, removeBtn);
+      this.tagFiltersContainer!.appendChild(chip);
+    });
+  }
+
+  /**
+   * Render statistics
+   */
+  private renderStatistics(): void {
+    const stats = this.todoList.getStats();
+
+    if (this.totalTodosEl) {
+      this.totalTodosEl.textContent = stats.total.toString();
+    }
+    if (this.completedTodosEl) {
+      this.completedTodosEl.textContent = stats.completed.toString();
+    }
+    if (this.pendingTodosEl) {
+      this.pendingTodosEl.textContent = stats.pending.toString();
+    }
+  }
+
+  /**
+   * Render the insights dashboard for the current list, if it is open
+   */
+  private renderDashboard(): void {
+    if (!this.dashboardEl?.open || !this.dashboardContentEl) return;
+
+    const analytics = this.todoList.getAnalytics({ days: DASHBOARD_DAYS, weeks: DASHBOARD_WEEKS });
+    const dayLabel = (date: string): string =>
+      new Date(`${date}T00:00`).toLocaleDateString([], { month: 'short', day: 'numeric' });
+    const days = (count: number): string => `${count} day${count === 1 ? '' : 's'}`;
+    const thisWeek = analytics.completionsPerWeek[analytics.completionsPerWeek.length - 1]?.count ?? 0;
+    const tiles: Array<[string, string]> = [
+      [String(thisWeek), 'Completed this week'],
+      [analytics.averageCompletionMs === null ? '–' : this.formatDuration(analytics.averageCompletionMs), 'Average time to complete'],
+      [days(analytics.currentStreak), 'Current streak'],
+      [days(analytics.longestStreak), 'Longest streak']
+    ];
+
+    this.dashboardContentEl.innerHTML = `
+      <div class="row g-2 mb-3 text-center">
+        ${tiles.map(([value, label]) => `
+          <div class="col-6 col-md-3">
+            <div class="dashboard-tile">
+              <div class="fw-bold">${this.escapeHtml(value)}</div>
+              <small>${this.escapeHtml(label)}</small>
+            </div>
+          </div>
+        `).join('')}
+      </div>
+      <div class="row g-3">
+        <div class="col-md-6">
+          <h2 class="h6 small">Completed per day</h2>
+          ${renderBarChart(analytics.completionsPerDay.map(day => ({ label: dayLabel(day.date), value: day.count })), `Todos completed on each of the last ${DASHBOARD_DAYS} days`)}
+        </div>
+        <div class="col-md-6">
+          <h2 class="h6 small">Completed per week</h2>
+          ${renderBarChart(analytics.completionsPerWeek.map(week => ({ label: `Week of ${dayLabel(week.date)}`, value: week.count })), `Todos completed in each of the last ${DASHBOARD_WEEKS} weeks`)}
+        </div>
+        <div class="col-12">
+          <h2 class="h6 small">Open todos</h2>
+          ${renderLineChart(analytics.backlog.map(day => ({ label: dayLabel(day.date), value: day.count })), `Todos still open at the end of each of the last ${DASHBOARD_DAYS} days`)}
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Update filter buttons active state
+   */
+  private updateFilterButtons(activeFilter: TodoFilter): void {
+    this.filterButtons?.forEach(btn => {
+      const filter = btn.dataset.filter as TodoFilter;
+      DOMUtils.toggleClass(btn, CSS_CLASSES.FILTER_ACTIVE, filter === activeFilter);
+    });
+  }
+
+  /**
+   * Update sort controls to reflect the current sort order
+   */
+  private updateSortControls(sort: TodoSort): void {
+    if (this.sortFieldSelect) {
+      this.sortFieldSelect.value = sort.field;
+    }
+    if (this.sortDirectionBtn) {
+      this.sortDirectionBtn.dataset.direction = sort.direction;
+      this.sortDirectionBtn.textContent = sort.direction === 'asc' ? '↑ Asc' : '↓ Desc';
+    }
+  }
+
+  /**
+   * Update clear completed button visibility
+   */
+  private updateClearCompletedButton(): void {
+    if (!this.clearCompletedBtn) return;
+
+    const stats = this.todoList.getStats();
+    this.clearCompletedBtn.style.display = stats.completed > 0 ? 'inline-block' : 'none';
+  }
+
+  /**
+   * Show how many todos are in the trash
+   */
+  private updateTrashButton(): void {
+    if (!this.showTrashBtn) return;
+
+    this.showTrashBtn.textContent = `Trash (${this.todoList.getTrashedTodos().length})`;
+  }
+
+  /**
+   * Update empty state visibility
+   */
+  private updateEmptyState(): void {
+    if (!this.emptyState) return;
+
+    const todos = this.todoList.getFilteredTodos();
+    this.emptyState.style.display = todos.length === 0 ? 'block' : 'none';
+  }
+
+  /**
+   * Show success message
+   */
+  private showSuccessMessage(message: string, action?: MessageAction): void {
+    this.showMessage(message, 'success', action);
+  }
+
+  /**
+   * Show info message
+   */
+  private showInfoMessage(message: string): void {
+    this.showMessage(message, 'info');
+  }
+
+  /**
+   * Show error message
+   */
+  private showErrorMessage(message: string, action?: MessageAction): void {
+    this.showMessage(message, 'danger', action);
+  }
+
+  /**
+   * Show a toast notification
+   *
+   * Messages are shown as plain text, so callers must not escape them.
+   */
+  private showMessage(message: string, type: NotificationType, action?: MessageAction): void {
+    this.notifier.show(message, type, action ? [action] : []);
+  }
+
+  /**
+   * Offer to recover data that could not be read, one list at a time
+   */
+  private promptForQuarantinedData(listIds: string[] = this.listManager.getLists().map(list => list.id)): void {
+    const index = listIds.findIndex(listId => this.listManager.getList(listId).getQuarantinedData().length > 0);
+    if (index === -1) return;
+
+    this.showRecoveryPrompt(listIds[index]!, () => this.promptForQuarantinedData(listIds.slice(index + 1)));
+  }
+
+  /**
+   * Show a recovery prompt for a list's quarantined data
+   *
+   * Unlike showMessage() this is a modal that waits for the user to pick an option.
+   */
+  private showRecoveryPrompt(listId: string, onClose: () => void): void {
+    const listName = this.listManager.getLists().find(list => list.id === listId)?.name ?? listId;
+    const entries = this.listManager.getList(listId).getQuarantinedData();
+
+    document.querySelectorAll('#recoveryModal').forEach(modal => modal.remove());
+
+    const modalHtml = `
+      <div class="modal fade" id="recoveryModal" tabindex="-1" aria-labelledby="recoveryModalLabel" aria-hidden="true" data-bs-backdrop="static">
+        <div class="modal-dialog modal-dialog-centered">
+          <div class="modal-content">
+            <div class="modal-header bg-warning">
+              <h5 class="modal-title" id="recoveryModalLabel">⚠️ Some saved data could not be read</h5>
+            </div>
+            <div class="modal-body">
+              <p>Part of the saved data for "${this.escapeHtml(listName)}" could not be loaded. A copy was kept so nothing is lost.</p>
+              <ul class="small mb-0">
+                ${entries.map(entry => `<li>${this.escapeHtml(this.formatDate(new Date(entry.quarantinedAt)))}: ${this.escapeHtml(entry.reason)}</li>`).join('')}
+              </ul>
+            </div>
+            <div class="modal-footer">
+              <button type="button" class="btn btn-outline-danger me-auto" data-recovery="discard">Discard copy</button>
+              <button type="button" class="btn btn-outline-secondary" data-recovery="later">Later</button>
+              <button type="button" class="btn btn-primary" data-recovery="download">Download copy</button>
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+
+    document.body.insertAdjacentHTML('beforeend', modalHtml);
+
+    const modalElement = document.getElementById('recoveryModal');
+    if (!modalElement) return;
+
+    const modal = new (window as any).bootstrap.Modal(modalElement);
+    modalElement.addEventListener('hidden.bs.modal', () => {
+      modalElement.remove();
+      onClose();
+    }, { once: true });
+
+    modalElement.querySelector('.modal-footer')?.addEventListener('click', (e) => {
+      const choice = (e.target as HTMLElement).closest<HTMLElement>('[data-recovery]')?.dataset.recovery;
+      if (!choice) return;
+
+      try {
+        if (choice === 'download') {
+          const content = JSON.stringify(entries, null, 2);
+          this.downloadFile(`${this.fileNameFor(listName, 'todos-recovered')}.json`, content, 'application/json');
+          return;
+        }
+        if (choice === 'discard') {
+          if (!window.confirm('Permanently discard the unreadable data?')) return;
+          this.listManager.getList(listId).discardQuarantinedData();
+        }
+        modal.hide();
+      } catch (error) {
+        modal.hide();
+        this.handleError(error, 'Failed to recover data');
+      }
+    });
+
+    modal.show();
+  }
+
+  /**
+   * Show the command palette, which runs the chosen command once closed
+   */
+  private showCommandPalette(): void {
+    const commands = this.getPaletteCommands();
+    let matches = searchCommands(commands, '');
+    let selected = 0;
+    let chosen: AppCommand | null = null;
+
+    document.querySelectorAll('#commandPalette').forEach(modal => modal.remove());
+
+    const modalHtml = `
+      <div class="modal fade" id="commandPalette" tabindex="-1" aria-label="Command palette" aria-hidden="true">
+        <div class="modal-dialog modal-dialog-scrollable">
+          <div class="modal-content">
+            <div class="modal-header">
+              <input
+                type="text"
+                class="form-control"
+                placeholder="Type a command…"
+                aria-label="Search commands"
+                aria-controls="commandPaletteResults"
+                autocomplete="off"
+              >
+            </div>
+            <div class="modal-body p-0">
+              <ul class="list-group list-group-flush command-results" id="commandPaletteResults" role="listbox"></ul>
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+
+    document.body.insertAdjacentHTML('beforeend', modalHtml);
+
+    const modalElement = document.getElementById('commandPalette');
+    const input = modalElement?.querySelector<HTMLInputElement>('input');
+    const results = modalElement?.querySelector<HTMLUListElement>('#commandPaletteResults');
+    if (!modalElement || !input || !results) return;
+
+    const renderResults = (): void => {
+      results.innerHTML = matches.length === 0
+        ? '<li class="list-group-item small text-muted">No matching commands</li>'
+        : matches.map((match, index) => `
+          <li
+            class="list-group-item list-group-item-action d-flex justify-content-between align-items-center command-result${index === selected ? ' active' : ''}"
+            role="option"
+            aria-selected="${index === selected}"
+            data-index="${index}"
+          >
+            <span>${this.highlightPositions(match.command.label, match.positions)}</span>
+            <span class="small">${this.keyBindings.getKeys(match.command.id).map(key => this.renderKeyHtml(key)).join(' ')}</span>
+          </li>
+        `).join('');
+      results.querySelector('.active')?.scrollIntoView({ block: 'nearest' });
+    };
+
+    const modal = new (window as any).bootstrap.Modal(modalElement);
+    const choose = (index: number): void => {
+      chosen = matches[index]?.command ?? null;
+      if (chosen) {
+        modal.hide();
+      }
+    };
+
+    modalElement.addEventListener('shown.bs.modal', () => input.focus(), { once: true });
+    modalElement.addEventListener('hidden.bs.modal', () => {
+      modalElement.remove();
+      if (!chosen) return;
+
+      try {
+        chosen.run();
+      } catch (error) {
+        this.handleError(error, `Failed to run "${chosen.label}"`);
+      }
+    }, { once: true });
+
+    input.addEventListener('input', () => {
+      matches = searchCommands(commands, input.value);
+      selected = 0;
+      renderResults();
+    });
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        if (matches.length > 0) {
+          selected = (selected + (e.key === 'ArrowDown' ? 1 : -1) + matches.length) % matches.length;
+          renderResults();
+        }
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        choose(selected);
+      }
+    });
+    results.addEventListener('click', (e) => {
+      const item = (e.target as HTMLElement).closest<HTMLElement>('[data-index]');
+      if (item) {
+        choose(Number(item.dataset.index));
+      }
+    });
+
+    renderResults();
+    modal.show();
+  }
+
+  /**
+   * Show the keyboard shortcuts, where each can be changed
+   *
+   * "Change" waits for the next key: Escape cancels and Backspace removes
+   * the command's keys.
+   */
+  private showShortcuts(): void {
+    let recordingId: string | null = null;
+
+    document.querySelectorAll('#shortcutsModal').forEach(modal => modal.remove());
+
+    const modalHtml = `
+      <div class="modal fade" id="shortcutsModal" tabindex="-1" aria-labelledby="shortcutsModalLabel" aria-hidden="true">
+        <div class="modal-dialog modal-dialog-centered modal-dialog-scrollable">
+          <div class="modal-content">
+            <div class="modal-header">
+              <h5 class="modal-title" id="shortcutsModalLabel">Keyboard shortcuts</h5>
+              <button type="button" class="btn-close" data-bs-dismiss="modal" aria-label="Close"></button>
+            </div>
+            <div class="modal-body">
+              <p class="small text-muted" data-shortcuts="notice">Shortcuts work while you are not typing in a field.</p>
+              <table class="table table-sm align-middle mb-0 shortcut-table">
+                <tbody data-shortcuts="rows"></tbody>
+              </table>
+            </div>
+            <div class="modal-footer">
+              <button type="button" class="btn btn-outline-danger me-auto" data-action="reset-shortcuts">Reset to defaults</button>
+              <button type="button" class="btn btn-primary" data-bs-dismiss="modal">Done</button>
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+
+    document.body.insertAdjacentHTML('beforeend', modalHtml);
+
+    const modalElement = document.getElementById('shortcutsModal');
+    const rows = modalElement?.querySelector<HTMLElement>('[data-shortcuts="rows"]');
+    const notice = modalElement?.querySelector<HTMLElement>('[data-shortcuts="notice"]');
+    if (!modalElement || !rows || !notice) return;
+
+    const renderRows = (): void => {
+      rows.innerHTML = this.keyBindings.getCommands().map(command => {
+        const keys = this.keyBindings.getKeys(command.id);
+        const recording = command.id === recordingId;
+        return `
+          <tr>
+            <td>${this.escapeHtml(command.label)}</td>
+            <td class="text-end text-nowrap">
+              ${recording ? '<span class="small">Press a key…</span>' : keys.map(key => this.renderKeyHtml(key)).join(' ') || '<span class="small text-muted">None</span>'}
+            </td>
+            <td class="text-end">
+              <button type="button" class="btn btn-outline-secondary btn-sm" data-command-id="${this.escapeHtml(command.id)}" aria-pressed="${recording}">
+                ${recording ? 'Cancel' : 'Change'}
+              </button>
+            </td>
+          </tr>
+        `;
+      }).join('');
+    };
+
+    const setNotice = (message: string): void => {
+      notice.textContent = message;
+    };
+
+    // Capture the next key before the modal (Escape) or the page sees it
+    modalElement.addEventListener('keydown', (e) => {
+      if (!recordingId) return;
+
+      e.preventDefault();
+      e.stopPropagation();
+      const commandId = recordingId;
+      if (e.key === 'Escape') {
+        recordingId = null;
+        setNotice('Change cancelled.');
+      } else {
+        const key = e.key === 'Backspace' ? null : keyFromEvent(e);
+        if (!key && e.key !== 'Backspace') return; // Wait for the key that goes with the modifier
+
+        recordingId = null;
+        try {
+          const displaced = this.keyBindings.setKeys(commandId, key ? [key] : []);
+          setNotice(!key ? 'Shortcut removed.' : displaced.length > 0
+            ? `${key} was moved from "${displaced.map(command => command.label).join('", "')}".`
+            : `${key} saved.`);
+        } catch (error) {
+          setNotice(error instanceof Error ? error.message : 'Failed to save the shortcut.');
+        }
+      }
+      renderRows();
+      rows.querySelector<HTMLButtonElement>(`[data-command-id="${commandId}"]`)?.focus();
+    }, true);
+
+    rows.addEventListener('click', (e) => {
+      const commandId = (e.target as HTMLElement).closest<HTMLElement>('[data-command-id]')?.dataset.commandId;
+      if (!commandId) return;
+
+      recordingId = recordingId === commandId ? null : commandId;
+      setNotice(recordingId ? 'Press the new key. Escape cancels, Backspace removes the shortcut.' : 'Change cancelled.');
+      renderRows();
+      rows.querySelector<HTMLButtonElement>(`[data-command-id="${commandId}"]`)?.focus();
+    });
+
+    modalElement.querySelector('[data-action="reset-shortcuts"]')?.addEventListener('click', () => {
+      try {
+        this.keyBindings.resetAll();
+        recordingId = null;
+        setNotice('Default shortcuts restored.');
+        renderRows();
+      } catch (error) {
+        setNotice(error instanceof Error ? error.message : 'Failed to reset shortcuts.');
+      }
+    });
+
+    const modal = new (window as any).bootstrap.Modal(modalElement);
+    modalElement.addEventListener('hidden.bs.modal', () => modalElement.remove(), { once: true });
+
+    renderRows();
+    modal.show();
+  }
+
+  /**
+   * Show the trash, where deleted todos can be restored or deleted for good
+   *
+   * The list stays up to date while open, including changes from other tabs.
+   */
+  private showTrash(): void {
+    document.querySelectorAll('#trashModal').forEach(modal => modal.remove());
+
+    const retentionDays = this.todoList.getTrashRetentionDays();
+    const modalHtml = `
+      <div class="modal fade" id="trashModal" tabindex="-1" aria-labelledby="trashModalLabel" aria-hidden="true">
+        <div class="modal-dialog modal-dialog-centered modal-dialog-scrollable">
+          <div class="modal-content">
+            <div class="modal-header">
+              <h5 class="modal-title" id="trashModalLabel">Trash</h5>
+              <button type="button" class="btn-close" data-bs-dismiss="modal" aria-label="Close"></button>
+            </div>
+            <div class="modal-body">
+              <p class="small text-muted" data-trash="notice" role="status" aria-live="polite"></p>
+              <ul class="list-unstyled mb-0 trash-list" data-trash="items"></ul>
+            </div>
+            <div class="modal-footer">
+              <label class="small me-auto">
+                Keep deleted todos
+                <select class="form-select form-select-sm d-inline-block w-auto ms-1" data-trash="retention">
+                  ${TRASH_RETENTION_CHOICES.map(days => `
+                    <option value="${days ?? 'forever'}" ${days === retentionDays ? 'selected' : ''}>${days === null ? 'until I empty the trash' : `for ${days} days`}</option>
+                  `).join('')}
+                </select>
+              </label>
+              <button type="button" class="btn btn-outline-danger" data-action="empty-trash">Empty trash</button>
+              <button type="button" class="btn btn-primary" data-bs-dismiss="modal">Done</button>
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+
+    document.body.insertAdjacentHTML('beforeend', modalHtml);
+
+    const modalElement = document.getElementById('trashModal');
+    const items = modalElement?.querySelector<HTMLElement>('[data-trash="items"]');
+    const notice = modalElement?.querySelector<HTMLElement>('[data-trash="notice"]');
+    const retentionSelect = modalElement?.querySelector<HTMLSelectElement>('[data-trash="retention"]');
+    const emptyBtn = modalElement?.querySelector<HTMLButtonElement>('[data-action="empty-trash"]');
+    if (!modalElement || !items || !notice || !retentionSelect || !emptyBtn) return;
+
+    const describeRetention = (): string => {
+      const days = this.todoList.getTrashRetentionDays();
+      return days === null
+        ? 'Deleted todos stay here until you empty the trash.'
+        : `Deleted todos are removed for good after ${days} day${days === 1 ? '' : 's'}.`;
+    };
+
+    const renderItems = (): void => {
+      const trashedTodos = this.todoList.getTrashedTodos();
+      emptyBtn.disabled = trashedTodos.length === 0;
+      items.innerHTML = trashedTodos.length === 0
+        ? '<li class="text-muted">The trash is empty.</li>'
+        : trashedTodos.map(todo => `
+          <li class="d-flex align-items-center gap-2 py-2 border-bottom trash-item">
+            <div class="flex-grow-1">
+              <div class="${todo.completed ? CSS_CLASSES.COMPLETED : ''}">${this.escapeHtml(todo.text)}</div>
+              <small class="text-muted">Deleted ${this.formatDate(todo.deletedAt!)}</small>
+            </div>
+            <button type="button" class="btn btn-outline-success btn-sm" data-action="restore" data-todo-id="${this.escapeHtml(todo.id)}">Restore</button>
+            <button type="button" class="btn btn-outline-danger btn-sm" data-action="purge" data-todo-id="${this.escapeHtml(todo.id)}">Delete forever</button>
+          </li>
+        `).join('');
+    };
+
+    const setNotice = (message: string): void => {
+      notice.textContent = message;
+    };
+
+    items.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-todo-id]');
+      const todoId = button?.dataset.todoId;
+      if (!button || !todoId) return;
+
+      try {
+        if (button.dataset.action === 'restore') {
+          const restored = this.todoList.restoreTodos([todoId]);
+          setNotice(`${restored.length} todo${restored.length === 1 ? '' : 's'} restored.`);
+        } else {
+          const purgedCount = this.todoList.purgeTrash([todoId]);
+          setNotice(`${purgedCount} todo${purgedCount === 1 ? '' : 's'} deleted for good.`);
+        }
+      } catch (error) {
+        setNotice(error instanceof Error ? error.message : 'Failed to update the trash.');
+      }
+    });
+
+    emptyBtn.addEventListener('click', () => {
+      if (!window.confirm('Delete every todo in the trash for good? This cannot be undone.')) return;
+
+      try {
+        const purgedCount = this.todoList.purgeTrash();
+        setNotice(`${purgedCount} todo${purgedCount === 1 ? '' : 's'} deleted for good.`);
+      } catch (error) {
+        setNotice(error instanceof Error ? error.message : 'Failed to empty the trash.');
+      }
+    });
+
+    retentionSelect.addEventListener('change', () => {
+      const days = retentionSelect.value === 'forever' ? null : Number(retentionSelect.value);
+      try {
+        this.listManager.setTrashRetentionDays(days);
+        localStorage.setItem(TRASH_RETENTION_KEY, String(days ?? 'forever'));
+        setNotice(describeRetention());
+      } catch (error) {
+        setNotice(error instanceof Error ? error.message : 'Failed to change how long deleted todos are kept.');
+      }
+    });
+
+    // Keep the list current while open
+    const unsubscribe = this.todoList.on('*', () => renderItems());
+
+    const modal = new (window as any).bootstrap.Modal(modalElement);
+    modalElement.addEventListener('hidden.bs.modal', () => {
+      unsubscribe();
+      modalElement.remove();
+    }, { once: true });
+
+    setNotice(describeRetention());
+    renderItems();
+    modal.show();
+  }
+
+  /**
+   * Show the activity log for one todo, or the recent activity in every list
+   *
+   * The log stays up to date while open.
+   */
+  private showActivity(todoId?: string): void {
+    document.querySelectorAll('#activityModal').forEach(modal => modal.remove());
+
+    const todo = todoId ? this.todoList.getTodoById(todoId) : undefined;
+    const title = todoId ? `History of "${todo?.text ?? 'todo'}"` : 'Recent activity';
+    const modalHtml = `
+      <div class="modal fade" id="activityModal" tabindex="-1" aria-labelledby="activityModalLabel" aria-hidden="true">
+        <div class="modal-dialog modal-dialog-centered modal-dialog-scrollable">
+          <div class="modal-content">
+            <div class="modal-header">
+              <h5 class="modal-title text-truncate" id="activityModalLabel">${this.escapeHtml(title)}</h5>
+              <button type="button" class="btn-close" data-bs-dismiss="modal" aria-label="Close"></button>
+            </div>
+            <div class="modal-body">
+              <ol class="list-unstyled mb-0 activity-log" data-activity="entries"></ol>
+            </div>
+            <div class="modal-footer">
+              <button type="button" class="btn btn-primary" data-bs-dismiss="modal">Done</button>
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+
+    document.body.insertAdjacentHTML('beforeend', modalHtml);
+
+    const modalElement = document.getElementById('activityModal');
+    const entriesEl = modalElement?.querySelector<HTMLElement>('[data-activity="entries"]');
+    if (!modalElement || !entriesEl) return;
+
+    const listNames = new Map(this.listManager.getLists().map(list => [list.id, list.name]));
+    const renderEntries = (): void => {
+      const entries = todoId
+        ? this.todoList.getActivity({ todoId }).map(entry => ({ ...entry, listId: null }))
+        : this.listManager.getActivity({ limit: MAX_ACTIVITY_ENTRIES_SHOWN });
+      entriesEl.innerHTML = entries.length === 0
+        ? '<li class="text-muted">Nothing has been recorded yet.</li>'
+        : entries.map(entry => `
+          <li class="py-2 border-bottom activity-entry" data-type="${entry.type}">
+            <div>${this.escapeHtml(describeActivity(entry, date => this.formatDate(date)))}</div>
+            ${todoId ? '' : `<div class="small text-truncate">${this.escapeHtml(entry.text)}</div>`}
+            <small class="text-muted">
+              <time datetime="${entry.at.toISOString()}">${this.escapeHtml(this.formatDate(entry.at))}</time>
+              ${entry.listId && listNames.size > 1 ? ` · ${this.escapeHtml(listNames.get(entry.listId) ?? '')}` : ''}
+            </small>
+          </li>
+        `).join('');
+    };
+
+    // Keep the log current while open
+    const unsubscribe = this.todoList.on('*', () => renderEntries());
+
+    const modal = new (window as any).bootstrap.Modal(modalElement);
+    modalElement.addEventListener('hidden.bs.modal', () => {
+      unsubscribe();
+      modalElement.remove();
+    }, { once: true });
+
+    renderEntries();
+    modal.show();
+  }
+
+  /**
+   * Build a download file name (without extension) for a list, e.g. "todos-work-2026-01-31"
+   */
+  private fileNameFor(listName: string, prefix: string = 'todos'): string {
+    const safeName = listName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'list';
+    return `${prefix}-${safeName}-${new Date().toISOString().slice(0, 10)}`;
+  }
+
+  /**
+   * Offer text content as a file download
+   */
+  private downloadFile(fileName: string, content: string, mimeType: string): void {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Handle errors
+   *
+   * With `retry`, the message offers to try again, unless the error was a
+   * ValidationError that would only happen again.
+   */
+  private handleError(error: unknown, context: string, retry?: () => void): void {
+    console.error(`${context}:`, error);
+    
+    let message = `${context}. Please try again.`;
+    
+    if (error instanceof ValidationError) {
+      message = error.message;
+    } else if (error instanceof StorageError) {
+      message = `Storage error: ${error.message}`;
+    } else if (error instanceof Error) {
+      message = error.message;
+    }
+
+    this.showErrorMessage(message, retry && !(error instanceof ValidationError) ? { label: 'Retry', handler: retry } : undefined);
+  }
+
+  /**
+   * Render a key as keyboard key markup, e.g. <kbd>Ctrl</kbd>+<kbd>k</kbd>
+   */
+  private renderKeyHtml(key: string): string {
+    return keyParts(key).map(part => `<kbd>${this.escapeHtml(part)}</kbd>`).join('+');
+  }
+
+  /**
+   * Escape a label, marking the characters a fuzzy search matched
+   */
+  private highlightPositions(text: string, positions: number[]): string {
+    const matched = new Set(positions);
+    return text.split('').map((char, index) => matched.has(index) ? `<mark>${this.escapeHtml(char)}</mark>` : this.escapeHtml(char)).join('');
+  }
+
+  /**
+   * Escape a todo's text, marking where it matches the search query
+   */
+  private highlightMatches(text: string): string {
+    const terms = getHighlightTerms(this.todoList.getSearchNode());
+    let html = '';
+    let position = 0;
+
+    findMatchRanges(text, terms).forEach(([start, end]) => {
+      html += `${this.escapeHtml(text.slice(position, start))}<mark>${this.escapeHtml(text.slice(start, end))}</mark>`;
+      position = end;
+    });
+
+    return html + this.escapeHtml(text.slice(position));
+  }
+
+  /**
+   * Escape HTML to prevent XSS
+   *
+   * Quotes are escaped too, so the result is safe inside attribute values.
+   */
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML.replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+  }
+
+  /**
+   * Format a todo's due date for display
+   */
+  private formatDueDate(todo: Todo): string {
+    if (!todo.dueAt) return '';
+    return todo.dueAllDay ? todo.dueAt.toLocaleDateString() : this.formatDate(todo.dueAt);
+  }
+
+  /**
+   * Format a duration for display, e.g. "45 min", "5 h" or "3.5 days"
+   */
+  private formatDuration(ms: number): string {
+    const minutes = ms / 60000;
+    if (minutes < 60) {
+      return `${Math.max(1, Math.round(minutes))} min`;
+    }
+    const hours = minutes / 60;
+    if (hours < 48) {
+      return `${Math.round(hours)} h`;
+    }
+    return `${Math.round(hours / 24 * 10) / 10} days`;
   }
 
   /**
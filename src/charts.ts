@@ -0,0 +1,128 @@
+/**
+ * Small SVG charts drawn as markup strings, for the analytics dashboard
+ *
+ * Charts scale to their container through the viewBox; colours come from
+ * the `chart-*` classes in the stylesheet.
+ */
+
+import { ChartPoint } from './types.js';
+
+// Size of a chart's drawing area in viewBox units, and the room kept for labels
+interface ChartLayout {
+  width: number;
+  height: number;
+  left: number;
+  bottom: number;
+  top: number;
+}
+
+const DEFAULT_LAYOUT: ChartLayout = { width: 320, height: 120, left: 28, bottom: 18, top: 8 };
+
+/**
+ * Draw a bar chart, one bar per point
+ *
+ * Each bar has a tooltip with its label and value; the first and last
+ * labels are written under the axis.
+ */
+export function renderBarChart(points: ChartPoint[], title: string): string {
+  const layout = DEFAULT_LAYOUT;
+  const max = maxValue(points);
+  const slot = plotWidth(layout) / Math.max(points.length, 1);
+  const barWidth = Math.max(slot * 0.7, 1);
+
+  const bars = points.map((point, index) => {
+    const height = (point.value / max) * plotHeight(layout);
+    const x = layout.left + index * slot + (slot - barWidth) / 2;
+    const y = layout.top + plotHeight(layout) - height;
+    return `<rect class="chart-bar" x="${round(x)}" y="${round(y)}" width="${round(barWidth)}" height="${round(height)}">` +
+      `<title>${escapeXml(point.label)}: ${point.value}</title></rect>`;
+  });
+
+  return svg(layout, title, max, points, bars.join(''));
+}
+
+/**
+ * Draw a line chart with a shaded area below the line
+ */
+export function renderLineChart(points: ChartPoint[], title: string): string {
+  const layout = DEFAULT_LAYOUT;
+  const max = maxValue(points);
+  const step = points.length > 1 ? plotWidth(layout) / (points.length - 1) : 0;
+  const baseline = layout.top + plotHeight(layout);
+  const coordinates = points.map((point, index) => ({
+    x: round(layout.left + index * step),
+    y: round(baseline - (point.value / max) * plotHeight(layout)),
+    point
+  }));
+
+  const line = coordinates.map(({ x, y }) => `${x},${y}`).join(' ');
+  const area = coordinates.length > 0
+    ? `<polygon class="chart-area" points="${coordinates[0]!.x},${baseline} ${line} ${coordinates[coordinates.length - 1]!.x},${baseline}"></polygon>`
+    : '';
+  const dots = coordinates.map(({ x, y, point }) =>
+    `<circle class="chart-dot" cx="${x}" cy="${y}" r="2"><title>${escapeXml(point.label)}: ${point.value}</title></circle>`
+  );
+
+  return svg(layout, title, max, points, `${area}<polyline class="chart-line" points="${line}"></polyline>${dots.join('')}`);
+}
+
+/**
+ * Wrap chart content in an SVG element with axes and labels
+ */
+function svg(layout: ChartLayout, title: string, max: number, points: ChartPoint[], content: string): string {
+  const baseline = layout.top + plotHeight(layout);
+  const right = layout.width;
+  const first = points[0]?.label ?? '';
+  const last = points.length > 1 ? points[points.length - 1]!.label : '';
+
+  return `
+    <svg class="chart" viewBox="0 0 ${layout.width} ${layout.height}" role="img" aria-label="${escapeXml(title)}">
+      <title>${escapeXml(title)}</title>
+      <line class="chart-axis" x1="${layout.left}" y1="${baseline}" x2="${right}" y2="${baseline}"></line>
+      <text class="chart-label" x="${layout.left - 4}" y="${layout.top + 4}" text-anchor="end">${max}</text>
+      <text class="chart-label" x="${layout.left - 4}" y="${baseline}" text-anchor="end">0</text>
+      ${content}
+      <text class="chart-label" x="${layout.left}" y="${layout.height - 4}">${escapeXml(first)}</text>
+      <text class="chart-label" x="${right}" y="${layout.height - 4}" text-anchor="end">${escapeXml(last)}</text>
+    </svg>
+  `;
+}
+
+/**
+ * The value at the top of the scale (at least 1, so empty charts still draw)
+ */
+function maxValue(points: ChartPoint[]): number {
+  return Math.max(1, ...points.map(point => point.value));
+}
+
+/**
+ * Width available for bars or points
+ */
+function plotWidth(layout: ChartLayout): number {
+  return layout.width - layout.left;
+}
+
+/**
+ * Height available for bars or points
+ */
+function plotHeight(layout: ChartLayout): number {
+  return layout.height - layout.top - layout.bottom;
+}
+
+/**
+ * Round a coordinate to keep the markup short
+ */
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Escape text for use in SVG markup
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
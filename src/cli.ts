@@ -0,0 +1,567 @@
+#!/usr/bin/env node
+/**
+ * Command-line interface for managing todo lists from a terminal or script
+ *
+ * Todos are kept in a JSON file (see FileKeyValueStore) instead of
+ * localStorage. Run `todo help` for the commands and options.
+ */
+
+import { readFileSync, realpathSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { fileURLToPath } from 'node:url';
+import { Server } from 'node:http';
+import {
+  Todo,
+  TodoListInfo,
+  KeyValueStore,
+  TodoFilter,
+  TodoPriority,
+  ImportMode,
+  TODO_FILTERS,
+  TODO_PRIORITIES,
+  IMPORT_MODES,
+  STORAGE_NAMESPACE,
+  TodoError,
+  ValidationError,
+  StorageError
+} from './types.js';
+import { TodoList } from './TodoList.js';
+import { TodoListManager } from './TodoListManager.js';
+import { LocalStorageTodoStorage } from './storage.js';
+import { FileKeyValueStore } from './fileStore.js';
+import { StorageUtils, filterTodos, sortTodos, parseDueDate, parseTagInput } from './utils.js';
+import { searchTodos } from './search.js';
+import { getTodoFormat, getTodoFormats, findTodoFormatForFile } from './formats.js';
+import { createTodoServer } from './server.js';
+import { createSyncServer } from './syncServer.js';
+import { SyncEngine } from './sync.js';
+import { describeActivity } from './activity.js';
+
+// Process exit codes
+export const EXIT_CODES = {
+  OK: 0,
+  ERROR: 1, // unexpected failure
+  INVALID: 2, // bad arguments or a ValidationError
+  STORAGE: 3, // a StorageError, e.g. an unreadable or unwritable todo file
+  SYNC: 4 // the sync server could not be reached or refused the changes
+} as const;
+
+// File used when neither --file nor TODO_FILE is given
+const DEFAULT_TODO_FILE = join(homedir(), '.todos.json');
+
+// Where `todo serve` and `todo sync-server` listen by default (localhost only)
+const DEFAULT_PORT = 3001;
+const DEFAULT_SYNC_PORT = 3002;
+const DEFAULT_HOST = '127.0.0.1';
+
+const USAGE = `Usage: todo <command> [options]
+
+Commands:
+  add <text...>        Add a todo (--due, --time, --priority, --tag)
+  list                 List todos (--filter, --search)
+  done <id...>         Mark todos as completed
+  reopen <id...>       Mark completed todos as pending again
+  rm <id...>           Move todos (and their subtasks) to the trash
+  trash                List the todos in the trash
+  restore <id...>      Bring todos back from the trash
+  purge [id...]        Delete todos in the trash for good (all without ids)
+  log [id]             Show the activity log of the list or of one todo
+  export               Print the todos in a file format (--format)
+  import <file>        Import todos from a file (--format, --mode, --dry-run)
+  lists                Show the todo lists
+  serve                Serve the list over a local HTTP API (--port, --host)
+  sync                 Push and pull the list's changes (--endpoint)
+  sync-server          Run the reference sync server (--port, --host, --file)
+  help                 Show this help
+
+Options:
+  --file <path>        Todo file (default: $TODO_FILE or ~/.todos.json)
+  --list <name>        List to use, by name or id (default: the current list)
+  --json               Print machine-readable JSON
+  --filter <filter>    ${TODO_FILTERS.join(', ')}
+  --search <query>     Search query, e.g. "tag:work is:overdue"
+  --due <YYYY-MM-DD>   Due date; --time <HH:MM> adds a time
+  --priority <level>   ${TODO_PRIORITIES.join(', ')}
+  --tag <tag>          Tag to add (repeatable)
+  --format <format>    ${getTodoFormats().map(format => format.id).join(', ')}
+  --mode <mode>        Import mode: ${IMPORT_MODES.join(', ')} (default: merge)
+  --dry-run            Report what an import would change without saving
+  --port <port>        Port for serve (default: ${DEFAULT_PORT}) or sync-server (${DEFAULT_SYNC_PORT})
+  --host <host>        Address to listen on (default: ${DEFAULT_HOST})
+  --endpoint <url>     Sync server URL (default: $TODO_SYNC_ENDPOINT)
+
+sync-server keeps its data in memory unless --file is given.
+
+Ids may be shortened to any prefix that matches a single todo.
+
+Exit codes: ${EXIT_CODES.OK} success, ${EXIT_CODES.ERROR} unexpected error, ${EXIT_CODES.INVALID} invalid input, ${EXIT_CODES.STORAGE} storage error, ${EXIT_CODES.SYNC} sync failed
+`;
+
+// Parsed command line
+interface CliArgs {
+  command: string;
+  args: string[];
+  options: {
+    file?: string;
+    list?: string;
+    json?: boolean;
+    filter?: string;
+    search?: string;
+    due?: string;
+    time?: string;
+    priority?: string;
+    tag?: string[];
+    format?: string;
+    mode?: string;
+    'dry-run'?: boolean;
+    port?: string;
+    host?: string;
+    endpoint?: string;
+    help?: boolean;
+  };
+}
+
+/**
+ * Run the CLI with the given arguments and return the exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  let json = argv.includes('--json');
+
+  try {
+    const cli = parseCommandLine(argv);
+    json = cli.options.json === true;
+
+    if (cli.command === 'help' || cli.options.help) {
+      process.stdout.write(USAGE);
+      return EXIT_CODES.OK;
+    }
+    if (cli.command === 'sync-server') {
+      const serverStore = cli.options.file ? new FileKeyValueStore(cli.options.file) : undefined;
+      return await listen(createSyncServer(serverStore), cli.options, DEFAULT_SYNC_PORT, 'Sync server', json);
+    }
+
+    const store = new FileKeyValueStore(cli.options.file || process.env.TODO_FILE || DEFAULT_TODO_FILE);
+    const manager = new TodoListManager(
+      namespace => new LocalStorageTodoStorage(namespace, store),
+      new LocalStorageTodoStorage(STORAGE_NAMESPACE, store)
+    );
+    await manager.whenReady();
+
+    if (cli.command === 'lists') {
+      return printLists(manager, json);
+    }
+
+    const list = selectList(manager, cli.options.list);
+    const todoList = manager.getList(list.id);
+    if (cli.command === 'serve') {
+      return await listen(createTodoServer(todoList), cli.options, DEFAULT_PORT, 'Serving todos', json);
+    }
+    if (cli.command === 'sync') {
+      return await syncList(todoList, list.id, store, cli.options.endpoint ?? process.env.TODO_SYNC_ENDPOINT, json);
+    }
+
+    const code = runCommand(todoList, cli, json);
+    await todoList.flush();
+    return code;
+  } catch (error) {
+    return reportError(error, json);
+  }
+}
+
+/**
+ * Split the arguments into the command, its arguments and the options
+ */
+function parseCommandLine(argv: string[]): CliArgs {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        file: { type: 'string' },
+        list: { type: 'string' },
+        json: { type: 'boolean' },
+        filter: { type: 'string' },
+        search: { type: 'string' },
+        due: { type: 'string' },
+        time: { type: 'string' },
+        priority: { type: 'string' },
+        tag: { type: 'string', multiple: true },
+        format: { type: 'string' },
+        mode: { type: 'string' },
+        'dry-run': { type: 'boolean' },
+        port: { type: 'string' },
+        host: { type: 'string' },
+        endpoint: { type: 'string' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+  } catch (error) {
+    throw new ValidationError(error instanceof Error ? error.message : 'Invalid arguments');
+  }
+
+  const [command = 'help', ...args] = parsed.positionals;
+  return { command, args, options: parsed.values };
+}
+
+/**
+ * Run a command against a todo list
+ */
+function runCommand(todoList: TodoList, cli: CliArgs, json: boolean): number {
+  const { command, args, options } = cli;
+
+  switch (command) {
+    case 'add': {
+      const due = parseDueDate(options.due ?? '', options.time ?? '');
+      const todo = todoList.addTodo(args.join(' '), {
+        ...(due ?? {}),
+        ...(options.priority !== undefined ? { priority: parsePriority(options.priority) } : {}),
+        ...(options.tag ? { tags: options.tag.flatMap(parseTagInput) } : {})
+      });
+      printTodos([todo], json, 'Added');
+      return EXIT_CODES.OK;
+    }
+
+    case 'list': {
+      const filter = parseFilter(options.filter ?? 'all');
+      const todos = sortTodos(searchTodos(filterTodos(todoList.getAllTodos(), filter), options.search ?? ''), todoList.getCurrentSort());
+      printTodos(todos, json);
+      return EXIT_CODES.OK;
+    }
+
+    case 'done':
+    case 'reopen': {
+      const todos = resolveTodos(todoList, args);
+      const completed = command === 'done';
+      const changed = todoList.toggleMany(todos.filter(todo => todo.completed !== completed).map(todo => todo.id));
+      const changedIds = new Set(changed.map(todo => todo.id));
+      printTodos(todos.map(todo => todoList.getTodoById(todo.id) ?? todo), json, completed ? 'Completed' : 'Reopened', changedIds);
+      return EXIT_CODES.OK;
+    }
+
+    case 'rm': {
+      const todos = resolveTodos(todoList, args);
+      todoList.deleteMany(todos.map(todo => todo.id));
+      printTodos(todos, json, 'Trashed');
+      return EXIT_CODES.OK;
+    }
+
+    case 'trash':
+      printTodos(todoList.getTrashedTodos(), json);
+      return EXIT_CODES.OK;
+
+    case 'restore': {
+      const todos = resolveTodos(todoList, args, todoList.getTrashedTodos());
+      printTodos(todoList.restoreTodos(todos.map(todo => todo.id)), json, 'Restored');
+      return EXIT_CODES.OK;
+    }
+
+    case 'purge': {
+      const ids = args.length > 0 ? resolveTodos(todoList, args, todoList.getTrashedTodos()).map(todo => todo.id) : undefined;
+      const purgedCount = todoList.purgeTrash(ids);
+      if (json) {
+        printJson({ purged: purgedCount });
+      } else {
+        console.log(`Deleted ${purgedCount} todo${purgedCount === 1 ? '' : 's'} for good`);
+      }
+      return EXIT_CODES.OK;
+    }
+
+    case 'log': {
+      if (args.length > 1) {
+        throw new ValidationError('Usage: todo log [id]');
+      }
+      const [todo] = args.length > 0 ? resolveTodos(todoList, args, [...todoList.getAllTodos(), ...todoList.getTrashedTodos()]) : [];
+      const entries = todoList.getActivity(todo ? { todoId: todo.id } : {});
+      if (json) {
+        printJson(entries);
+      } else {
+        entries.forEach(entry => console.log(`${entry.at.toISOString()}  ${entry.todoId}  ${describeActivity(entry)}${todo ? '' : `: ${entry.text}`}`));
+      }
+      return EXIT_CODES.OK;
+    }
+
+    case 'export': {
+      const content = todoList.exportTodos(getTodoFormat(options.format ?? 'json').id);
+      process.stdout.write(content.endsWith('\n') ? content : `${content}\n`);
+      return EXIT_CODES.OK;
+    }
+
+    case 'import':
+      return importFile(todoList, cli, json);
+
+    default:
+      throw new ValidationError(`Unknown command "${command}". Run "todo help" for the list of commands`);
+  }
+}
+
+/**
+ * Import a file into a todo list and report the outcome
+ */
+function importFile(todoList: TodoList, cli: CliArgs, json: boolean): number {
+  const [path] = cli.args;
+  if (!path || cli.args.length > 1) {
+    throw new ValidationError('Usage: todo import <file>');
+  }
+
+  const format = cli.options.format ? getTodoFormat(cli.options.format) : findTodoFormatForFile(path);
+  if (!format) {
+    throw new ValidationError(`Cannot tell the format of ${path}; pass --format`);
+  }
+
+  const mode = (cli.options.mode ?? 'merge') as ImportMode;
+  if (!IMPORT_MODES.includes(mode)) {
+    throw new ValidationError(`Invalid import mode. Must be one of: ${IMPORT_MODES.join(', ')}`);
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new ValidationError(`Cannot read ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const result = todoList.importTodos(content, { format: format.id, mode, dryRun: cli.options['dry-run'] === true });
+  const summary = {
+    mode: result.mode,
+    dryRun: result.dryRun,
+    imported: result.imported,
+    added: result.added.length,
+    updated: result.updated.length,
+    skipped: result.skipped.length,
+    removed: result.removed.length,
+    conflicts: result.conflicts.length,
+    errors: result.errors
+  };
+
+  if (json) {
+    printJson(summary);
+  } else {
+    const verb = result.dryRun ? 'Would import' : 'Imported';
+    console.log(`${verb} ${summary.imported} todo${summary.imported === 1 ? '' : 's'} (${summary.added} added, ${summary.updated} updated, ${summary.skipped} skipped, ${summary.removed} removed)`);
+    result.errors.forEach(error => console.error(`Line ${error.line}: ${error.message}`));
+  }
+  return EXIT_CODES.OK;
+}
+
+/**
+ * Push and pull a list's changes once
+ */
+async function syncList(todoList: TodoList, listId: string, store: KeyValueStore, endpoint: string | undefined, json: boolean): Promise<number> {
+  if (!endpoint) {
+    throw new ValidationError('Pass --endpoint or set TODO_SYNC_ENDPOINT to the sync server URL');
+  }
+
+  const engine = new SyncEngine(todoList, { endpoint, listId, store, namespace: TodoListManager.namespaceFor(listId) });
+  await engine.sync();
+  await todoList.flush();
+
+  const status = engine.getStatus();
+  if (json) {
+    printJson(status);
+  } else if (status.state === 'idle') {
+    console.log(`Synced with ${endpoint}`);
+  } else {
+    console.error(`todo: sync failed (${status.state}): ${status.error}; ${status.pending} change${status.pending === 1 ? '' : 's'} kept for next time`);
+  }
+  return status.state === 'idle' ? EXIT_CODES.OK : EXIT_CODES.SYNC;
+}
+
+/**
+ * Start an HTTP server; the process keeps running while it listens
+ */
+async function listen(server: Server, options: CliArgs['options'], defaultPort: number, label: string, json: boolean): Promise<number> {
+  const port = Number(options.port ?? defaultPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new ValidationError('Port must be a whole number between 0 and 65535');
+  }
+  const host = options.host ?? DEFAULT_HOST;
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => resolve());
+  });
+
+  const address = server.address();
+  const url = `http://${host}:${typeof address === 'object' && address ? address.port : port}`;
+  if (json) {
+    printJson({ url });
+  } else {
+    console.log(`${label} on ${url} (Ctrl+C to stop)`);
+  }
+  return EXIT_CODES.OK;
+}
+
+/**
+ * Print the lists with their todo counts
+ */
+function printLists(manager: TodoListManager, json: boolean): number {
+  const currentId = manager.getCurrentListInfo().id;
+  const lists = manager.getLists().map(list => ({
+    ...list,
+    current: list.id === currentId,
+    ...manager.getListStats(list.id)
+  }));
+
+  if (json) {
+    printJson(lists);
+  } else {
+    lists.forEach(list => console.log(`${list.current ? '*' : ' '} ${list.name} (${list.pending} pending, ${list.completed} completed)  ${list.id}`));
+  }
+  return EXIT_CODES.OK;
+}
+
+/**
+ * Pick the list to work on by name or id, or the current list
+ */
+function selectList(manager: TodoListManager, nameOrId: string | undefined): TodoListInfo {
+  if (nameOrId === undefined) {
+    return manager.getCurrentListInfo();
+  }
+
+  const list = manager.getLists().find(list =>
+    list.id === nameOrId || list.name.toLowerCase() === nameOrId.trim().toLowerCase()
+  );
+  if (!list) {
+    throw new ValidationError(`No list named "${nameOrId}"`);
+  }
+  return list;
+}
+
+/**
+ * Find the todos for ids given on the command line (full ids or unique prefixes)
+ *
+ * Ids are looked up among the list's todos unless other `todos` are given,
+ * e.g. the ones in the trash.
+ */
+function resolveTodos(todoList: TodoList, ids: string[], todos: Todo[] = todoList.getAllTodos()): Todo[] {
+  if (ids.length === 0) {
+    throw new ValidationError('At least one todo id is required');
+  }
+
+  const resolved = ids.map(id => {
+    const exact = todos.find(todo => todo.id === id);
+    if (exact) {
+      return exact;
+    }
+
+    const matches = todos.filter(todo => todo.id.startsWith(id));
+    if (matches.length === 0) {
+      throw new ValidationError(`No todo with id "${id}"`);
+    }
+    if (matches.length > 1) {
+      throw new ValidationError(`Id "${id}" matches ${matches.length} todos; use more characters`);
+    }
+    return matches[0]!;
+  });
+
+  return [...new Map(resolved.map(todo => [todo.id, todo])).values()];
+}
+
+/**
+ * Check a --filter value
+ */
+function parseFilter(filter: string): TodoFilter {
+  if (!TODO_FILTERS.includes(filter as TodoFilter)) {
+    throw new ValidationError(`Invalid filter. Must be one of: ${TODO_FILTERS.join(', ')}`);
+  }
+  return filter as TodoFilter;
+}
+
+/**
+ * Check a --priority value
+ */
+function parsePriority(priority: string): TodoPriority {
+  if (!TODO_PRIORITIES.includes(priority as TodoPriority)) {
+    throw new ValidationError(`Invalid priority. Must be one of: ${TODO_PRIORITIES.join(', ')}`);
+  }
+  return priority as TodoPriority;
+}
+
+/**
+ * Print todos, one per line or as a JSON array of stored todos
+ *
+ * With `changedIds`, todos that were already in the requested state are
+ * reported as unchanged.
+ */
+function printTodos(todos: Todo[], json: boolean, action?: string, changedIds?: Set<string>): void {
+  if (json) {
+    printJson(todos.map(todo => StorageUtils.toStoredTodo(todo)));
+    return;
+  }
+
+  todos.forEach(todo => {
+    const prefix = action ? `${changedIds && !changedIds.has(todo.id) ? 'Unchanged' : action}: ` : '';
+    console.log(`${prefix}${formatTodo(todo)}`);
+  });
+}
+
+/**
+ * Format a todo as one line of text
+ */
+function formatTodo(todo: Todo): string {
+  const parts = [todo.completed ? '[x]' : '[ ]', todo.id, todo.text];
+
+  if (todo.priority !== 'normal') {
+    parts.push(`!${todo.priority}`);
+  }
+  parts.push(...todo.tags.map(tag => `#${tag}`));
+  if (todo.dueAt) {
+    parts.push(`due:${formatDueDate(todo.dueAt, todo.dueAllDay === true)}`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Format a due date as YYYY-MM-DD, with the time unless it is all-day
+ */
+function formatDueDate(date: Date, allDay: boolean): string {
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return allDay ? day : `${day}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Print a value as indented JSON
+ */
+function printJson(value: unknown): void {
+  process.stdout.write(`${JSON.stringify(value, null, 2)}\n`);
+}
+
+/**
+ * Print an error and pick the exit code for its type
+ */
+function reportError(error: unknown, json: boolean): number {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const code = error instanceof ValidationError
+    ? EXIT_CODES.INVALID
+    : error instanceof StorageError ? EXIT_CODES.STORAGE : EXIT_CODES.ERROR;
+
+  if (json) {
+    const type = error instanceof Error ? error.name : 'Error';
+    const errorCode = error instanceof TodoError ? error.code : 'ERROR';
+    process.stderr.write(`${JSON.stringify({ error: { type, code: errorCode, message } })}\n`);
+  } else {
+    console.error(`todo: ${message}`);
+  }
+  return code;
+}
+
+/**
+ * Check whether this module was started as the program (e.g. through the `todo` link), not imported
+ */
+function isEntryPoint(): boolean {
+  try {
+    return !!process.argv[1] && realpathSync(process.argv[1]) === realpathSync(fileURLToPath(import.meta.url));
+  } catch {
+    return false;
+  }
+}
+
+if (isEntryPoint()) {
+  runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,56 @@
+/**
+ * DOM helpers for the browser app
+ *
+ * Kept out of utils.ts so the core modules load without browser globals.
+ */
+
+export class DOMUtils {
+  /**
+   * Get DOM element by ID with type safety
+   */
+  static getElementById<T extends HTMLElement>(id: string): T | null {
+    return document.getElementById(id) as T | null;
+  }
+
+  /**
+   * Create a new DOM element with attributes
+   */
+  static createElement<K extends keyof HTMLElementTagNameMap>(
+    tagName: K,
+    attributes: Record<string, string> = {},
+    textContent?: string
+  ): HTMLElementTagNameMap[K] {
+    const element = document.createElement(tagName);
+    
+    Object.entries(attributes).forEach(([key, value]) => {
+      element.setAttribute(key, value);
+    });
+    
+    if (textContent) {
+      element.textContent = textContent;
+    }
+    
+    return element;
+  }
+
+  /**
+   * Add CSS classes to element
+   */
+  static addClasses(element: HTMLElement, ...classes: string[]): void {
+    element.classList.add(...classes);
+  }
+
+  /**
+   * Remove CSS classes from element
+   */
+  static removeClasses(element: HTMLElement, ...classes: string[]): void {
+    element.classList.remove(...classes);
+  }
+
+  /**
+   * Toggle CSS class on element
+   */
+  static toggleClass(element: HTMLElement, className: string, force?: boolean): void {
+    element.classList.toggle(className, force);
+  }
+}
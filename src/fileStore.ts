@@ -0,0 +1,95 @@
+/**
+ * File-backed key-value store for running the todo lists under Node
+ *
+ * Holds the same keys the browser keeps in localStorage, as one JSON object
+ * in a single file, so LocalStorageTodoStorage works on top of it unchanged.
+ */
+
+import { readFileSync, writeFileSync, renameSync, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { KeyValueStore, StorageError } from './types.js';
+
+export class FileKeyValueStore implements KeyValueStore {
+  private values: Record<string, string>;
+
+  /**
+   * Read the store file, starting empty if it does not exist yet
+   *
+   * Throws a StorageError if the file cannot be read or is not a store file,
+   * so unreadable data is never overwritten.
+   */
+  constructor(private filePath: string) {
+    this.values = this.read();
+  }
+
+  /**
+   * Get the value stored under a key
+   */
+  getItem(key: string): string | null {
+    return Object.prototype.hasOwnProperty.call(this.values, key) ? this.values[key]! : null;
+  }
+
+  /**
+   * Store a value and write the file
+   */
+  setItem(key: string, value: string): void {
+    this.values[key] = value;
+    this.write();
+  }
+
+  /**
+   * Remove a key and write the file
+   */
+  removeItem(key: string): void {
+    if (Object.prototype.hasOwnProperty.call(this.values, key)) {
+      delete this.values[key];
+      this.write();
+    }
+  }
+
+  /**
+   * Load and check the store file
+   */
+  private read(): Record<string, string> {
+    let content: string;
+    try {
+      content = readFileSync(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw new StorageError(`Cannot read ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    let values: unknown;
+    try {
+      values = JSON.parse(content);
+    } catch (error) {
+      throw new StorageError(`${this.filePath} is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (
+      typeof values !== 'object' ||
+      values === null ||
+      Array.isArray(values) ||
+      !Object.values(values).every(value => typeof value === 'string')
+    ) {
+      throw new StorageError(`${this.filePath} is not a todo store file`);
+    }
+    return values as Record<string, string>;
+  }
+
+  /**
+   * Write the store file through a temporary file, so a crash never leaves it half-written
+   */
+  private write(): void {
+    const temporaryPath = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      writeFileSync(temporaryPath, `${JSON.stringify(this.values, null, 2)}\n`);
+      renameSync(temporaryPath, this.filePath);
+    } catch (error) {
+      throw new StorageError(`Cannot write ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,590 @@
+/**
+ * File formats for exporting and importing todos
+ *
+ * Built-in formats are this app's JSON, CSV, GitHub-style Markdown task lists
+ * and todo.txt. Parsers report problems per line instead of failing the whole
+ * import; TodoList.importTodos() validates the todos they produce.
+ */
+
+import {
+  Todo,
+  TodoFormat,
+  TodoPriority,
+  ParsedTodos,
+  ImportLineError,
+  ValidationError,
+  StorageError
+} from './types.js';
+import { StorageUtils, generateId, sanitizeTodoText, validateTodoText, parseDueDate } from './utils.js';
+import { upgradeStoredTodos } from './migrations.js';
+
+// Registered formats by id, in the order they are offered
+const formats = new Map<string, TodoFormat>();
+
+// Columns written to CSV files, named like the StoredTodo fields they hold
+const CSV_COLUMNS = [
+  'id', 'text', 'completed', 'priority', 'tags', 'dueAt', 'dueAllDay',
+  'createdAt', 'updatedAt', 'completedAt', 'parentId', 'order', 'recurrence'
+] as const;
+
+type CsvColumn = typeof CSV_COLUMNS[number];
+
+// todo.txt priority letters; normal todos have no priority
+const TODO_TXT_PRIORITIES: Record<TodoPriority, string | null> = {
+  urgent: 'A',
+  high: 'B',
+  normal: null,
+  low: 'C'
+};
+
+/**
+ * Add a format, replacing any registered format with the same id
+ */
+export function registerTodoFormat(format: TodoFormat): void {
+  formats.set(format.id, format);
+}
+
+/**
+ * Get a registered format by id
+ */
+export function getTodoFormat(id: string): TodoFormat {
+  const format = formats.get(id);
+  if (!format) {
+    throw new ValidationError(`Unknown format "${id}". Must be one of: ${[...formats.keys()].join(', ')}`);
+  }
+  return format;
+}
+
+/**
+ * Get all registered formats
+ */
+export function getTodoFormats(): TodoFormat[] {
+  return [...formats.values()];
+}
+
+/**
+ * Find the format for a file from its extension
+ */
+export function findTodoFormatForFile(fileName: string): TodoFormat | undefined {
+  const extension = /\.([^.]+)$/.exec(fileName.toLowerCase())?.[1];
+  return extension ? getTodoFormats().find(format => format.extensions.includes(extension)) : undefined;
+}
+
+registerTodoFormat({
+  id: 'json',
+  label: 'JSON',
+  extensions: ['json'],
+  mimeType: 'application/json',
+
+  serialize: todos => JSON.stringify(StorageUtils.toEnvelope(todos), null, 2),
+
+  parse: content => {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(content);
+    } catch (error) {
+      throw new ValidationError(`File is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    try {
+      const { todos } = upgradeStoredTodos(payload);
+      return { records: todos.map((todo, index) => ({ line: index + 1, todo })), errors: [] };
+    } catch (error) {
+      if (error instanceof StorageError) {
+        throw new ValidationError(error.message);
+      }
+      throw error;
+    }
+  }
+});
+
+registerTodoFormat({
+  id: 'csv',
+  label: 'CSV',
+  extensions: ['csv'],
+  mimeType: 'text/csv',
+
+  serialize: todos => {
+    const rows = todos.map(todo => {
+      const values: Record<CsvColumn, string> = {
+        id: todo.id,
+        text: todo.text,
+        completed: String(todo.completed),
+        priority: todo.priority,
+        tags: todo.tags.join(' '),
+        dueAt: todo.dueAt ? todo.dueAt.toISOString() : '',
+        dueAllDay: todo.dueAt ? String(todo.dueAllDay ?? false) : '',
+        createdAt: todo.createdAt.toISOString(),
+        updatedAt: todo.updatedAt.toISOString(),
+        completedAt: todo.completedAt ? todo.completedAt.toISOString() : '',
+        parentId: todo.parentId ?? '',
+        order: String(todo.order),
+        recurrence: todo.recurrence ? JSON.stringify(todo.recurrence) : ''
+      };
+      return CSV_COLUMNS.map(column => quoteCsvValue(values[column]));
+    });
+
+    return [[...CSV_COLUMNS], ...rows].map(row => row.join(',')).join('\r\n') + '\r\n';
+  },
+
+  parse: content => {
+    const { rows: [header, ...rows], errors } = readCsvRows(content);
+    const parsed: ParsedTodos = { records: [], errors };
+    if (!header) {
+      return parsed;
+    }
+
+    // Match header names case-insensitively; unknown columns are ignored
+    const columns = header.cells.map(name =>
+      CSV_COLUMNS.find(column => column.toLowerCase() === name.trim().toLowerCase())
+    );
+    if (!columns.includes('text')) {
+      throw new ValidationError('CSV file needs a "text" column');
+    }
+
+    rows.forEach(({ line, cells }) => {
+      const row: Partial<Record<CsvColumn, string>> = {};
+      columns.forEach((column, index) => {
+        const value = cells[index]?.trim();
+        if (column && value) {
+          row[column] = value;
+        }
+      });
+
+      readLine(parsed, line, () => csvRowToTodo(row));
+    });
+
+    return parsed;
+  }
+});
+
+registerTodoFormat({
+  id: 'markdown',
+  label: 'Markdown',
+  extensions: ['md', 'markdown'],
+  mimeType: 'text/markdown',
+
+  serialize: todos => toOutline(todos)
+    .map(({ todo, depth }) => {
+      // Escape '#' that would otherwise be read back as a tag
+      const text = todo.text.replace(/(^|\s)#/g, '$1\\#');
+      const tags = todo.tags.map(tag => ` #${tag}`).join('');
+      return `${'  '.repeat(depth)}- [${todo.completed ? 'x' : ' '}] ${text}${tags}`;
+    })
+    .map(line => `${line}\n`)
+    .join(''),
+
+  parse: content => {
+    const parsed: ParsedTodos = { records: [], errors: [] };
+    // Open items by indent; a null id marks an item that could not be read
+    const parents: Array<{ indent: number; id: string | null; line: number }> = [];
+
+    splitLines(content).forEach((text, index) => {
+      const line = index + 1;
+
+      // Blank lines and headings are allowed between tasks
+      if (text.trim() === '' || /^\s*#{1,6}(\s|$)/.test(text)) {
+        return;
+      }
+
+      const match = /^(\s*)[-*+]\s+\[([ xX])\](?:\s+(.*))?$/.exec(text);
+      if (!match) {
+        parsed.errors.push({ line, message: 'Not a task list item (expected "- [ ] text")' });
+        return;
+      }
+
+      // Items indented deeper than the previous item are its subtasks
+      const indent = match[1]!.replace(/\t/g, '    ').length;
+      while (parents.length > 0 && parents[parents.length - 1]!.indent >= indent) {
+        parents.pop();
+      }
+      const parent = parents[parents.length - 1];
+
+      // Subtasks of an unreadable item are skipped too, rather than moved under another todo
+      if (parent && parent.id === null) {
+        parsed.errors.push({ line, message: `Parent task on line ${parent.line} could not be imported` });
+        parents.push({ indent, id: null, line });
+        return;
+      }
+      const parentId = parent?.id;
+
+      const recordCount = parsed.records.length;
+      readLine(parsed, line, () => {
+        const tagMatch = /(?:\s+#[^\s#]+)+$/.exec(` ${match[3] ?? ''}`);
+        const body = tagMatch ? ` ${match[3]}`.slice(0, tagMatch.index) : match[3] ?? '';
+        const tags = tagMatch ? tagMatch[0].trim().split(/\s+/).map(tag => tag.slice(1)) : [];
+        const now = new Date().toISOString();
+        const todo = {
+          id: generateId(),
+          text: readText(body.replace(/\\#/g, '#')),
+          completed: match[2] !== ' ',
+          createdAt: now,
+          updatedAt: now,
+          tags,
+          ...(parentId ? { parentId } : {})
+        };
+
+        parents.push({ indent, id: todo.id, line });
+        return todo;
+      });
+      if (parsed.records.length === recordCount) {
+        parents.push({ indent, id: null, line });
+      }
+    });
+
+    return parsed;
+  }
+});
+
+registerTodoFormat({
+  id: 'todotxt',
+  label: 'todo.txt',
+  extensions: ['txt'],
+  mimeType: 'text/plain',
+
+  serialize: todos => todos.map(todo => `${toTodoTxtLine(todo)}\n`).join(''),
+
+  parse: content => {
+    const parsed: ParsedTodos = { records: [], errors: [] };
+
+    splitLines(content).forEach((text, index) => {
+      if (text.trim() !== '') {
+        readLine(parsed, index + 1, () => parseTodoTxtLine(text.trim()));
+      }
+    });
+
+    return parsed;
+  }
+});
+
+/**
+ * Read one line (or CSV row), recording a line error if it cannot be read
+ */
+function readLine(parsed: ParsedTodos, line: number, read: () => unknown): void {
+  try {
+    parsed.records.push({ line, todo: read() });
+  } catch (error) {
+    parsed.errors.push(toLineError(line, error));
+  }
+}
+
+/**
+ * Describe an error for a line
+ */
+function toLineError(line: number, error: unknown): ImportLineError {
+  return { line, message: error instanceof Error ? error.message : 'Unknown error' };
+}
+
+/**
+ * Split file content into lines, whatever the line endings
+ */
+function splitLines(content: string): string[] {
+  return content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+}
+
+/**
+ * Sanitize and validate the text of an imported todo
+ */
+function readText(text: string): string {
+  const sanitizedText = sanitizeTodoText(text);
+  validateTodoText(sanitizedText);
+  return sanitizedText;
+}
+
+/**
+ * Parse a "YYYY-MM-DD" day in local time
+ */
+function parseDay(value: string, label: string): Date {
+  try {
+    const parsed = parseDueDate(value);
+    if (parsed) {
+      return parsed.dueAt;
+    }
+  } catch {
+    // Reported below with the field's name
+  }
+  throw new ValidationError(`Invalid ${label} "${value}"`);
+}
+
+/**
+ * Format a date as a local "YYYY-MM-DD" day
+ */
+function formatDay(date: Date): string {
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * List todos with each parent followed by its subtasks, keeping their order
+ */
+function toOutline(todos: Todo[]): Array<{ todo: Todo; depth: number }> {
+  const ids = new Set(todos.map(todo => todo.id));
+  const childrenByParent = new Map<string | undefined, Todo[]>();
+  todos.forEach(todo => {
+    const parentId = todo.parentId && ids.has(todo.parentId) ? todo.parentId : undefined;
+    childrenByParent.set(parentId, [...childrenByParent.get(parentId) ?? [], todo]);
+  });
+
+  const outline: Array<{ todo: Todo; depth: number }> = [];
+  const visit = (parentId: string | undefined, depth: number): void => {
+    childrenByParent.get(parentId)?.forEach(todo => {
+      outline.push({ todo, depth });
+      visit(todo.id, depth + 1);
+    });
+  };
+  visit(undefined, 0);
+  return outline;
+}
+
+/**
+ * Quote a CSV value when it contains separators, quotes or line breaks
+ */
+function quoteCsvValue(value: string): string {
+  return /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Split CSV content into rows of cells (RFC 4180 quoting)
+ *
+ * Each row records the line it starts on, since quoted cells may span lines.
+ * A row whose quoted value is never closed is reported as an error and
+ * reading goes on from the line after its start; in the header row it
+ * makes the whole file unreadable.
+ */
+function readCsvRows(content: string): { rows: Array<{ line: number; cells: string[] }>; errors: ImportLineError[] } {
+  const text = content.replace(/^\uFEFF/, '');
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  const errors: ImportLineError[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  let rowStart = 0;
+
+  const endRow = (): void => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0]!.trim() !== '') {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let index = 0; index < text.length || quoted; index++) {
+    if (index >= text.length) {
+      if (rows.length === 0) {
+        throw new ValidationError(`Line ${rowLine}: quoted value is never closed`);
+      }
+      errors.push({ line: rowLine, message: 'Quoted value is never closed' });
+
+      // Drop the broken row and start again on the line after it began
+      const lineEnd = /\r\n?|\n/.exec(text.slice(rowStart));
+      if (!lineEnd) {
+        quoted = false;
+        cells = [];
+        cell = '';
+        break;
+      }
+      index = rowStart + lineEnd.index + lineEnd[0].length - 1;
+      quoted = false;
+      cells = [];
+      cell = '';
+      line = rowLine + 1;
+      rowLine = line;
+      rowStart = index + 1;
+      continue;
+    }
+
+    const char = text[index]!;
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      endRow();
+      line++;
+      rowLine = line;
+      rowStart = index + 1;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || cells.length > 0) {
+    endRow();
+  }
+  return { rows, errors };
+}
+
+/**
+ * Build a todo from the cells of a CSV row
+ */
+function csvRowToTodo(row: Partial<Record<CsvColumn, string>>): unknown {
+  const parseDate = (value: string, label: string): string => {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      return parseDay(value, label).toISOString();
+    }
+    if (isNaN(Date.parse(value))) {
+      throw new ValidationError(`Invalid ${label} "${value}"`);
+    }
+    return new Date(value).toISOString();
+  };
+
+  const parseBoolean = (value: string, label: string): boolean => {
+    const normalized = value.toLowerCase();
+    if (['true', 'yes', 'x', '1'].includes(normalized)) return true;
+    if (['false', 'no', '0'].includes(normalized)) return false;
+    throw new ValidationError(`Invalid ${label} value "${value}". Use true or false`);
+  };
+
+  const createdAt = row.createdAt ? parseDate(row.createdAt, 'created date') : new Date().toISOString();
+  const todo: Record<string, unknown> = {
+    id: row.id ?? generateId(),
+    text: readText(row.text ?? ''),
+    completed: row.completed ? parseBoolean(row.completed, 'completed') : false,
+    createdAt,
+    updatedAt: row.updatedAt ? parseDate(row.updatedAt, 'updated date') : createdAt,
+    tags: row.tags ? row.tags.split(/[\s,]+/).filter(tag => tag.length > 0) : []
+  };
+
+  if (row.priority) todo.priority = row.priority.toLowerCase();
+  if (row.parentId) todo.parentId = row.parentId;
+  if (row.completedAt && todo.completed) todo.completedAt = parseDate(row.completedAt, 'completion date');
+
+  if (row.dueAt) {
+    todo.dueAt = parseDate(row.dueAt, 'due date');
+    todo.dueAllDay = row.dueAllDay ? parseBoolean(row.dueAllDay, 'all-day') : /^\d{4}-\d{2}-\d{2}$/.test(row.dueAt);
+  }
+
+  if (row.order) {
+    todo.order = Number(row.order);
+    if (!Number.isFinite(todo.order)) {
+      throw new ValidationError(`Invalid order "${row.order}"`);
+    }
+  }
+
+  if (row.recurrence) {
+    try {
+      todo.recurrence = JSON.parse(row.recurrence);
+    } catch {
+      throw new ValidationError('Recurrence is not valid JSON');
+    }
+  }
+
+  return todo;
+}
+
+/**
+ * Write a todo as a todo.txt line
+ *
+ * Completed todos keep their priority in a `pri:` tag, as the todo.txt
+ * format drops the "(A)" prefix on completion. Due dates are kept to the day.
+ */
+function toTodoTxtLine(todo: Todo): string {
+  const letter = TODO_TXT_PRIORITIES[todo.priority];
+  const parts: string[] = [];
+
+  if (todo.completed) {
+    parts.push('x', formatDay(todo.completedAt ?? todo.updatedAt));
+  } else if (letter) {
+    parts.push(`(${letter})`);
+  }
+
+  parts.push(formatDay(todo.createdAt), todo.text);
+  todo.tags.forEach(tag => parts.push(`+${tag}`));
+
+  if (todo.dueAt) {
+    parts.push(`due:${formatDay(todo.dueAt)}`);
+  }
+  if (todo.completed && letter) {
+    parts.push(`pri:${letter}`);
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Read a todo from a todo.txt line
+ *
+ * `+project` and `@context` both become tags. Key:value pairs other than
+ * `due:` and `pri:` are kept as part of the text.
+ */
+function parseTodoTxtLine(text: string): unknown {
+  let rest = text;
+  let completedOn: Date | undefined;
+  let letter: string | undefined;
+
+  const take = (pattern: RegExp): RegExpExecArray | null => {
+    const match = pattern.exec(rest);
+    if (match) {
+      rest = rest.slice(match[0].length);
+    }
+    return match;
+  };
+
+  const completed = take(/^x\s+/) !== null;
+  if (completed) {
+    const completion = take(/^(\d{4}-\d{2}-\d{2})\s+/);
+    completedOn = completion ? parseDay(completion[1]!, 'completion date') : undefined;
+  } else {
+    letter = take(/^\(([A-Z])\)\s+/)?.[1];
+  }
+
+  const creation = take(/^(\d{4}-\d{2}-\d{2})\s+/);
+  const createdOn = creation ? parseDay(creation[1]!, 'creation date') : undefined;
+
+  const words: string[] = [];
+  const tags: string[] = [];
+  let due: Date | undefined;
+
+  rest.split(/\s+/).forEach(word => {
+    const keyValue = /^([^:\s]+):([^:\s]+)$/.exec(word);
+
+    if (/^[+@]\S+$/.test(word)) {
+      tags.push(word.slice(1));
+    } else if (keyValue?.[1] === 'due') {
+      due = parseDay(keyValue[2]!, 'due date');
+    } else if (keyValue?.[1] === 'pri' && /^[A-Z]$/.test(keyValue[2]!)) {
+      letter = keyValue[2];
+    } else {
+      words.push(word);
+    }
+  });
+
+  const createdAt = (createdOn ?? completedOn ?? new Date()).toISOString();
+  return {
+    id: generateId(),
+    text: readText(words.join(' ')),
+    completed,
+    createdAt,
+    updatedAt: completedOn ? completedOn.toISOString() : createdAt,
+    ...(completed && completedOn ? { completedAt: completedOn.toISOString() } : {}),
+    priority: fromTodoTxtPriority(letter),
+    tags,
+    ...(due ? { dueAt: due.toISOString(), dueAllDay: true } : {})
+  };
+}
+
+/**
+ * Map a todo.txt priority letter to a priority (D to Z count as low)
+ */
+function fromTodoTxtPriority(letter: string | undefined): TodoPriority {
+  const priority = (Object.keys(TODO_TXT_PRIORITIES) as TodoPriority[])
+    .find(key => TODO_TXT_PRIORITIES[key] === letter);
+  return priority ?? (letter ? 'low' : 'normal');
+}
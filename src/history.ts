@@ -0,0 +1,217 @@
+/**
+ * Undo/redo history for TodoList mutations
+ */
+
+import { Todo, StoredTodo, PositionedTodo, HistoryEntry, TodoHistoryState, ValidationError } from './types.js';
+import { StorageUtils } from './utils.js';
+
+// Default number of undoable steps kept
+export const DEFAULT_HISTORY_DEPTH = 50;
+
+export class TodoHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+
+  constructor(private depth: number = DEFAULT_HISTORY_DEPTH) {
+    if (!Number.isInteger(depth) || depth < 0) {
+      throw new ValidationError('History depth must be a non-negative integer');
+    }
+  }
+
+  /**
+   * Build a history entry from the list before and after a mutation
+   *
+   * Todos are compared by id and by reference, since TodoList replaces a
+   * todo object whenever it changes. Returns null if nothing changed.
+   */
+  static diff(label: string, before: Todo[], after: Todo[]): HistoryEntry | null {
+    const beforeById = new Map(before.map(todo => [todo.id, todo]));
+    const afterIds = new Set(after.map(todo => todo.id));
+
+    const added: PositionedTodo[] = [];
+    const removed: PositionedTodo[] = [];
+    const updated: HistoryEntry['updated'] = [];
+
+    after.forEach((todo, index) => {
+      const previous = beforeById.get(todo.id);
+      if (!previous) {
+        added.push({ index, todo: StorageUtils.toStoredTodo(todo) });
+      } else if (previous !== todo) {
+        updated.push({ before: StorageUtils.toStoredTodo(previous), after: StorageUtils.toStoredTodo(todo) });
+      }
+    });
+
+    before.forEach((todo, index) => {
+      if (!afterIds.has(todo.id)) {
+        removed.push({ index, todo: StorageUtils.toStoredTodo(todo) });
+      }
+    });
+
+    if (added.length === 0 && removed.length === 0 && updated.length === 0) {
+      return null;
+    }
+
+    return { label, timestamp: new Date().toISOString(), added, removed, updated };
+  }
+
+  /**
+   * Record a new entry, discarding the redo stack
+   */
+  record(entry: HistoryEntry): void {
+    this.undoStack.push(entry);
+    this.redoStack = [];
+    this.trim();
+  }
+
+  /**
+   * Revert the most recent entry, returning the resulting todos
+   */
+  undo(todos: Todo[]): { todos: Todo[]; entry: HistoryEntry } | null {
+    const entry = this.undoStack.pop();
+    if (!entry) {
+      return null;
+    }
+
+    this.redoStack.push(entry);
+    return {
+      todos: TodoHistory.apply(todos, entry.added, entry.updated.map(({ before, after }) => ({ from: after, to: before })), entry.removed),
+      entry
+    };
+  }
+
+  /**
+   * Re-apply the most recently undone entry, returning the resulting todos
+   */
+  redo(todos: Todo[]): { todos: Todo[]; entry: HistoryEntry } | null {
+    const entry = this.redoStack.pop();
+    if (!entry) {
+      return null;
+    }
+
+    this.undoStack.push(entry);
+    return {
+      todos: TodoHistory.apply(todos, entry.removed, entry.updated.map(({ before, after }) => ({ from: before, to: after })), entry.added),
+      entry
+    };
+  }
+
+  /**
+   * Check if there is anything to undo
+   */
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Check if there is anything to redo
+   */
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Get the label of the next entry to undo
+   */
+  peekUndo(): string | null {
+    return this.undoStack[this.undoStack.length - 1]?.label ?? null;
+  }
+
+  /**
+   * Get the label of the next entry to redo
+   */
+  peekRedo(): string | null {
+    return this.redoStack[this.redoStack.length - 1]?.label ?? null;
+  }
+
+  /**
+   * Get the stacks for persistence
+   */
+  getState(): TodoHistoryState {
+    return { undo: [...this.undoStack], redo: [...this.redoStack] };
+  }
+
+  /**
+   * Restore previously persisted stacks
+   */
+  restore(state: TodoHistoryState | null): void {
+    this.undoStack = Array.isArray(state?.undo) ? [...state.undo] : [];
+    this.redoStack = Array.isArray(state?.redo) ? [...state.redo] : [];
+    this.trim();
+  }
+
+  /**
+   * Forget all history
+   */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  /**
+   * Drop the oldest entries beyond the configured depth
+   */
+  private trim(): void {
+    if (this.undoStack.length > this.depth) {
+      this.undoStack.splice(0, this.undoStack.length - this.depth);
+    }
+    if (this.redoStack.length > this.depth) {
+      this.redoStack.splice(0, this.redoStack.length - this.depth);
+    }
+  }
+
+  /**
+   * Remove, change and insert todos to move between list states
+   *
+   * Only the fields an entry changed are set back, so edits made since (e.g.
+   * in another tab) to other fields survive. Every todo touched gets a new
+   * `updatedAt`, so the change is newer than the state it replaces when
+   * merged with other tabs or a sync server.
+   */
+  private static apply(
+    todos: Todo[],
+    toRemove: PositionedTodo[],
+    toChange: Array<{ from: StoredTodo; to: StoredTodo }>,
+    toInsert: PositionedTodo[]
+  ): Todo[] {
+    const updatedAt = new Date().toISOString();
+    const removeIds = new Set(toRemove.map(change => change.todo.id));
+    const changes = new Map(toChange.map(change => [change.to.id, change]));
+
+    const result = todos
+      .filter(todo => !removeIds.has(todo.id))
+      .map(todo => {
+        const change = changes.get(todo.id);
+        return change ? StorageUtils.fromStoredTodo(TodoHistory.changeFields(todo, change.from, change.to, updatedAt), todo.order) : todo;
+      });
+
+    // Insert in ascending index order so each index refers to the final list
+    const existingIds = new Set(result.map(todo => todo.id));
+    [...toInsert]
+      .filter(({ todo }) => !existingIds.has(todo.id))
+      .sort((a, b) => a.index - b.index)
+      .forEach(({ index, todo }) => result.splice(index, 0, StorageUtils.fromStoredTodo({ ...todo, updatedAt }, index)));
+
+    return result;
+  }
+
+  /**
+   * Set the fields that differ between `from` and `to` to their `to` values
+   */
+  private static changeFields(todo: Todo, from: StoredTodo, to: StoredTodo, updatedAt: string): StoredTodo {
+    const result: Record<string, unknown> = { ...StorageUtils.toStoredTodo(todo) };
+    const source = from as unknown as Record<string, unknown>;
+    const target = to as unknown as Record<string, unknown>;
+
+    new Set([...Object.keys(source), ...Object.keys(target)]).forEach(field => {
+      if (field === 'updatedAt' || JSON.stringify(source[field]) === JSON.stringify(target[field])) return;
+
+      if (target[field] === undefined) {
+        delete result[field];
+      } else {
+        result[field] = target[field];
+      }
+    });
+
+    return { ...result, updatedAt } as StoredTodo;
+  }
+}
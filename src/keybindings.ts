@@ -0,0 +1,332 @@
+/**
+ * Key bindings and fuzzy search for app commands
+ *
+ * Keys are written as modifiers and a key name joined by "+", e.g. "n",
+ * "Shift+n", "Ctrl+k", "?" or "Delete". Letters are lower case and carry
+ * "Shift" when it was held; other characters already show it ("?" not
+ * "Shift+/"). The user's changes to the default keys are saved in a
+ * KeyValueStore, so they survive reloads.
+ */
+
+import {
+  AppCommand,
+  CommandMatch,
+  KeyBindingOverrides,
+  KeyValueStore,
+  ValidationError,
+  StorageError,
+  STORAGE_KEYS,
+  STORAGE_NAMESPACE
+} from './types.js';
+
+// Modifiers in the order they are written
+const MODIFIERS = ['Ctrl', 'Alt', 'Shift', 'Meta'] as const;
+
+type Modifier = typeof MODIFIERS[number];
+
+// Key names written differently from KeyboardEvent.key
+const KEY_ALIASES: Record<string, string> = {
+  ' ': 'Space',
+  '+': 'Plus',
+  'Del': 'Delete',
+  'Esc': 'Escape',
+  'Up': 'ArrowUp',
+  'Down': 'ArrowDown',
+  'Left': 'ArrowLeft',
+  'Right': 'ArrowRight'
+};
+
+// Keys that never make a binding on their own
+const IGNORED_KEYS = new Set(['Control', 'Alt', 'AltGraph', 'Shift', 'Meta', 'OS', 'CapsLock', 'Dead', 'Process', 'Unidentified']);
+
+// Modifier names accepted when reading a written key
+const MODIFIER_NAMES: Record<string, Modifier> = {
+  ctrl: 'Ctrl',
+  control: 'Ctrl',
+  alt: 'Alt',
+  option: 'Alt',
+  shift: 'Shift',
+  meta: 'Meta',
+  cmd: 'Meta'
+};
+
+export class KeyBindings {
+  private overrides: KeyBindingOverrides;
+
+  constructor(
+    private commands: AppCommand[],
+    private store: KeyValueStore,
+    private storageKey: string = `${STORAGE_NAMESPACE}-${STORAGE_KEYS.KEY_BINDINGS}`
+  ) {
+    this.overrides = this.load();
+  }
+
+  /**
+   * Get the commands that can be bound, in their original order
+   */
+  getCommands(): AppCommand[] {
+    return [...this.commands];
+  }
+
+  /**
+   * Get the keys bound to a command
+   */
+  getKeys(commandId: string): string[] {
+    return [...(this.overrides[commandId] ?? this.findById(commandId)?.defaultKeys ?? [])];
+  }
+
+  /**
+   * Find the command bound to a key
+   */
+  findCommand(key: string): AppCommand | undefined {
+    return this.commands.find(command => this.getKeys(command.id).includes(key));
+  }
+
+  /**
+   * Bind keys to a command (an empty array unbinds it)
+   *
+   * A key bound to another command moves to this one; the commands that lost
+   * a key are returned.
+   */
+  setKeys(commandId: string, keys: string[]): AppCommand[] {
+    if (!this.findById(commandId)) {
+      throw new ValidationError(`Unknown command: ${commandId}`);
+    }
+
+    const normalized = keys.map(key => {
+      const result = normalizeKey(key);
+      if (!result) {
+        throw new ValidationError(`"${key}" is not a key`);
+      }
+      return result;
+    });
+
+    const next: KeyBindingOverrides = { ...this.overrides };
+    const displaced = this.commands.filter(command => {
+      if (command.id === commandId) return false;
+
+      const current = this.getKeys(command.id);
+      const remaining = current.filter(key => !normalized.includes(key));
+      if (remaining.length === current.length) return false;
+
+      next[command.id] = remaining;
+      return true;
+    });
+    next[commandId] = [...new Set(normalized)];
+
+    this.overrides = this.withoutDefaults(next);
+    this.save();
+    return displaced;
+  }
+
+  /**
+   * Go back to the default keys for every command
+   */
+  resetAll(): void {
+    this.overrides = {};
+    this.save();
+  }
+
+  /**
+   * Find a command by id
+   */
+  private findById(commandId: string): AppCommand | undefined {
+    return this.commands.find(command => command.id === commandId);
+  }
+
+  /**
+   * Drop overrides that match a command's default keys
+   */
+  private withoutDefaults(overrides: KeyBindingOverrides): KeyBindingOverrides {
+    return Object.fromEntries(Object.entries(overrides).filter(([commandId, keys]) => {
+      const defaults = this.findById(commandId)?.defaultKeys ?? [];
+      return keys.length !== defaults.length || keys.some(key => !defaults.includes(key));
+    }));
+  }
+
+  /**
+   * Load the saved overrides, skipping unknown commands and keys
+   */
+  private load(): KeyBindingOverrides {
+    try {
+      const serialized = this.store.getItem(this.storageKey);
+      const saved: unknown = serialized ? JSON.parse(serialized) : {};
+      if (!saved || typeof saved !== 'object' || Array.isArray(saved)) {
+        return {};
+      }
+
+      const overrides: KeyBindingOverrides = {};
+      Object.entries(saved).forEach(([commandId, keys]) => {
+        if (this.findById(commandId) && Array.isArray(keys)) {
+          overrides[commandId] = keys
+            .map(key => typeof key === 'string' ? normalizeKey(key) : null)
+            .filter((key): key is string => key !== null);
+        }
+      });
+      return overrides;
+    } catch (error) {
+      console.warn('Failed to load key bindings:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Save the overrides
+   */
+  private save(): void {
+    try {
+      if (Object.keys(this.overrides).length === 0) {
+        this.store.removeItem(this.storageKey);
+      } else {
+        this.store.setItem(this.storageKey, JSON.stringify(this.overrides));
+      }
+    } catch (error) {
+      throw new StorageError(`Failed to save key bindings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+/**
+ * Write the key pressed in a keyboard event, or null for a lone modifier
+ */
+export function keyFromEvent(event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>): string | null {
+  const modifiers = new Set<Modifier>();
+  if (event.ctrlKey) modifiers.add('Ctrl');
+  if (event.altKey) modifiers.add('Alt');
+  if (event.shiftKey) modifiers.add('Shift');
+  if (event.metaKey) modifiers.add('Meta');
+
+  return buildKey(event.key, modifiers);
+}
+
+/**
+ * Rewrite a key in the standard form (e.g. "control+K" as "Ctrl+Shift+k"), or null if it is not a key
+ */
+export function normalizeKey(text: string): string | null {
+  const parts = text.trim().split('+');
+  const name = parts.pop() ?? '';
+  const modifiers = new Set<Modifier>();
+
+  for (const part of parts) {
+    const modifier = MODIFIER_NAMES[part.trim().toLowerCase()];
+    if (!modifier) return null;
+    modifiers.add(modifier);
+  }
+
+  // Written upper-case letters mean Shift was held
+  if (/^[A-Z]$/.test(name)) {
+    modifiers.add('Shift');
+  }
+  return buildKey(name === 'Plus' ? '+' : name, modifiers);
+}
+
+/**
+ * Split a key into the parts shown to the user, e.g. ["Ctrl", "k"]
+ */
+export function keyParts(key: string): string[] {
+  return key.split('+');
+}
+
+/**
+ * Match a query against a label, allowing characters to be skipped
+ *
+ * Returns null if the label does not contain the query's characters in
+ * order. Matches at the start of words and runs of consecutive characters
+ * score higher.
+ */
+export function fuzzyMatch(query: string, label: string): { score: number; positions: number[] } | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  const haystack = label.toLowerCase();
+  const positions: number[] = [];
+  let score = 0;
+  let from = 0;
+
+  for (let i = 0; i < needle.length; i++) {
+    const char = needle[i]!;
+    const rest = needle.slice(i + 1);
+    const previous = positions[positions.length - 1];
+
+    // Prefer continuing a run, then the start of a word, then the next match
+    let position = previous !== undefined && haystack[previous + 1] === char ? previous + 1 : -1;
+    if (position === -1) {
+      for (let j = haystack.indexOf(char, from); j !== -1; j = haystack.indexOf(char, j + 1)) {
+        if (isWordStart(haystack, j) && isSubsequence(rest, haystack, j + 1)) {
+          position = j;
+          break;
+        }
+      }
+    }
+    if (position === -1) {
+      position = haystack.indexOf(char, from);
+    }
+    if (position === -1) return null;
+
+    score += 1;
+    if (previous !== undefined && position === previous + 1) score += 3;
+    if (isWordStart(haystack, position)) score += 5;
+    positions.push(position);
+    from = position + 1;
+  }
+
+  // Earlier matches rank slightly higher
+  return { score: score - (positions[0] ?? 0) / 100, positions };
+}
+
+/**
+ * Find the commands matching a query, best match first
+ *
+ * An empty query matches every command in its original order.
+ */
+export function searchCommands(commands: AppCommand[], query: string): CommandMatch[] {
+  if (!query.trim()) {
+    return commands.map(command => ({ command, score: 0, positions: [] }));
+  }
+
+  return commands
+    .map(command => {
+      const match = fuzzyMatch(query, command.label);
+      return match ? { command, ...match } : null;
+    })
+    .filter((match): match is CommandMatch => match !== null)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Write a key name with its modifiers, or null if it is not a key
+ */
+function buildKey(name: string, modifiers: Set<Modifier>): string | null {
+  if (!name || IGNORED_KEYS.has(name)) return null;
+
+  let key = KEY_ALIASES[name] ?? name;
+  if (key.length === 1) {
+    if (/[a-z]/i.test(key)) {
+      key = key.toLowerCase();
+    } else {
+      modifiers.delete('Shift'); // "?" rather than "Shift+?"
+    }
+  } else if (!/^[A-Z][A-Za-z0-9]*$/.test(key)) {
+    return null;
+  }
+
+  return [...MODIFIERS.filter(modifier => modifiers.has(modifier)), key].join('+');
+}
+
+/**
+ * Check whether a character starts a word
+ */
+function isWordStart(text: string, index: number): boolean {
+  return index === 0 || !/[a-z0-9]/i.test(text[index - 1]!);
+}
+
+/**
+ * Check whether the characters of `needle` appear in order in `text` from `from`
+ */
+function isSubsequence(needle: string, text: string, from: number): boolean {
+  let position = from;
+  for (const char of needle) {
+    position = text.indexOf(char, position);
+    if (position === -1) return false;
+    position++;
+  }
+  return true;
+}
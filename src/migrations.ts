@@ -0,0 +1,131 @@
+/**
+ * Versioned storage format and the migrations that upgrade older data
+ */
+
+import { StoredTodo, StorageError, STORAGE_SCHEMA_VERSION } from './types.js';
+import { StorageUtils } from './utils.js';
+
+// Persisted todos at some format version, before validation
+interface VersionedPayload {
+  version: number;
+  todos: unknown[];
+}
+
+// Result of reading persisted todos
+export interface MigrationResult {
+  todos: StoredTodo[];
+  invalid: unknown[]; // records that could not be read and were left out
+  fromVersion: number;
+}
+
+// Steps upgrading a payload from version N to N + 1, keyed by N
+const MIGRATIONS: Record<number, (payload: VersionedPayload) => VersionedPayload> = {
+  // Version 0 was a bare array of todos; version 1 wraps it in an envelope
+  0: payload => ({ version: 1, todos: payload.todos }),
+
+  // Version 2 stores the priority, tags and order that older todos lacked
+  1: payload => ({
+    version: 2,
+    todos: payload.todos.map((todo, index) =>
+      typeof todo === 'object' && todo !== null
+        ? { priority: 'normal', tags: [], order: index, ...todo }
+        : todo
+    )
+  }),
+
+  // Version 3 records when todos were completed; older ones last changed then at the latest
+  2: payload => ({
+    version: 3,
+    todos: payload.todos.map(todo => {
+      const record = todo as Record<string, unknown> | null;
+      return typeof record === 'object' && record !== null && record.completed === true && record.completedAt === undefined
+        ? { ...record, completedAt: record.updatedAt }
+        : todo;
+    })
+  })
+};
+
+/**
+ * Parse serialized todos in any known format and upgrade them to the current one
+ *
+ * Throws a StorageError if the data is not JSON or not recognisable as todos.
+ */
+export function parseStoredTodos(serialized: string): MigrationResult {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(serialized);
+  } catch (error) {
+    throw new StorageError(`Stored todos are not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  return migrateStoredTodos(payload);
+}
+
+/**
+ * Upgrade parsed todos (a bare array or a versioned envelope) to the current format
+ *
+ * Todos that are still invalid after migrating are returned separately in
+ * `invalid` instead of being dropped silently. Throws a StorageError for
+ * unrecognised data or data saved by a newer version of the app.
+ */
+export function migrateStoredTodos(payload: unknown): MigrationResult {
+  const { todos: migratedTodos, fromVersion } = upgradeStoredTodos(payload);
+
+  const todos: StoredTodo[] = [];
+  const invalid: unknown[] = [];
+  migratedTodos.forEach(todo => {
+    if (StorageUtils.isValidStoredTodo(todo)) {
+      todos.push(todo);
+    } else {
+      invalid.push(todo);
+    }
+  });
+
+  return { todos, invalid, fromVersion };
+}
+
+/**
+ * Run the migrations on parsed todos without validating the result
+ *
+ * Returns the upgraded records in their original positions, so callers can
+ * report problems with individual todos.
+ */
+export function upgradeStoredTodos(payload: unknown): { todos: unknown[]; fromVersion: number } {
+  let current = toVersionedPayload(payload);
+  const fromVersion = current.version;
+
+  if (current.version > STORAGE_SCHEMA_VERSION) {
+    throw new StorageError(`Todo data uses format version ${current.version}, which is newer than this app supports (${STORAGE_SCHEMA_VERSION})`);
+  }
+
+  while (current.version < STORAGE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[current.version];
+    if (!migrate) {
+      throw new StorageError(`No migration from storage format version ${current.version}`);
+    }
+    current = migrate(current);
+  }
+
+  return { todos: current.todos, fromVersion };
+}
+
+/**
+ * Recognise the format version of parsed todos
+ */
+function toVersionedPayload(payload: unknown): VersionedPayload {
+  if (Array.isArray(payload)) {
+    return { version: 0, todos: payload };
+  }
+
+  const candidate = payload as Partial<VersionedPayload> | null;
+  if (
+    typeof candidate === 'object' &&
+    candidate !== null &&
+    Number.isInteger(candidate.version) &&
+    (candidate.version as number) >= 1 &&
+    Array.isArray(candidate.todos)
+  ) {
+    return { version: candidate.version as number, todos: candidate.todos };
+  }
+
+  throw new StorageError('Todo data is not in a recognised format');
+}
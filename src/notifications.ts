@@ -0,0 +1,252 @@
+/**
+ * Non-blocking toast notifications for the browser app
+ *
+ * Notifications stack in a container, newest at the bottom, and never take
+ * focus. Text is only ever set through textContent, so messages may contain
+ * anything the user typed. A message shown again while it is still up
+ * bumps a repeat count instead of stacking a copy.
+ */
+
+import { MessageAction, NotificationType, NotificationDurations } from './types.js';
+import { DOMUtils } from './dom.js';
+
+// Errors stay up until dismissed; messages with actions get longer to reach them
+export const DEFAULT_NOTIFICATION_DURATIONS: NotificationDurations = {
+  success: 4000,
+  info: 6000,
+  danger: null
+};
+
+// Extra time given to a notification with action buttons, in milliseconds
+const ACTION_EXTRA_DURATION = 4000;
+
+// Most notifications shown at once; the oldest go first, errors last
+const MAX_NOTIFICATIONS = 5;
+
+// Time for the leaving animation before the element is removed, in milliseconds
+const EXIT_DELAY = 300;
+
+// Heading and icon for each kind of notification
+const NOTIFICATION_TITLES: Record<NotificationType, { icon: string; title: string }> = {
+  success: { icon: '✅', title: 'Success' },
+  info: { icon: 'ℹ️', title: 'Information' },
+  danger: { icon: '❌', title: 'Error' }
+};
+
+// A notification on screen
+interface ShownNotification {
+  key: string;
+  type: NotificationType;
+  element: HTMLElement;
+  count: number;
+  duration: number | null;
+  remaining: number | null; // time left while paused
+  timerId: ReturnType<typeof setTimeout> | null;
+  startedAt: number;
+}
+
+export class Notifier {
+  private shown: ShownNotification[] = [];
+
+  constructor(
+    private container: HTMLElement,
+    private durations: NotificationDurations = DEFAULT_NOTIFICATION_DURATIONS,
+    private maxShown: number = MAX_NOTIFICATIONS
+  ) {
+    this.container.setAttribute('aria-live', 'polite');
+    this.container.setAttribute('aria-relevant', 'additions');
+  }
+
+  /**
+   * Show a notification, or count a repeat of one already showing
+   *
+   * Clicking an action runs its handler and dismisses the notification.
+   */
+  show(message: string, type: NotificationType, actions: MessageAction[] = []): void {
+    const key = `${type}\n${message}`;
+    const existing = this.shown.find(notification => notification.key === key);
+    if (existing) {
+      this.repeat(existing, actions);
+      return;
+    }
+
+    const baseDuration = this.durations[type];
+    const notification: ShownNotification = {
+      key,
+      type,
+      element: this.createElement(message, type),
+      count: 1,
+      duration: baseDuration !== null && actions.length > 0 ? baseDuration + ACTION_EXTRA_DURATION : baseDuration,
+      remaining: null,
+      timerId: null,
+      startedAt: 0
+    };
+    this.renderActions(notification, actions);
+    this.listen(notification);
+
+    this.shown.push(notification);
+    this.container.appendChild(notification.element);
+    this.startTimer(notification);
+    this.enforceLimit();
+  }
+
+  /**
+   * Count a repeated message, bring it to the bottom and restart its timer
+   */
+  private repeat(notification: ShownNotification, actions: MessageAction[]): void {
+    notification.count++;
+    const countEl = notification.element.querySelector<HTMLElement>('.notification-count');
+    if (countEl) {
+      countEl.textContent = `×${notification.count}`;
+      countEl.hidden = false;
+    }
+
+    // The newest actions win, e.g. "Undo" undoes the latest change
+    this.renderActions(notification, actions);
+
+    this.shown = [...this.shown.filter(shown => shown !== notification), notification];
+    this.container.appendChild(notification.element);
+    if (notification.remaining !== null) {
+      notification.remaining = notification.duration; // Still paused: start over once resumed
+    } else {
+      this.startTimer(notification);
+    }
+  }
+
+  /**
+   * Build a notification's element (text is set with textContent only)
+   */
+  private createElement(message: string, type: NotificationType): HTMLElement {
+    const { icon, title } = NOTIFICATION_TITLES[type];
+    const element = DOMUtils.createElement('div', {
+      class: `notification notification-${type}`,
+      role: type === 'danger' ? 'alert' : 'status'
+    });
+
+    const header = DOMUtils.createElement('div', { class: 'notification-header' });
+    header.appendChild(DOMUtils.createElement('span', { 'aria-hidden': 'true' }, icon));
+    header.appendChild(DOMUtils.createElement('strong', { class: 'notification-title' }, title));
+    const countEl = DOMUtils.createElement('span', { class: 'notification-count' });
+    countEl.hidden = true;
+    header.appendChild(countEl);
+    header.appendChild(DOMUtils.createElement('button', {
+      type: 'button',
+      class: 'notification-close',
+      'aria-label': 'Dismiss notification',
+      'data-action': 'dismiss'
+    }, '×'));
+
+    element.appendChild(header);
+    element.appendChild(DOMUtils.createElement('p', { class: 'notification-message' }, message));
+    element.appendChild(DOMUtils.createElement('div', { class: 'notification-actions' }));
+    return element;
+  }
+
+  /**
+   * Replace a notification's action buttons
+   */
+  private renderActions(notification: ShownNotification, actions: MessageAction[]): void {
+    const actionsEl = notification.element.querySelector<HTMLElement>('.notification-actions');
+    if (!actionsEl) return;
+
+    actionsEl.replaceChildren(...actions.map(action => {
+      const button = DOMUtils.createElement('button', { type: 'button', class: 'btn btn-sm btn-outline-light' }, action.label);
+      button.addEventListener('click', () => {
+        this.dismiss(notification);
+        action.handler();
+      });
+      return button;
+    }));
+    actionsEl.hidden = actions.length === 0;
+  }
+
+  /**
+   * Wire up the close button, and pause the timer while the pointer or focus is on the notification
+   */
+  private listen(notification: ShownNotification): void {
+    const { element } = notification;
+    element.querySelector('[data-action="dismiss"]')?.addEventListener('click', () => this.dismiss(notification));
+    element.addEventListener('mouseenter', () => this.pauseTimer(notification));
+    element.addEventListener('mouseleave', () => {
+      if (!element.contains(document.activeElement)) {
+        this.resumeTimer(notification);
+      }
+    });
+    element.addEventListener('focusin', () => this.pauseTimer(notification));
+    element.addEventListener('focusout', event => {
+      if (!element.contains(event.relatedTarget as Node | null) && !element.matches(':hover')) {
+        this.resumeTimer(notification);
+      }
+    });
+  }
+
+  /**
+   * Dismiss a notification once its duration is up (never for a null duration)
+   */
+  private startTimer(notification: ShownNotification): void {
+    this.stopTimer(notification);
+    notification.remaining = null;
+    if (notification.duration === null) return;
+
+    notification.startedAt = Date.now();
+    notification.timerId = setTimeout(() => this.dismiss(notification), notification.duration);
+  }
+
+  /**
+   * Stop a notification's timer without dismissing it
+   */
+  private stopTimer(notification: ShownNotification): void {
+    if (notification.timerId !== null) {
+      clearTimeout(notification.timerId);
+      notification.timerId = null;
+    }
+  }
+
+  /**
+   * Hold a notification open, keeping the time it had left
+   */
+  private pauseTimer(notification: ShownNotification): void {
+    if (notification.timerId === null) return;
+
+    const elapsed = Date.now() - notification.startedAt;
+    const remaining = Math.max(0, (notification.duration ?? 0) - elapsed);
+    this.stopTimer(notification);
+    notification.remaining = remaining;
+  }
+
+  /**
+   * Let a paused notification run out its remaining time
+   */
+  private resumeTimer(notification: ShownNotification): void {
+    if (notification.remaining === null) return;
+
+    const remaining = notification.remaining;
+    notification.remaining = null;
+    notification.startedAt = Date.now() - ((notification.duration ?? 0) - remaining);
+    notification.timerId = setTimeout(() => this.dismiss(notification), remaining);
+  }
+
+  /**
+   * Drop the oldest notifications beyond the limit, keeping errors as long as possible
+   */
+  private enforceLimit(): void {
+    while (this.shown.length > this.maxShown) {
+      const oldest = this.shown.find(notification => notification.type !== 'danger') ?? this.shown[0]!;
+      this.dismiss(oldest);
+    }
+  }
+
+  /**
+   * Take a notification off screen
+   */
+  private dismiss(notification: ShownNotification): void {
+    if (!this.shown.includes(notification)) return;
+
+    this.stopTimer(notification);
+    this.shown = this.shown.filter(shown => shown !== notification);
+
+    const { element } = notification;
+    element.classList.add('notification-leaving');
+    setTimeout(() => element.remove(), EXIT_DELAY);
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Recurrence rules and next-occurrence calculation for repeating todos
+ */
+
+import { RecurrenceRule, RECURRENCE_FREQUENCIES, ValidationError } from './types.js';
+
+// Short weekday names, indexed like Date.getDay()
+export const WEEKDAY_NAMES: readonly string[] = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Longest interval allowed for 'after-completion' rules
+export const MAX_RECURRENCE_DAYS = 365;
+
+/**
+ * Validate a recurrence rule and return a normalized copy
+ *
+ * Weekdays are deduplicated and sorted so equal rules compare equal.
+ */
+export function validateRecurrence(rule: unknown): RecurrenceRule {
+  const candidate = rule as Partial<Record<string, unknown>> | null;
+
+  if (typeof candidate !== 'object' || candidate === null) {
+    throw new ValidationError('Recurrence rule must be an object');
+  }
+
+  switch (candidate.frequency) {
+    case 'daily':
+      return { frequency: 'daily' };
+
+    case 'weekly': {
+      const weekdays = candidate.weekdays;
+      if (
+        !Array.isArray(weekdays) ||
+        weekdays.length === 0 ||
+        !weekdays.every(day => Number.isInteger(day) && day >= 0 && day <= 6)
+      ) {
+        throw new ValidationError('Weekly recurrence needs at least one weekday (0 = Sunday to 6 = Saturday)');
+      }
+      return { frequency: 'weekly', weekdays: [...new Set(weekdays as number[])].sort((a, b) => a - b) };
+    }
+
+    case 'monthly': {
+      const dayOfMonth = candidate.dayOfMonth;
+      if (!Number.isInteger(dayOfMonth) || (dayOfMonth as number) < 1 || (dayOfMonth as number) > 31) {
+        throw new ValidationError('Monthly recurrence day must be between 1 and 31');
+      }
+      return { frequency: 'monthly', dayOfMonth: dayOfMonth as number };
+    }
+
+    case 'after-completion': {
+      const days = candidate.days;
+      if (!Number.isInteger(days) || (days as number) < 1 || (days as number) > MAX_RECURRENCE_DAYS) {
+        throw new ValidationError(`Recurrence interval must be between 1 and ${MAX_RECURRENCE_DAYS} days`);
+      }
+      return { frequency: 'after-completion', days: days as number };
+    }
+
+    default:
+      throw new ValidationError(`Invalid recurrence. Must be one of: ${RECURRENCE_FREQUENCIES.join(', ')}`);
+  }
+}
+
+/**
+ * Check whether a value is a valid recurrence rule
+ */
+export function isValidRecurrence(rule: unknown): rule is RecurrenceRule {
+  try {
+    validateRecurrence(rule);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calculate when the next occurrence of a repeating todo is due
+ *
+ * Fixed schedules (daily, weekly, monthly) step forward from the current due
+ * date, skipping any occurrences on or before the completion day, so finishing
+ * a late instance does not create another overdue one. 'after-completion'
+ * counts from the completion day. The time of day of `dueAt` is kept; without
+ * a due date the schedule starts from the completion day.
+ */
+export function getNextOccurrence(rule: RecurrenceRule, dueAt: Date | undefined, completedAt: Date): Date {
+  const anchor = dueAt ? new Date(dueAt) : startOfDay(completedAt);
+  const completionDay = startOfDay(completedAt).getTime();
+
+  if (rule.frequency === 'after-completion') {
+    const next = new Date(completedAt);
+    next.setHours(anchor.getHours(), anchor.getMinutes(), 0, 0);
+    next.setDate(next.getDate() + rule.days);
+    return next;
+  }
+
+  let next = stepOccurrence(rule, anchor);
+  while (startOfDay(next).getTime() <= completionDay) {
+    next = stepOccurrence(rule, next);
+  }
+  return next;
+}
+
+/**
+ * Describe a recurrence rule for display, e.g. "Weekly on Mon, Thu"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  switch (rule.frequency) {
+    case 'daily':
+      return 'Daily';
+    case 'weekly':
+      return `Weekly on ${rule.weekdays.map(day => WEEKDAY_NAMES[day]).join(', ')}`;
+    case 'monthly':
+      return `Monthly on day ${rule.dayOfMonth}`;
+    case 'after-completion':
+      return rule.days === 1 ? 'Every day after completion' : `Every ${rule.days} days after completion`;
+  }
+}
+
+/**
+ * Get the first occurrence of a fixed schedule after a date
+ */
+function stepOccurrence(rule: Exclude<RecurrenceRule, { frequency: 'after-completion' }>, from: Date): Date {
+  const next = new Date(from);
+
+  switch (rule.frequency) {
+    case 'daily':
+      next.setDate(next.getDate() + 1);
+      return next;
+
+    case 'weekly':
+      do {
+        next.setDate(next.getDate() + 1);
+      } while (!rule.weekdays.includes(next.getDay()));
+      return next;
+
+    case 'monthly': {
+      const sameMonth = withDayOfMonth(from, from.getFullYear(), from.getMonth(), rule.dayOfMonth);
+      if (sameMonth.getTime() > from.getTime()) {
+        return sameMonth;
+      }
+      return withDayOfMonth(from, from.getFullYear(), from.getMonth() + 1, rule.dayOfMonth);
+    }
+  }
+}
+
+/**
+ * Build a date in the given month with the time of `time`, clamping the day
+ * to the month's length (day 31 falls on the 30th in April)
+ */
+function withDayOfMonth(time: Date, year: number, month: number, day: number): Date {
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(day, daysInMonth), time.getHours(), time.getMinutes());
+}
+
+/**
+ * Midnight at the start of a date's day
+ */
+function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
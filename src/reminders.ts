@@ -0,0 +1,62 @@
+/**
+ * In-page reminders for todos whose due time passes while the app is open
+ */
+
+import { Todo } from './types.js';
+import { getDueTime } from './utils.js';
+
+// How often due times are checked, in milliseconds
+export const REMINDER_CHECK_INTERVAL = 30 * 1000;
+
+export class DueReminders {
+  private timerId: ReturnType<typeof setInterval> | null = null;
+  private lastCheck = Date.now();
+
+  constructor(
+    private getTodos: () => Todo[],
+    private onDue: (todos: Todo[]) => void,
+    private interval: number = REMINDER_CHECK_INTERVAL
+  ) {}
+
+  /**
+   * Start checking for todos that become due
+   *
+   * Todos that were already overdue when reminders started are not reported.
+   */
+  start(): void {
+    if (this.timerId !== null) return;
+
+    this.lastCheck = Date.now();
+    this.timerId = setInterval(() => this.check(), this.interval);
+  }
+
+  /**
+   * Stop checking for due todos
+   */
+  stop(): void {
+    if (this.timerId === null) return;
+
+    clearInterval(this.timerId);
+    this.timerId = null;
+  }
+
+  /**
+   * Report pending todos whose due time passed since the last check
+   */
+  check(now: Date = new Date()): Todo[] {
+    const from = this.lastCheck;
+    const to = now.getTime();
+    this.lastCheck = to;
+
+    const dueTodos = this.getTodos().filter(todo => {
+      const dueTime = getDueTime(todo);
+      return !todo.completed && dueTime !== null && dueTime > from && dueTime <= to;
+    });
+
+    if (dueTodos.length > 0) {
+      this.onDue(dueTodos);
+    }
+
+    return dueTodos;
+  }
+}
@@ -0,0 +1,391 @@
+/**
+ * Search query parsing and matching for todos
+ *
+ * Query syntax:
+ *   milk bread          both words (implicit AND)
+ *   "buy milk"          exact phrase
+ *   milk OR bread       either side; AND binds tighter than OR
+ *   -milk, NOT milk     negation (also for groups: -(a OR b))
+ *   (a OR b) c          grouping
+ *   is:completed        also is:pending, is:overdue, is:recurring
+ *   tag:work, #work     todos with a tag
+ *   priority:high       todos with a priority
+ *   created:>2026-01-01 date predicates on created, updated and due, with
+ *   updated:<7d         >, >=, <, <=, = and either a date or an age (h, d, w, m, y)
+ */
+
+import {
+  Todo,
+  SearchNode,
+  SearchState,
+  SearchDateField,
+  SEARCH_STATES,
+  TODO_PRIORITIES,
+  TodoPriority,
+  ValidationError
+} from './types.js';
+import { isOverdue, normalizeTag, validateTag } from './utils.js';
+
+// Token produced by the query tokenizer
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'or' | 'not' }
+  | { kind: 'term'; field?: string; value: string };
+
+// Lowercased searchable text per todo; todos are immutable, so entries never go stale
+const searchTextCache = new WeakMap<Todo, string>();
+
+/**
+ * Parse a search query, returning null for an empty query
+ *
+ * Relative ages (e.g. `7d`) are resolved against `now`. Throws a
+ * ValidationError describing the first syntax error.
+ */
+export function parseQuery(query: string, now: Date = new Date()): SearchNode | null {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  let position = 0;
+  const peek = (): Token | undefined => tokens[position];
+
+  const parseOr = (): SearchNode => {
+    const nodes = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      position++;
+      nodes.push(parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0]! : { type: 'or', nodes };
+  };
+
+  const parseAnd = (): SearchNode => {
+    const nodes: SearchNode[] = [];
+    let token = peek();
+    while (token && token.kind !== 'or' && token.kind !== 'rparen') {
+      nodes.push(parseUnary());
+      token = peek();
+    }
+
+    if (nodes.length === 0) {
+      throw new ValidationError(token ? `Expected a search term before "${token.kind === 'or' ? 'OR' : ')'}"` : 'Expected a search term');
+    }
+    return nodes.length === 1 ? nodes[0]! : { type: 'and', nodes };
+  };
+
+  const parseUnary = (): SearchNode => {
+    const token = tokens[position++];
+
+    if (!token) {
+      throw new ValidationError('Expected a search term');
+    }
+    if (token.kind === 'not') {
+      return { type: 'not', node: parseUnary() };
+    }
+    if (token.kind === 'lparen') {
+      const node = parseOr();
+      if (peek()?.kind !== 'rparen') {
+        throw new ValidationError('Missing closing parenthesis');
+      }
+      position++;
+      return node;
+    }
+    if (token.kind === 'term') {
+      return buildTerm(token.field, token.value, now);
+    }
+    throw new ValidationError('Expected a search term');
+  };
+
+  const node = parseOr();
+  if (position < tokens.length) {
+    throw new ValidationError('Unexpected ")"');
+  }
+  return node;
+}
+
+/**
+ * Check whether a todo matches a parsed query
+ */
+export function matchesQuery(todo: Todo, node: SearchNode, now: Date = new Date()): boolean {
+  switch (node.type) {
+    case 'text':
+      return getSearchText(todo).includes(node.value);
+    case 'is':
+      return matchesState(todo, node.value, now);
+    case 'tag':
+      return todo.tags.includes(node.value);
+    case 'priority':
+      return todo.priority === node.value;
+    case 'date': {
+      const time = getDateField(todo, node.field);
+      return time !== null && time >= node.from && time < node.to;
+    }
+    case 'not':
+      return !matchesQuery(todo, node.node, now);
+    case 'and':
+      return node.nodes.every(child => matchesQuery(todo, child, now));
+    case 'or':
+      return node.nodes.some(child => matchesQuery(todo, child, now));
+  }
+}
+
+/**
+ * Filter todos by a query string (an empty query matches everything)
+ */
+export function searchTodos(todos: Todo[], query: string, now: Date = new Date()): Todo[] {
+  const node = parseQuery(query, now);
+  return node ? todos.filter(todo => matchesQuery(todo, node, now)) : [...todos];
+}
+
+/**
+ * Collect the free-text terms of a query that should be highlighted
+ *
+ * Negated terms are left out, since they never appear in matching todos.
+ */
+export function getHighlightTerms(node: SearchNode | null): string[] {
+  if (!node) {
+    return [];
+  }
+
+  switch (node.type) {
+    case 'text':
+      return [node.value];
+    case 'and':
+    case 'or':
+      return [...new Set(node.nodes.flatMap(child => getHighlightTerms(child)))];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Find where terms occur in a text, as sorted, non-overlapping [start, end) ranges
+ */
+export function findMatchRanges(text: string, terms: string[]): Array<[number, number]> {
+  const haystack = text.toLowerCase();
+  const ranges: Array<[number, number]> = [];
+
+  terms.filter(term => term.length > 0).forEach(term => {
+    let index = haystack.indexOf(term);
+    while (index !== -1) {
+      ranges.push([index, index + term.length]);
+      index = haystack.indexOf(term, index + term.length);
+    }
+  });
+
+  ranges.sort((a, b) => a[0] - b[0] || b[1] - a[1]);
+
+  return ranges.reduce<Array<[number, number]>>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Split a query into tokens
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  const readQuoted = (): string => {
+    const end = query.indexOf('"', index + 1);
+    if (end === -1) {
+      throw new ValidationError('Unclosed quote in search');
+    }
+    const value = query.slice(index + 1, end);
+    index = end + 1;
+    return value;
+  };
+
+  const readBare = (): string => {
+    const start = index;
+    while (index < query.length && !/[\s()"]/.test(query[index]!)) {
+      index++;
+    }
+    return query.slice(start, index);
+  };
+
+  while (index < query.length) {
+    const char = query[index]!;
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '(') {
+      tokens.push({ kind: 'lparen' });
+      index++;
+    } else if (char === ')') {
+      tokens.push({ kind: 'rparen' });
+      index++;
+    } else if (char === '-' && index + 1 < query.length && !/\s/.test(query[index + 1]!)) {
+      tokens.push({ kind: 'not' });
+      index++;
+    } else if (char === '"') {
+      tokens.push({ kind: 'term', value: readQuoted() });
+    } else {
+      const word = readBare();
+      const fieldMatch = /^([a-z]+):(.*)$/i.exec(word);
+
+      if (word === 'OR' || word === '|') {
+        tokens.push({ kind: 'or' });
+      } else if (word === 'NOT') {
+        tokens.push({ kind: 'not' });
+      } else if (word === 'AND') {
+        // AND is implicit between terms
+      } else if (fieldMatch) {
+        const value = fieldMatch[2] === '' && query[index] === '"' ? readQuoted() : fieldMatch[2]!;
+        tokens.push({ kind: 'term', field: fieldMatch[1]!.toLowerCase(), value });
+      } else {
+        tokens.push({ kind: 'term', value: word });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Build the node for a single (possibly field-qualified) term
+ */
+function buildTerm(field: string | undefined, value: string, now: Date): SearchNode {
+  if (field === undefined) {
+    if (/^#./.test(value)) {
+      return buildTerm('tag', value, now);
+    }
+    if (value.trim().length === 0) {
+      throw new ValidationError('Search phrase cannot be empty');
+    }
+    return { type: 'text', value: value.toLowerCase() };
+  }
+
+  switch (field) {
+    case 'is': {
+      const state = value.toLowerCase() as SearchState;
+      if (!SEARCH_STATES.includes(state)) {
+        throw new ValidationError(`Invalid "is:" value. Must be one of: ${SEARCH_STATES.join(', ')}`);
+      }
+      return { type: 'is', value: state };
+    }
+
+    case 'tag': {
+      const tag = normalizeTag(value);
+      validateTag(tag);
+      return { type: 'tag', value: tag };
+    }
+
+    case 'priority': {
+      const priority = value.toLowerCase() as TodoPriority;
+      if (!TODO_PRIORITIES.includes(priority)) {
+        throw new ValidationError(`Invalid priority. Must be one of: ${TODO_PRIORITIES.join(', ')}`);
+      }
+      return { type: 'priority', value: priority };
+    }
+
+    case 'created':
+    case 'updated':
+    case 'due':
+      return { type: 'date', field, ...parseDateRange(field, value, now) };
+
+    default:
+      // Not a known field, so search for the text as typed (e.g. "re:meeting")
+      return { type: 'text', value: `${field}:${value}`.toLowerCase() };
+  }
+}
+
+/**
+ * Turn a date predicate value like ">2026-01-01" or "<7d" into a time range
+ *
+ * Dates cover their whole day. Ages count back from now, so "<7d" means
+ * "less than 7 days ago" and ">7d" means "more than 7 days ago".
+ */
+function parseDateRange(field: SearchDateField, value: string, now: Date): { from: number; to: number } {
+  const match = /^(>=|<=|>|<|=)?(.+)$/.exec(value);
+  const operator = match?.[1] ?? '=';
+  const operand = match?.[2] ?? '';
+
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(operand);
+  if (dateMatch) {
+    const [, year, month, day] = dateMatch.map(Number) as [number, number, number, number];
+    const start = new Date(year, month - 1, day);
+    if (start.getFullYear() !== year || start.getMonth() !== month - 1 || start.getDate() !== day) {
+      throw new ValidationError(`Invalid date "${operand}" in ${field}:`);
+    }
+    const end = new Date(year, month - 1, day + 1);
+
+    switch (operator) {
+      case '>': return { from: end.getTime(), to: Infinity };
+      case '>=': return { from: start.getTime(), to: Infinity };
+      case '<': return { from: -Infinity, to: start.getTime() };
+      case '<=': return { from: -Infinity, to: end.getTime() };
+      default: return { from: start.getTime(), to: end.getTime() };
+    }
+  }
+
+  const ageMatch = /^(\d+)([hdwmy])$/.exec(operand);
+  if (ageMatch) {
+    const amount = Number(ageMatch[1]);
+    const point = new Date(now);
+    switch (ageMatch[2]) {
+      case 'h': point.setHours(point.getHours() - amount); break;
+      case 'd': point.setDate(point.getDate() - amount); break;
+      case 'w': point.setDate(point.getDate() - amount * 7); break;
+      case 'm': point.setMonth(point.getMonth() - amount); break;
+      case 'y': point.setFullYear(point.getFullYear() - amount); break;
+    }
+
+    switch (operator) {
+      case '<':
+      case '<=':
+        return { from: point.getTime(), to: Infinity };
+      case '>':
+      case '>=':
+        return { from: -Infinity, to: point.getTime() };
+      default: {
+        const start = new Date(point.getFullYear(), point.getMonth(), point.getDate());
+        const end = new Date(point.getFullYear(), point.getMonth(), point.getDate() + 1);
+        return { from: start.getTime(), to: end.getTime() };
+      }
+    }
+  }
+
+  throw new ValidationError(`Invalid ${field}: value "${value}". Use a date like 2026-01-01 or an age like 7d`);
+}
+
+/**
+ * Check a todo against an `is:` state
+ */
+function matchesState(todo: Todo, state: SearchState, now: Date): boolean {
+  switch (state) {
+    case 'completed': return todo.completed;
+    case 'pending': return !todo.completed;
+    case 'overdue': return isOverdue(todo, now);
+    case 'recurring': return todo.recurrence !== undefined;
+  }
+}
+
+/**
+ * Get the timestamp a date predicate compares against
+ */
+function getDateField(todo: Todo, field: SearchDateField): number | null {
+  switch (field) {
+    case 'created': return todo.createdAt.getTime();
+    case 'updated': return todo.updatedAt.getTime();
+    case 'due': return todo.dueAt ? todo.dueAt.getTime() : null;
+  }
+}
+
+/**
+ * Get the lowercased text and tags free-text terms are matched against
+ */
+function getSearchText(todo: Todo): string {
+  let text = searchTextCache.get(todo);
+  if (text === undefined) {
+    text = [todo.text, ...todo.tags.map(tag => `#${tag}`)].join('\n').toLowerCase();
+    searchTextCache.set(todo, text);
+  }
+  return text;
+}
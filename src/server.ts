@@ -0,0 +1,373 @@
+/**
+ * Local HTTP API exposing a TodoList as JSON
+ *
+ * Routes:
+ *   GET    /todos                  todos (?filter=pending, ?search=query)
+ *   POST   /todos                  add a todo
+ *   GET    /todos/:id              one todo
+ *   PATCH  /todos/:id              update a todo
+ *   DELETE /todos/:id              delete a todo and its subtasks
+ *   POST   /todos/clear-completed  delete completed todos
+ *   GET    /stats                  counts of total, completed and pending todos
+ *
+ * Every todo and todo collection has an ETag. Send it back in `If-Match` to
+ * change or delete only what you read; a 412 means someone changed it since.
+ * Errors are `{ "error": { "type", "code", "message" } }` with the
+ * TodoError code.
+ */
+
+import { createServer, IncomingMessage, ServerResponse, Server } from 'node:http';
+import { createHash } from 'node:crypto';
+import {
+  Todo,
+  TodoUpdates,
+  TodoFilter,
+  TODO_FILTERS,
+  TodoError,
+  ValidationError,
+  StorageError
+} from './types.js';
+import { TodoList } from './TodoList.js';
+import { StorageUtils, filterTodos, sortTodos, parseDueDate } from './utils.js';
+import { searchTodos } from './search.js';
+
+// Largest request body accepted, in bytes
+const MAX_BODY_SIZE = 1024 * 1024;
+
+// Fields accepted when adding and when updating a todo
+const CREATE_FIELDS = ['text', 'parentId', 'dueAt', 'dueAllDay', 'priority', 'tags', 'recurrence'];
+const UPDATE_FIELDS = ['text', 'completed', 'dueAt', 'dueAllDay', 'priority', 'tags', 'recurrence'];
+
+/**
+ * Error answered with a specific HTTP status
+ */
+export class HttpError extends TodoError {
+  constructor(public status: number, code: string, message: string) {
+    super(message, code);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Create an HTTP server for a todo list (call `listen()` to start it)
+ */
+export function createTodoServer(todoList: TodoList): Server {
+  return createServer((request, response) => {
+    handleRequest(todoList, request, response).catch(error => sendError(response, error));
+  });
+}
+
+/**
+ * Route a request to its handler
+ */
+async function handleRequest(todoList: TodoList, request: IncomingMessage, response: ServerResponse): Promise<void> {
+  await todoList.whenReady();
+
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  const segments = url.pathname.split('/').filter(Boolean).map(segment => {
+    try {
+      return decodeURIComponent(segment);
+    } catch (error) {
+      throw new ValidationError(`Invalid URL path: ${url.pathname}`);
+    }
+  });
+  const method = request.method ?? 'GET';
+
+  if (segments.length === 1 && segments[0] === 'todos') {
+    if (method === 'GET') {
+      return listTodos(todoList, url, request, response);
+    }
+    if (method === 'POST') {
+      return addTodo(todoList, request, response);
+    }
+    return methodNotAllowed(response, ['GET', 'POST']);
+  }
+
+  if (segments.length === 2 && segments[0] === 'todos' && segments[1] === 'clear-completed') {
+    if (method === 'POST') {
+      return clearCompleted(todoList, request, response);
+    }
+    return methodNotAllowed(response, ['POST']);
+  }
+
+  if (segments.length === 2 && segments[0] === 'todos') {
+    const id = segments[1]!;
+    if (method === 'GET') {
+      return getTodo(todoList, id, request, response);
+    }
+    if (method === 'PATCH') {
+      return updateTodo(todoList, id, request, response);
+    }
+    if (method === 'DELETE') {
+      return deleteTodo(todoList, id, request, response);
+    }
+    return methodNotAllowed(response, ['GET', 'PATCH', 'DELETE']);
+  }
+
+  if (segments.length === 1 && segments[0] === 'stats') {
+    if (method === 'GET') {
+      return sendJson(response, 200, todoList.getStats());
+    }
+    return methodNotAllowed(response, ['GET']);
+  }
+
+  throw new HttpError(404, 'NOT_FOUND', `No route for ${url.pathname}`);
+}
+
+/**
+ * GET /todos
+ */
+function listTodos(todoList: TodoList, url: URL, request: IncomingMessage, response: ServerResponse): void {
+  const filter = url.searchParams.get('filter') ?? 'all';
+  if (!TODO_FILTERS.includes(filter as TodoFilter)) {
+    throw new ValidationError(`Invalid filter. Must be one of: ${TODO_FILTERS.join(', ')}`);
+  }
+
+  const filtered = filterTodos(todoList.getAllTodos(), filter as TodoFilter);
+  const todos = sortTodos(searchTodos(filtered, url.searchParams.get('search') ?? ''), todoList.getCurrentSort());
+  sendTodos(request, response, 200, todos, etagFor(todos));
+}
+
+/**
+ * POST /todos
+ */
+async function addTodo(todoList: TodoList, request: IncomingMessage, response: ServerResponse): Promise<void> {
+  const body = await readBody(request);
+  const { text, ...details } = toTodoUpdates(body, CREATE_FIELDS);
+  const parentId = body.parentId;
+
+  if (typeof text !== 'string') {
+    throw new ValidationError('Todo text is required');
+  }
+  if (parentId !== undefined && typeof parentId !== 'string') {
+    throw new ValidationError('parentId must be a string');
+  }
+  if (parentId !== undefined && !todoList.getTodoById(parentId)) {
+    throw new HttpError(404, 'NOT_FOUND', `Parent todo not found: ${parentId}`);
+  }
+
+  const todo = parentId !== undefined ? todoList.addSubtask(parentId, text, details) : todoList.addTodo(text, details);
+  await todoList.flush();
+
+  response.setHeader('Location', `/todos/${encodeURIComponent(todo.id)}`);
+  sendTodos(request, response, 201, todo, etagFor([todo]));
+}
+
+/**
+ * GET /todos/:id
+ */
+function getTodo(todoList: TodoList, id: string, request: IncomingMessage, response: ServerResponse): void {
+  const todo = requireTodo(todoList, id);
+  sendTodos(request, response, 200, todo, etagFor([todo]));
+}
+
+/**
+ * PATCH /todos/:id
+ */
+async function updateTodo(todoList: TodoList, id: string, request: IncomingMessage, response: ServerResponse): Promise<void> {
+  const current = requireTodo(todoList, id);
+  checkPrecondition(request, etagFor([current]));
+
+  const updates = toTodoUpdates(await readBody(request), UPDATE_FIELDS);
+  // The todo may have changed while the body was read
+  checkPrecondition(request, etagFor([requireTodo(todoList, id)]));
+
+  const todo = todoList.updateTodo(id, updates) ?? current;
+  await todoList.flush();
+  sendTodos(request, response, 200, todo, etagFor([todo]));
+}
+
+/**
+ * DELETE /todos/:id
+ */
+async function deleteTodo(todoList: TodoList, id: string, request: IncomingMessage, response: ServerResponse): Promise<void> {
+  checkPrecondition(request, etagFor([requireTodo(todoList, id)]));
+
+  todoList.deleteTodo(id);
+  await todoList.flush();
+  response.writeHead(204).end();
+}
+
+/**
+ * POST /todos/clear-completed
+ *
+ * `If-Match` takes the ETag of the unfiltered GET /todos.
+ */
+async function clearCompleted(todoList: TodoList, request: IncomingMessage, response: ServerResponse): Promise<void> {
+  checkPrecondition(request, etagFor(sortTodos(todoList.getAllTodos(), todoList.getCurrentSort())));
+
+  const deleted = todoList.deleteCompletedTodos();
+  await todoList.flush();
+  sendJson(response, 200, { deleted });
+}
+
+/**
+ * Find a todo or answer 404
+ */
+function requireTodo(todoList: TodoList, id: string): Todo {
+  const todo = todoList.getTodoById(id);
+  if (!todo) {
+    throw new HttpError(404, 'NOT_FOUND', `Todo not found: ${id}`);
+  }
+  return todo;
+}
+
+/**
+ * Turn a request body into todo updates, converting JSON values to their todo types
+ *
+ * Fields outside `fields` are rejected and `parentId` is left to the caller;
+ * the values themselves are validated by TodoList.
+ */
+function toTodoUpdates(body: Record<string, unknown>, fields: string[]): TodoUpdates {
+  const unknownField = Object.keys(body).find(key => !fields.includes(key));
+  if (unknownField) {
+    throw new ValidationError(`Unknown field "${unknownField}"`);
+  }
+
+  const { dueAt, tags, ...rest } = body;
+  delete rest.parentId;
+  const updates = rest as TodoUpdates;
+
+  if (updates.dueAllDay !== undefined && typeof updates.dueAllDay !== 'boolean') {
+    throw new ValidationError('dueAllDay must be true or false');
+  }
+
+  if (dueAt === null) {
+    updates.dueAt = null;
+  } else if (typeof dueAt === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(dueAt)) {
+    // A date without a time is all-day in local time, as in the CLI and the app
+    const due = parseDueDate(dueAt)!;
+    updates.dueAt = due.dueAt;
+    if (updates.dueAllDay === undefined) {
+      updates.dueAllDay = due.dueAllDay;
+    }
+  } else if (dueAt !== undefined) {
+    const date = typeof dueAt === 'string' ? new Date(dueAt) : null;
+    if (!date || isNaN(date.getTime())) {
+      throw new ValidationError('dueAt must be an ISO 8601 date string or null');
+    }
+    updates.dueAt = date;
+  }
+
+  if (tags !== undefined) {
+    if (!Array.isArray(tags) || !tags.every(tag => typeof tag === 'string')) {
+      throw new ValidationError('tags must be an array of strings');
+    }
+    updates.tags = tags;
+  }
+
+  return updates;
+}
+
+/**
+ * Read a JSON object request body
+ */
+export async function readBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_SIZE) {
+      throw new HttpError(413, 'PAYLOAD_TOO_LARGE', `Request body cannot exceed ${MAX_BODY_SIZE} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch (error) {
+    throw new ValidationError('Request body must be valid JSON');
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ValidationError('Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Compute the ETag of one or more todos
+ */
+function etagFor(todos: Todo[]): string {
+  const hash = createHash('sha1');
+  todos.forEach(todo => hash.update(StorageUtils.fingerprint(todo)).update('\n'));
+  return `"${hash.digest('base64url')}"`;
+}
+
+/**
+ * Answer 412 unless the request's If-Match header (if any) names the current ETag
+ */
+function checkPrecondition(request: IncomingMessage, etag: string): void {
+  const ifMatch = request.headers['if-match'];
+  if (ifMatch !== undefined && !etagMatches(ifMatch, etag)) {
+    throw new HttpError(412, 'PRECONDITION_FAILED', 'Changed since it was read (ETag mismatch); fetch it again and retry');
+  }
+}
+
+/**
+ * Check an If-Match or If-None-Match header against an ETag (strong comparison)
+ */
+function etagMatches(header: string, etag: string): boolean {
+  return header.split(',').map(value => value.trim()).some(value => value === '*' || value === etag);
+}
+
+/**
+ * Send todos (or a single todo) with their ETag, or 304 if the client has them
+ */
+function sendTodos(request: IncomingMessage, response: ServerResponse, status: number, body: Todo | Todo[], etag: string): void {
+  response.setHeader('ETag', etag);
+
+  const ifNoneMatch = request.headers['if-none-match'];
+  if (status === 200 && request.method === 'GET' && ifNoneMatch !== undefined && etagMatches(ifNoneMatch, etag)) {
+    response.writeHead(304).end();
+    return;
+  }
+
+  sendJson(response, status, Array.isArray(body) ? body.map(todo => StorageUtils.toStoredTodo(todo)) : StorageUtils.toStoredTodo(body));
+}
+
+/**
+ * Answer 405 with the methods a route allows
+ */
+function methodNotAllowed(response: ServerResponse, allowed: string[]): void {
+  response.setHeader('Allow', allowed.join(', '));
+  throw new HttpError(405, 'METHOD_NOT_ALLOWED', `Method not allowed. Use ${allowed.join(' or ')}`);
+}
+
+/**
+ * Send a JSON response
+ */
+export function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Send an error as JSON with the status for its type
+ */
+export function sendError(response: ServerResponse, error: unknown): void {
+  let status = 500;
+  if (error instanceof HttpError) {
+    status = error.status;
+  } else if (error instanceof ValidationError) {
+    status = 400;
+  }
+
+  if (!(error instanceof TodoError) || error instanceof StorageError) {
+    console.error('Todo API request failed:', error);
+  }
+  if (response.headersSent) {
+    response.end();
+    return;
+  }
+
+  sendJson(response, status, {
+    error: {
+      type: error instanceof Error ? error.name : 'Error',
+      code: error instanceof TodoError ? error.code : 'INTERNAL_ERROR',
+      message: error instanceof TodoError ? error.message : 'Internal server error'
+    }
+  });
+}
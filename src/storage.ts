@@ -0,0 +1,881 @@
+/**
+ * Storage backends implementing the TodoStorage interface
+ */
+
+import {
+  Todo,
+  StoredTodo,
+  TodoFilter,
+  TodoSort,
+  TagDefinition,
+  TodoHistoryState,
+  StoredActivityEntry,
+  StoredCompletionRecord,
+  TodoStorage,
+  TodoListsState,
+  TodoListsStorage,
+  QuarantinedData,
+  KeyValueStore,
+  StorageError,
+  STORAGE_KEYS,
+  STORAGE_NAMESPACE,
+  DEFAULT_SORT
+} from './types.js';
+import { StorageUtils } from './utils.js';
+import { parseStoredTodos, migrateStoredTodos, MigrationResult } from './migrations.js';
+
+/**
+ * Build a quarantine entry for data that could not be read
+ */
+function createQuarantineEntry(data: string, reason: string): QuarantinedData {
+  return { quarantinedAt: new Date().toISOString(), reason, data };
+}
+
+/**
+ * Describe why some todos were left out of a migration result
+ */
+function describeInvalidTodos(result: MigrationResult): string {
+  return `${result.invalid.length} stored todo${result.invalid.length === 1 ? ' was' : 's were'} unreadable`;
+}
+
+/**
+ * localStorage-backed storage (the default for the browser app)
+ *
+ * Any other store with the same getItem/setItem/removeItem interface can be
+ * passed in instead, e.g. the file-backed store used by the CLI.
+ */
+export class LocalStorageTodoStorage implements TodoStorage, TodoListsStorage {
+  constructor(
+    private namespace: string = STORAGE_NAMESPACE,
+    private store: KeyValueStore = localStorage
+  ) {}
+
+  /**
+   * Load todos from localStorage, upgrading older formats
+   *
+   * Data that cannot be read (in full or in part) is copied to the quarantine
+   * key before anything can overwrite it.
+   */
+  loadTodos(): Todo[] {
+    let serializedTodos: string | null = null;
+
+    try {
+      serializedTodos = this.store.getItem(this.key(STORAGE_KEYS.TODOS));
+      if (!serializedTodos) {
+        return [];
+      }
+
+      const result = parseStoredTodos(serializedTodos);
+      if (result.invalid.length > 0) {
+        this.quarantine(serializedTodos, describeInvalidTodos(result));
+      }
+      return result.todos.map((todo, index) => StorageUtils.fromStoredTodo(todo, index));
+    } catch (error) {
+      console.warn('Failed to load todos from localStorage:', error);
+      if (serializedTodos) {
+        this.quarantine(serializedTodos, error instanceof Error ? error.message : 'Unknown error');
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Save todos to localStorage
+   */
+  saveTodos(todos: Todo[]): void {
+    try {
+      this.store.setItem(this.key(STORAGE_KEYS.TODOS), StorageUtils.serializeTodos(todos));
+    } catch (error) {
+      throw new StorageError(`Failed to save todos to localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Load filter preference from localStorage
+   */
+  loadFilter(): TodoFilter {
+    try {
+      const filter = this.store.getItem(this.key(STORAGE_KEYS.FILTER));
+      return StorageUtils.isValidFilter(filter) ? filter : 'all';
+    } catch (error) {
+      console.warn('Failed to load filter from localStorage:', error);
+      return 'all';
+    }
+  }
+
+  /**
+   * Save filter preference to localStorage
+   */
+  saveFilter(filter: TodoFilter): void {
+    try {
+      this.store.setItem(this.key(STORAGE_KEYS.FILTER), filter);
+    } catch (error) {
+      throw new StorageError(`Failed to save filter to localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Load sort order from localStorage
+   */
+  loadSort(): TodoSort {
+    try {
+      return StorageUtils.parseSort(this.store.getItem(this.key(STORAGE_KEYS.SORT)));
+    } catch (error) {
+      console.warn('Failed to load sort order from localStorage:', error);
+      return { ...DEFAULT_SORT };
+    }
+  }
+
+  /**
+   * Save sort order to localStorage
+   */
+  saveSort(sort: TodoSort): void {
+    try {
+      this.store.setItem(this.key(STORAGE_KEYS.SORT), JSON.stringify(sort));
+    } catch (error) {
+      throw new StorageError(`Failed to save sort order to localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Load the tag registry from localStorage
+   */
+  loadTags(): TagDefinition[] {
+    try {
+      const serializedTags = this.store.getItem(this.key(STORAGE_KEYS.TAGS));
+      return serializedTags ? StorageUtils.parseTags(JSON.parse(serializedTags)) : [];
+    } catch (error) {
+      console.warn('Failed to load tags from localStorage:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save the tag registry to localStorage
+   */
+  saveTags(tags: TagDefinition[]): void {
+    try {
+      this.store.setItem(this.key(STORAGE_KEYS.TAGS), JSON.stringify(tags));
+    } catch (error) {
+      throw new StorageError(`Failed to save tags to localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Load undo/redo history from localStorage
+   */
+  loadHistory(): TodoHistoryState | null {
+    try {
+      const serializedHistory = this.store.getItem(this.key(STORAGE_KEYS.HISTORY));
+      return serializedHistory ? JSON.parse(serializedHistory) : null;
+    } catch (error) {
+      console.warn('Failed to load history from localStorage:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save undo/redo history to localStorage
+   */
+  saveHistory(history: TodoHistoryState): void {
+    try {
+      this.store.setItem(this.key(STORAGE_KEYS.HISTORY), JSON.stringify(history));
+    } catch (error) {
+      throw new StorageError(`Failed to save history to localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Load the activity log from localStorage
+   */
+  loadActivity(): StoredActivityEntry[] {
+    try {
+      const serializedActivity = this.store.getItem(this.key(STORAGE_KEYS.ACTIVITY));
+      const activity: unknown = serializedActivity ? JSON.parse(serializedActivity) : [];
+      return Array.isArray(activity) ? activity : [];
+    } catch (error) {
+      console.warn('Failed to load activity from localStorage:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save the activity log to localStorage
+   */
+  saveActivity(entries: StoredActivityEntry[]): void {
+    try {
+      this.store.setItem(this.key(STORAGE_KEYS.ACTIVITY), JSON.stringify(entries));
+    } catch (error) {
+      throw new StorageError(`Failed to save activity to localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Load the log of todos purged from the trash from localStorage
+   */
+  loadCompletionLog(): StoredCompletionRecord[] {
+    try {
+      const serializedLog = this.store.getItem(this.key(STORAGE_KEYS.COMPLETION_LOG));
+      const log: unknown = serializedLog ? JSON.parse(serializedLog) : [];
+      return Array.isArray(log) ? log : [];
+    } catch (error) {
+      console.warn('Failed to load the completion log from localStorage:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save the log of todos purged from the trash to localStorage
+   */
+  saveCompletionLog(records: StoredCompletionRecord[]): void {
+    try {
+      this.store.setItem(this.key(STORAGE_KEYS.COMPLETION_LOG), JSON.stringify(records));
+    } catch (error) {
+      throw new StorageError(`Failed to save the completion log to localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Load the set of todo lists from localStorage
+   */
+  loadLists(): TodoListsState | null {
+    try {
+      const serializedLists = this.store.getItem(this.key(STORAGE_KEYS.LISTS));
+      return serializedLists ? StorageUtils.parseLists(JSON.parse(serializedLists)) : null;
+    } catch (error) {
+      console.warn('Failed to load lists from localStorage:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save the set of todo lists to localStorage
+   */
+  saveLists(state: TodoListsState): void {
+    try {
+      this.store.setItem(this.key(STORAGE_KEYS.LISTS), JSON.stringify(state));
+    } catch (error) {
+      throw new StorageError(`Failed to save lists to localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Load data that was quarantined because it could not be read
+   */
+  loadQuarantine(): QuarantinedData[] {
+    try {
+      const serializedQuarantine = this.store.getItem(this.key(STORAGE_KEYS.QUARANTINE));
+      const quarantine = serializedQuarantine ? JSON.parse(serializedQuarantine) : [];
+      return Array.isArray(quarantine) ? quarantine : [];
+    } catch (error) {
+      console.warn('Failed to load quarantined data from localStorage:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Discard quarantined data
+   */
+  clearQuarantine(): void {
+    try {
+      this.store.removeItem(this.key(STORAGE_KEYS.QUARANTINE));
+    } catch (error) {
+      throw new StorageError(`Failed to clear quarantined data from localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Clear all todo data from localStorage (the set of lists is kept)
+   */
+  clearAll(): void {
+    try {
+      this.store.removeItem(this.key(STORAGE_KEYS.QUARANTINE));
+      this.store.removeItem(this.key(STORAGE_KEYS.TODOS));
+      this.store.removeItem(this.key(STORAGE_KEYS.FILTER));
+      this.store.removeItem(this.key(STORAGE_KEYS.HISTORY));
+      this.store.removeItem(this.key(STORAGE_KEYS.ACTIVITY));
+      this.store.removeItem(this.key(STORAGE_KEYS.COMPLETION_LOG));
+      this.store.removeItem(this.key(STORAGE_KEYS.SORT));
+      this.store.removeItem(this.key(STORAGE_KEYS.TAGS));
+      this.store.removeItem(this.key(STORAGE_KEYS.SYNC_OUTBOX));
+      this.store.removeItem(this.key(STORAGE_KEYS.SYNC_STATE));
+    } catch (error) {
+      throw new StorageError(`Failed to clear localStorage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Keep a copy of unreadable data under the quarantine key
+   */
+  private quarantine(data: string, reason: string): void {
+    try {
+      const entries = this.loadQuarantine();
+      if (entries.some(entry => entry.data === data)) {
+        return; // Already kept from an earlier load
+      }
+      entries.push(createQuarantineEntry(data, reason));
+      this.store.setItem(this.key(STORAGE_KEYS.QUARANTINE), JSON.stringify(entries));
+    } catch (error) {
+      console.error('Failed to quarantine unreadable todos:', error);
+    }
+  }
+
+  /**
+   * Build the full localStorage key for this namespace
+   */
+  private key(name: string): string {
+    return `${this.namespace}-${name}`;
+  }
+}
+
+/**
+ * In-memory storage for tests and headless use
+ */
+export class MemoryTodoStorage implements TodoStorage, TodoListsStorage {
+  private storedTodos: StoredTodo[] = [];
+  private filter: TodoFilter = 'all';
+  private sort: TodoSort = { ...DEFAULT_SORT };
+  private tags: TagDefinition[] = [];
+  private history: TodoHistoryState | null = null;
+  private activity: StoredActivityEntry[] = [];
+  private completionLog: StoredCompletionRecord[] = [];
+  private lists: TodoListsState | null = null;
+  private quarantined: QuarantinedData[] = [];
+
+  constructor(initialTodos: Todo[] = []) {
+    this.saveTodos(initialTodos);
+  }
+
+  /**
+   * Load todos from memory
+   */
+  loadTodos(): Todo[] {
+    return this.storedTodos.map((todo, index) => StorageUtils.fromStoredTodo(todo, index));
+  }
+
+  /**
+   * Save todos to memory
+   */
+  saveTodos(todos: Todo[]): void {
+    this.storedTodos = todos.map(todo => StorageUtils.toStoredTodo(todo));
+  }
+
+  /**
+   * Load filter preference from memory
+   */
+  loadFilter(): TodoFilter {
+    return this.filter;
+  }
+
+  /**
+   * Save filter preference to memory
+   */
+  saveFilter(filter: TodoFilter): void {
+    this.filter = filter;
+  }
+
+  /**
+   * Load sort order from memory
+   */
+  loadSort(): TodoSort {
+    return { ...this.sort };
+  }
+
+  /**
+   * Save sort order to memory
+   */
+  saveSort(sort: TodoSort): void {
+    this.sort = { ...sort };
+  }
+
+  /**
+   * Load the tag registry from memory
+   */
+  loadTags(): TagDefinition[] {
+    return this.tags.map(tag => ({ ...tag }));
+  }
+
+  /**
+   * Save the tag registry to memory
+   */
+  saveTags(tags: TagDefinition[]): void {
+    this.tags = tags.map(tag => ({ ...tag }));
+  }
+
+  /**
+   * Load undo/redo history from memory
+   */
+  loadHistory(): TodoHistoryState | null {
+    return this.history;
+  }
+
+  /**
+   * Save undo/redo history to memory
+   */
+  saveHistory(history: TodoHistoryState): void {
+    this.history = history;
+  }
+
+  /**
+   * Load the activity log from memory
+   */
+  loadActivity(): StoredActivityEntry[] {
+    return [...this.activity];
+  }
+
+  /**
+   * Save the activity log to memory
+   */
+  saveActivity(entries: StoredActivityEntry[]): void {
+    this.activity = [...entries];
+  }
+
+  /**
+   * Load the log of todos purged from the trash from memory
+   */
+  loadCompletionLog(): StoredCompletionRecord[] {
+    return [...this.completionLog];
+  }
+
+  /**
+   * Save the log of todos purged from the trash to memory
+   */
+  saveCompletionLog(records: StoredCompletionRecord[]): void {
+    this.completionLog = [...records];
+  }
+
+  /**
+   * Load the set of todo lists from memory
+   */
+  loadLists(): TodoListsState | null {
+    return this.lists ? StorageUtils.parseLists(this.lists) : null;
+  }
+
+  /**
+   * Save the set of todo lists to memory
+   */
+  saveLists(state: TodoListsState): void {
+    this.lists = StorageUtils.parseLists(state);
+  }
+
+  /**
+   * Load quarantined data from memory
+   */
+  loadQuarantine(): QuarantinedData[] {
+    return this.quarantined.map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Discard quarantined data
+   */
+  clearQuarantine(): void {
+    this.quarantined = [];
+  }
+
+  /**
+   * Clear all stored todo data (the set of lists is kept)
+   */
+  clearAll(): void {
+    this.quarantined = [];
+    this.storedTodos = [];
+    this.filter = 'all';
+    this.sort = { ...DEFAULT_SORT };
+    this.tags = [];
+    this.history = null;
+    this.activity = [];
+    this.completionLog = [];
+  }
+}
+
+// IndexedDB object store names
+const IDB_STORES = {
+  TODOS: 'todos',
+  SETTINGS: 'settings'
+} as const;
+
+// Persisted todo record with its position in the list
+interface IndexedDBTodoRecord extends StoredTodo {
+  position: number;
+}
+
+/**
+ * IndexedDB-backed storage for large lists
+ *
+ * Each todo is stored as its own record, so big lists are not limited by
+ * the localStorage quota. The database name doubles as the list's storage
+ * namespace: a SyncEngine keeps the list's outbox and sync state in
+ * `syncStore` under it, which is why clearAll removes them from there.
+ */
+export class IndexedDBTodoStorage implements TodoStorage, TodoListsStorage {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private databaseName: string = STORAGE_NAMESPACE,
+    private syncStore: KeyValueStore = localStorage
+  ) {}
+
+  /**
+   * Load todos from IndexedDB, upgrading older formats
+   *
+   * Records that cannot be read are copied to the quarantine before
+   * anything can overwrite them.
+   */
+  async loadTodos(): Promise<Todo[]> {
+    let records: IndexedDBTodoRecord[] = [];
+
+    try {
+      records = await this.request<IndexedDBTodoRecord[]>(IDB_STORES.TODOS, 'readonly', store => store.getAll());
+      // Data saved before the format was versioned has no version setting
+      const version = await this.request<number | undefined>(IDB_STORES.SETTINGS, 'readonly', store => store.get('version'));
+      const todos = [...records]
+        .sort((a, b) => a.position - b.position)
+        .map(({ position, ...todo }) => todo);
+
+      const result = migrateStoredTodos(version === undefined ? todos : { version, todos });
+      if (result.invalid.length > 0) {
+        await this.quarantine(JSON.stringify(result.invalid), describeInvalidTodos(result));
+      }
+      return result.todos.map((todo, index) => StorageUtils.fromStoredTodo(todo, index));
+    } catch (error) {
+      console.warn('Failed to load todos from IndexedDB:', error);
+      if (records.length > 0) {
+        await this.quarantine(JSON.stringify(records), error instanceof Error ? error.message : 'Unknown error');
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Replace all stored todos and their format version in a single transaction
+   */
+  async saveTodos(todos: Todo[]): Promise<void> {
+    try {
+      const envelope = StorageUtils.toEnvelope(todos);
+      const records: IndexedDBTodoRecord[] = envelope.todos.map((todo, position) => ({ ...todo, position }));
+
+      await this.transactionAcross([IDB_STORES.TODOS, IDB_STORES.SETTINGS], 'readwrite', transaction => {
+        const todoStore = transaction.objectStore(IDB_STORES.TODOS);
+        todoStore.clear();
+        records.forEach(record => todoStore.put(record));
+        transaction.objectStore(IDB_STORES.SETTINGS).put(envelope.version, 'version');
+      });
+    } catch (error) {
+      throw new StorageError('Failed to save todos to IndexedDB');
+    }
+  }
+
+  /**
+   * Load filter preference from IndexedDB
+   */
+  async loadFilter(): Promise<TodoFilter> {
+    try {
+      const filter = await this.request<unknown>(IDB_STORES.SETTINGS, 'readonly', store => store.get('filter'));
+      return StorageUtils.isValidFilter(filter) ? filter : 'all';
+    } catch (error) {
+      console.warn('Failed to load filter from IndexedDB:', error);
+      return 'all';
+    }
+  }
+
+  /**
+   * Save filter preference to IndexedDB
+   */
+  async saveFilter(filter: TodoFilter): Promise<void> {
+    try {
+      await this.transaction(IDB_STORES.SETTINGS, 'readwrite', store => {
+        store.put(filter, 'filter');
+      });
+    } catch (error) {
+      throw new StorageError('Failed to save filter to IndexedDB');
+    }
+  }
+
+  /**
+   * Load sort order from IndexedDB
+   */
+  async loadSort(): Promise<TodoSort> {
+    try {
+      const sort = await this.request<unknown>(IDB_STORES.SETTINGS, 'readonly', store => store.get('sort'));
+      return StorageUtils.isValidSort(sort) ? sort : { ...DEFAULT_SORT };
+    } catch (error) {
+      console.warn('Failed to load sort order from IndexedDB:', error);
+      return { ...DEFAULT_SORT };
+    }
+  }
+
+  /**
+   * Save sort order to IndexedDB
+   */
+  async saveSort(sort: TodoSort): Promise<void> {
+    try {
+      await this.transaction(IDB_STORES.SETTINGS, 'readwrite', store => {
+        store.put(sort, 'sort');
+      });
+    } catch (error) {
+      throw new StorageError('Failed to save sort order to IndexedDB');
+    }
+  }
+
+  /**
+   * Load the tag registry from IndexedDB
+   */
+  async loadTags(): Promise<TagDefinition[]> {
+    try {
+      const tags = await this.request<unknown>(IDB_STORES.SETTINGS, 'readonly', store => store.get('tags'));
+      return StorageUtils.parseTags(tags);
+    } catch (error) {
+      console.warn('Failed to load tags from IndexedDB:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save the tag registry to IndexedDB
+   */
+  async saveTags(tags: TagDefinition[]): Promise<void> {
+    try {
+      await this.transaction(IDB_STORES.SETTINGS, 'readwrite', store => {
+        store.put(tags, 'tags');
+      });
+    } catch (error) {
+      throw new StorageError('Failed to save tags to IndexedDB');
+    }
+  }
+
+  /**
+   * Load undo/redo history from IndexedDB
+   */
+  async loadHistory(): Promise<TodoHistoryState | null> {
+    try {
+      const history = await this.request<TodoHistoryState | undefined>(IDB_STORES.SETTINGS, 'readonly', store => store.get('history'));
+      return history ?? null;
+    } catch (error) {
+      console.warn('Failed to load history from IndexedDB:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save undo/redo history to IndexedDB
+   */
+  async saveHistory(history: TodoHistoryState): Promise<void> {
+    try {
+      await this.transaction(IDB_STORES.SETTINGS, 'readwrite', store => {
+        store.put(history, 'history');
+      });
+    } catch (error) {
+      throw new StorageError('Failed to save history to IndexedDB');
+    }
+  }
+
+  /**
+   * Load the activity log from IndexedDB
+   */
+  async loadActivity(): Promise<StoredActivityEntry[]> {
+    try {
+      const activity = await this.request<unknown>(IDB_STORES.SETTINGS, 'readonly', store => store.get('activity'));
+      return Array.isArray(activity) ? activity : [];
+    } catch (error) {
+      console.warn('Failed to load activity from IndexedDB:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save the activity log to IndexedDB
+   */
+  async saveActivity(entries: StoredActivityEntry[]): Promise<void> {
+    try {
+      await this.transaction(IDB_STORES.SETTINGS, 'readwrite', store => {
+        store.put(entries, 'activity');
+      });
+    } catch (error) {
+      throw new StorageError('Failed to save activity to IndexedDB');
+    }
+  }
+
+  /**
+   * Load the log of todos purged from the trash from IndexedDB
+   */
+  async loadCompletionLog(): Promise<StoredCompletionRecord[]> {
+    try {
+      const log = await this.request<unknown>(IDB_STORES.SETTINGS, 'readonly', store => store.get('completion-log'));
+      return Array.isArray(log) ? log : [];
+    } catch (error) {
+      console.warn('Failed to load the completion log from IndexedDB:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save the log of todos purged from the trash to IndexedDB
+   */
+  async saveCompletionLog(records: StoredCompletionRecord[]): Promise<void> {
+    try {
+      await this.transaction(IDB_STORES.SETTINGS, 'readwrite', store => {
+        store.put(records, 'completion-log');
+      });
+    } catch (error) {
+      throw new StorageError('Failed to save the completion log to IndexedDB');
+    }
+  }
+
+  /**
+   * Load the set of todo lists from IndexedDB
+   */
+  async loadLists(): Promise<TodoListsState | null> {
+    try {
+      const lists = await this.request<unknown>(IDB_STORES.SETTINGS, 'readonly', store => store.get('lists'));
+      return lists ? StorageUtils.parseLists(lists) : null;
+    } catch (error) {
+      console.warn('Failed to load lists from IndexedDB:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save the set of todo lists to IndexedDB
+   */
+  async saveLists(state: TodoListsState): Promise<void> {
+    try {
+      await this.transaction(IDB_STORES.SETTINGS, 'readwrite', store => {
+        store.put(state, 'lists');
+      });
+    } catch (error) {
+      throw new StorageError('Failed to save lists to IndexedDB');
+    }
+  }
+
+  /**
+   * Load quarantined data from IndexedDB
+   */
+  async loadQuarantine(): Promise<QuarantinedData[]> {
+    try {
+      const quarantine = await this.request<unknown>(IDB_STORES.SETTINGS, 'readonly', store => store.get('quarantine'));
+      return Array.isArray(quarantine) ? quarantine : [];
+    } catch (error) {
+      console.warn('Failed to load quarantined data from IndexedDB:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Discard quarantined data
+   */
+  async clearQuarantine(): Promise<void> {
+    try {
+      await this.transaction(IDB_STORES.SETTINGS, 'readwrite', store => {
+        store.delete('quarantine');
+      });
+    } catch (error) {
+      throw new StorageError('Failed to clear quarantined data from IndexedDB');
+    }
+  }
+
+  /**
+   * Clear all todo data from IndexedDB, and the list's sync outbox and state (the set of lists is kept)
+   */
+  async clearAll(): Promise<void> {
+    try {
+      await this.transactionAcross([IDB_STORES.TODOS, IDB_STORES.SETTINGS], 'readwrite', transaction => {
+        transaction.objectStore(IDB_STORES.TODOS).clear();
+        const settingsStore = transaction.objectStore(IDB_STORES.SETTINGS);
+        ['filter', 'sort', 'tags', 'history', 'activity', 'completion-log', 'version', 'quarantine'].forEach(key => settingsStore.delete(key));
+      });
+      this.syncStore.removeItem(`${this.databaseName}-${STORAGE_KEYS.SYNC_OUTBOX}`);
+      this.syncStore.removeItem(`${this.databaseName}-${STORAGE_KEYS.SYNC_STATE}`);
+    } catch (error) {
+      throw new StorageError('Failed to clear IndexedDB');
+    }
+  }
+
+  /**
+   * Keep a copy of unreadable records in the quarantine setting
+   */
+  private async quarantine(data: string, reason: string): Promise<void> {
+    try {
+      const entries = await this.loadQuarantine();
+      if (entries.some(entry => entry.data === data)) {
+        return; // Already kept from an earlier load
+      }
+      entries.push(createQuarantineEntry(data, reason));
+      await this.transaction(IDB_STORES.SETTINGS, 'readwrite', store => {
+        store.put(entries, 'quarantine');
+      });
+    } catch (error) {
+      console.error('Failed to quarantine unreadable todos:', error);
+    }
+  }
+
+  /**
+   * Open (or reuse) the database connection
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const openRequest = indexedDB.open(this.databaseName, 1);
+
+        openRequest.onupgradeneeded = () => {
+          const db = openRequest.result;
+          if (!db.objectStoreNames.contains(IDB_STORES.TODOS)) {
+            db.createObjectStore(IDB_STORES.TODOS, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(IDB_STORES.SETTINGS)) {
+            db.createObjectStore(IDB_STORES.SETTINGS);
+          }
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => reject(openRequest.error);
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  /**
+   * Run a single request against an object store and return its result
+   */
+  private async request<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.openDatabase();
+
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Run operations in a transaction on one object store and wait for it to complete
+   */
+  private transaction(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => void
+  ): Promise<void> {
+    return this.transactionAcross([storeName], mode, transaction => operation(transaction.objectStore(storeName)));
+  }
+
+  /**
+   * Run operations in a transaction spanning several object stores and wait for it to complete
+   */
+  private async transactionAcross(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    operation: (transaction: IDBTransaction) => void
+  ): Promise<void> {
+    const db = await this.openDatabase();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeNames, mode);
+      operation(transaction);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
@@ -0,0 +1,382 @@
+/**
+ * Offline-first synchronisation of a todo list with a sync server
+ *
+ * Local changes are found by comparing the list with a snapshot of what was
+ * last synced, and queued in a persistent outbox, so edits made offline (or
+ * while no engine was running) are pushed once the server can be reached.
+ * The server merges pushed changes field by field, keeping the newest value
+ * of each field by `updatedAt`, and keeps deleted todos as tombstones. Pulls
+ * bring the merged todos back; todos with changes still in the outbox are
+ * left alone until those changes have been pushed.
+ *
+ * Protocol (see syncServer.ts for the reference server):
+ *   POST {endpoint}/lists/:listId/changes          SyncPushRequest
+ *   GET  {endpoint}/lists/:listId/changes?since=N  SyncPullResponse
+ */
+
+import {
+  Todo,
+  StoredTodo,
+  KeyValueStore,
+  SyncChange,
+  SyncOutboxEntry,
+  SyncPullResponse,
+  SyncPushRequest,
+  SyncStatus,
+  SYNC_TODO_FIELDS,
+  STORAGE_KEYS
+} from './types.js';
+import { TodoList } from './TodoList.js';
+import { StorageUtils, generateId } from './utils.js';
+
+// Sync engine settings
+export interface SyncEngineOptions {
+  endpoint: string; // base URL of the sync server
+  listId: string; // the list's id on the server
+  store: KeyValueStore; // keeps the outbox and sync state (localStorage in the browser)
+  namespace: string; // storage namespace of the list
+  intervalMs?: number; // how often to pull while started
+  fetch?: typeof fetch;
+}
+
+// Persisted sync progress for one list
+interface SyncEngineState {
+  endpoint: string;
+  clientId: string;
+  cursor: number;
+  snapshot: Record<string, StoredTodo>; // todos as last pushed or pulled
+}
+
+// How often a started engine syncs, in milliseconds
+const DEFAULT_SYNC_INTERVAL = 30000;
+
+// Delay between a local change and pushing it, in milliseconds
+const PUSH_DELAY = 1000;
+
+export class SyncEngine {
+  private status: SyncStatus = { state: 'idle', pending: 0, lastSyncedAt: null, error: null };
+  private listeners = new Set<(status: SyncStatus) => void>();
+  private unsubscribe: (() => void) | null = null;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private pushTimerId: ReturnType<typeof setTimeout> | null = null;
+  private running: Promise<void> | null = null;
+  private rerun = false;
+  private applying = false;
+  private handleOnline = (): void => {
+    this.sync();
+  };
+
+  constructor(private todoList: TodoList, private options: SyncEngineOptions) {
+    this.status.pending = this.readOutbox().length;
+  }
+
+  /**
+   * Record local changes as they happen and sync now and then
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = this.todoList.on('*', (event) => {
+      if (this.applying || event.type === 'filter' || event.type === 'sort' || event.type === 'tags') return;
+
+      this.capture();
+      if (this.pushTimerId !== null) {
+        clearTimeout(this.pushTimerId);
+      }
+      this.pushTimerId = setTimeout(() => {
+        this.pushTimerId = null;
+        this.sync();
+      }, PUSH_DELAY);
+    });
+
+    this.intervalId = setInterval(() => this.sync(), this.options.intervalMs ?? DEFAULT_SYNC_INTERVAL);
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+    }
+    this.sync();
+  }
+
+  /**
+   * Stop syncing; queued changes stay in the outbox
+   */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.intervalId !== null) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    if (this.pushTimerId !== null) {
+      clearTimeout(this.pushTimerId);
+      this.pushTimerId = null;
+    }
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+    }
+  }
+
+  /**
+   * Push queued changes and pull the server's changes
+   *
+   * Never rejects; failures are reported through the status. A call made
+   * while a sync is running starts another one after it.
+   */
+  sync(): Promise<void> {
+    if (this.running) {
+      this.rerun = true;
+      return this.running;
+    }
+
+    this.running = this.runSync().finally(() => {
+      this.running = null;
+      if (this.rerun) {
+        this.rerun = false;
+        this.sync();
+      }
+    });
+    return this.running;
+  }
+
+  /**
+   * Get the current sync status
+   */
+  getStatus(): SyncStatus {
+    return { ...this.status };
+  }
+
+  /**
+   * Subscribe to status changes
+   *
+   * Returns a function that removes the listener again.
+   */
+  onStatus(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * One push and pull round
+   */
+  private async runSync(): Promise<void> {
+    await this.todoList.whenReady();
+    this.capture();
+
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      this.setStatus({ state: 'offline', error: null });
+      return;
+    }
+
+    this.setStatus({ state: 'syncing', error: null });
+    try {
+      await this.push();
+      await this.pull();
+      this.setStatus({ state: 'idle', lastSyncedAt: new Date(), error: null });
+    } catch (error) {
+      // fetch rejects with a TypeError when the server cannot be reached
+      this.setStatus({
+        state: error instanceof TypeError ? 'offline' : 'error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Queue the differences between the list and the snapshot in the outbox
+   *
+   * State is read and written in one go, so tabs sharing the same storage do
+   * not queue the same change twice.
+   */
+  private capture(): void {
+    const state = this.readState();
+    const current = new Map(this.todoList.getAllTodos().map(todo => [todo.id, StorageUtils.toStoredTodo(todo)]));
+    const changes: SyncChange[] = [];
+
+    current.forEach((todo, id) => {
+      const previous = state.snapshot[id];
+      const fields = previous ? changedFields(previous, todo) : [...SYNC_TODO_FIELDS];
+      if (fields.length > 0) {
+        changes.push({ type: 'upsert', todo, fields });
+      }
+    });
+
+    // A trashed todo was deleted when it went to the trash; anything else is captured as it happens
+    const capturedAt = new Date().toISOString();
+    const trashed = new Map(this.todoList.getTrashedTodos().map(todo => [todo.id, todo.deletedAt!]));
+    Object.keys(state.snapshot).forEach(id => {
+      if (!current.has(id)) {
+        changes.push({ type: 'delete', id, deletedAt: trashed.get(id)?.toISOString() ?? capturedAt });
+      }
+    });
+
+    if (changes.length > 0) {
+      const outbox = [...this.readOutbox(), ...changes.map(change => ({ id: generateId(), change }))];
+      state.snapshot = Object.fromEntries(current);
+      this.writeState(state);
+      this.writeOutbox(outbox);
+    }
+    this.setStatus({ pending: this.readOutbox().length });
+  }
+
+  /**
+   * Send the outbox to the server and drop what it accepted
+   */
+  private async push(): Promise<void> {
+    const entries = this.readOutbox();
+    if (entries.length === 0) return;
+
+    const body: SyncPushRequest = { clientId: this.readState().clientId, changes: entries.map(entry => entry.change) };
+    await this.request('POST', '', body);
+
+    const pushedIds = new Set(entries.map(entry => entry.id));
+    this.writeOutbox(this.readOutbox().filter(entry => !pushedIds.has(entry.id)));
+    this.setStatus({ pending: this.readOutbox().length });
+  }
+
+  /**
+   * Apply the server's changes since the last pull
+   */
+  private async pull(): Promise<void> {
+    const since = this.readState().cursor;
+    const response = await this.request('GET', `?since=${since}`) as SyncPullResponse;
+
+    // Changes queued meanwhile win until they are pushed and merged
+    const pendingIds = new Set(this.readOutbox().map(({ change }) => change.type === 'upsert' ? change.todo.id : change.id));
+    const trashedIds = new Set(this.todoList.getTrashedTodos().map(todo => todo.id));
+    const upserts: Todo[] = [];
+    const deletedIds: string[] = [];
+
+    (response.records ?? []).forEach(record => {
+      if (pendingIds.has(record.id)) return;
+
+      if (record.todo === null) {
+        // Todos already deleted here stay in this device's trash
+        if (!trashedIds.has(record.id)) {
+          deletedIds.push(record.id);
+        }
+      } else if (StorageUtils.isValidStoredTodo(record.todo)) {
+        upserts.push(StorageUtils.fromStoredTodo(record.todo));
+      }
+    });
+
+    if (upserts.length > 0 || deletedIds.length > 0) {
+      this.applying = true;
+      try {
+        this.todoList.applyRemoteChanges(upserts, deletedIds);
+      } finally {
+        this.applying = false;
+      }
+    }
+
+    // Remember what was pulled as synced, as the list now has it
+    const state = this.readState();
+    [...upserts.map(todo => todo.id), ...deletedIds].forEach(id => {
+      const todo = this.todoList.getTodoById(id);
+      if (todo) {
+        state.snapshot[id] = StorageUtils.toStoredTodo(todo);
+      } else {
+        delete state.snapshot[id];
+      }
+    });
+    state.cursor = Number.isInteger(response.cursor) ? response.cursor : since;
+    this.writeState(state);
+  }
+
+  /**
+   * Call the sync server for this list, returning the parsed JSON answer
+   */
+  private async request(method: 'GET' | 'POST', query: string, body?: unknown): Promise<unknown> {
+    const fetchImpl = this.options.fetch ?? fetch;
+    const url = `${this.options.endpoint.replace(/\/+$/, '')}/lists/${encodeURIComponent(this.options.listId)}/changes${query}`;
+    const response = await fetchImpl(url, {
+      method,
+      headers: body === undefined ? {} : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      const message = payload?.error?.message ?? response.statusText;
+      throw new Error(`Sync server answered ${response.status}: ${message}`);
+    }
+    return payload;
+  }
+
+  /**
+   * Update the status and notify listeners
+   */
+  private setStatus(changes: Partial<SyncStatus>): void {
+    const next = { ...this.status, ...changes };
+    if (JSON.stringify(next) === JSON.stringify(this.status)) return;
+
+    this.status = next;
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.getStatus());
+      } catch (error) {
+        console.error('Sync status listener failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Load the sync state, starting over when the endpoint changed
+   *
+   * Starting over empties the snapshot, so every todo is pushed again.
+   */
+  private readState(): SyncEngineState {
+    const state = this.readJson<SyncEngineState>(STORAGE_KEYS.SYNC_STATE);
+    if (state && state.endpoint === this.options.endpoint && typeof state.clientId === 'string' && state.snapshot) {
+      return state;
+    }
+    return { endpoint: this.options.endpoint, clientId: state?.clientId ?? generateId(), cursor: 0, snapshot: {} };
+  }
+
+  /**
+   * Save the sync state
+   */
+  private writeState(state: SyncEngineState): void {
+    this.options.store.setItem(this.key(STORAGE_KEYS.SYNC_STATE), JSON.stringify(state));
+  }
+
+  /**
+   * Load the queued changes
+   */
+  private readOutbox(): SyncOutboxEntry[] {
+    const outbox = this.readJson<SyncOutboxEntry[]>(STORAGE_KEYS.SYNC_OUTBOX);
+    return Array.isArray(outbox) ? outbox : [];
+  }
+
+  /**
+   * Save the queued changes
+   */
+  private writeOutbox(outbox: SyncOutboxEntry[]): void {
+    this.options.store.setItem(this.key(STORAGE_KEYS.SYNC_OUTBOX), JSON.stringify(outbox));
+  }
+
+  /**
+   * Read a JSON value from the store, or null if it is missing or unreadable
+   */
+  private readJson<T>(name: string): T | null {
+    try {
+      const serialized = this.options.store.getItem(this.key(name));
+      return serialized ? JSON.parse(serialized) as T : null;
+    } catch (error) {
+      console.warn(`Failed to read ${name}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Build the full storage key for this list's namespace
+   */
+  private key(name: string): string {
+    return `${this.options.namespace}-${name}`;
+  }
+}
+
+/**
+ * List the fields whose values differ between two versions of a todo
+ */
+function changedFields(before: StoredTodo, after: StoredTodo): Array<keyof StoredTodo> {
+  return SYNC_TODO_FIELDS.filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+}
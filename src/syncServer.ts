@@ -0,0 +1,233 @@
+/**
+ * Reference sync server for SyncEngine (run it with `todo sync-server`)
+ *
+ * Keeps every list's todos as records with a time per field. A pushed change
+ * sets the fields it changed unless the server already has a newer value for
+ * that field (by the todo's `updatedAt`), so concurrent edits of different
+ * fields both survive. Deleted todos stay as tombstones: a deletion wins over
+ * older edits, and an edit made after the deletion brings the todo back.
+ * Every accepted change gets the next sequence number, which clients pull by.
+ */
+
+import { createServer, IncomingMessage, ServerResponse, Server } from 'node:http';
+import {
+  StoredTodo,
+  KeyValueStore,
+  SyncChange,
+  SyncRecord,
+  SyncPullResponse,
+  SYNC_TODO_FIELDS,
+  ValidationError,
+  StorageError
+} from './types.js';
+import { StorageUtils } from './utils.js';
+import { HttpError, readBody, sendJson, sendError } from './server.js';
+
+// A todo's record with the time each field was last set
+interface ServerRecord extends SyncRecord {
+  fieldTimes: Partial<Record<keyof StoredTodo, number>>;
+}
+
+// Everything the server knows about one list
+interface ServerList {
+  seq: number;
+  records: Record<string, ServerRecord>;
+}
+
+/**
+ * Create the sync server (call `listen()` to start it)
+ *
+ * Lists are kept in `store` when given (e.g. a FileKeyValueStore), otherwise
+ * only in memory.
+ */
+export function createSyncServer(store?: KeyValueStore): Server {
+  const lists = new Map<string, ServerList>();
+
+  const loadList = (listId: string): ServerList => {
+    let list = lists.get(listId);
+    if (!list) {
+      const serialized = store?.getItem(`sync-list-${listId}`);
+      list = serialized ? parseList(listId, serialized) : { seq: 0, records: {} };
+      lists.set(listId, list);
+    }
+    return list;
+  };
+
+  const saveList = (listId: string, list: ServerList): void => {
+    store?.setItem(`sync-list-${listId}`, JSON.stringify(list));
+  };
+
+  return createServer((request, response) => {
+    // The browser app is served from another origin
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+    handleSyncRequest(request, response, loadList, saveList).catch(error => sendError(response, error));
+  });
+}
+
+/**
+ * Read a stored list, failing with a StorageError if it is corrupt
+ *
+ * The list is not reset, so the stored data stays for the operator to repair.
+ */
+function parseList(listId: string, serialized: string): ServerList {
+  let list: unknown;
+  try {
+    list = JSON.parse(serialized);
+  } catch (error) {
+    throw new StorageError(`Stored sync data for list "${listId}" is corrupt: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const candidate = list as Partial<ServerList> | null;
+  if (
+    typeof candidate !== 'object' || candidate === null ||
+    !Number.isInteger(candidate.seq) ||
+    typeof candidate.records !== 'object' || candidate.records === null || Array.isArray(candidate.records)
+  ) {
+    throw new StorageError(`Stored sync data for list "${listId}" is corrupt: not a sync list`);
+  }
+  return candidate as ServerList;
+}
+
+/**
+ * Route a sync request
+ */
+async function handleSyncRequest(
+  request: IncomingMessage,
+  response: ServerResponse,
+  loadList: (listId: string) => ServerList,
+  saveList: (listId: string, list: ServerList) => void
+): Promise<void> {
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  const match = /^\/lists\/([^/]+)\/changes\/?$/.exec(url.pathname);
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204).end();
+    return;
+  }
+  if (!match) {
+    throw new HttpError(404, 'NOT_FOUND', `No route for ${url.pathname}`);
+  }
+
+  const listId = decodeURIComponent(match[1]!);
+
+  if (request.method === 'GET') {
+    const since = Number(url.searchParams.get('since') ?? 0);
+    if (!Number.isInteger(since) || since < 0) {
+      throw new ValidationError('since must be a sequence number');
+    }
+
+    const list = loadList(listId);
+    const records = Object.values(list.records)
+      .filter(record => record.seq > since)
+      .sort((a, b) => a.seq - b.seq)
+      .map(({ fieldTimes, ...record }) => record);
+    const body: SyncPullResponse = { cursor: list.seq, records };
+    sendJson(response, 200, body);
+    return;
+  }
+
+  if (request.method === 'POST') {
+    const changes = readChanges(await readBody(request));
+    const list = loadList(listId);
+    const accepted = changes.filter(change => applyChange(list, change)).length;
+    if (accepted > 0) {
+      saveList(listId, list);
+    }
+    sendJson(response, 200, { accepted, cursor: list.seq });
+    return;
+  }
+
+  response.setHeader('Allow', 'GET, POST');
+  throw new HttpError(405, 'METHOD_NOT_ALLOWED', 'Method not allowed. Use GET or POST');
+}
+
+/**
+ * Check a push request body and return its changes
+ */
+function readChanges(body: Record<string, unknown>): SyncChange[] {
+  if (typeof body.clientId !== 'string' || !Array.isArray(body.changes)) {
+    throw new ValidationError('A push needs a clientId and a changes array');
+  }
+
+  return body.changes.map((change: SyncChange, index: number) => {
+    if (change?.type === 'upsert') {
+      const problem = StorageUtils.describeInvalidStoredTodo(change.todo);
+      if (problem) {
+        throw new ValidationError(`Change ${index + 1}: ${problem}`);
+      }
+      if (!Array.isArray(change.fields) || !change.fields.every(field => SYNC_TODO_FIELDS.includes(field))) {
+        throw new ValidationError(`Change ${index + 1}: fields must list todo fields`);
+      }
+      return change;
+    }
+    if (change?.type === 'delete' && typeof change.id === 'string' && !isNaN(Date.parse(change.deletedAt))) {
+      return change;
+    }
+    throw new ValidationError(`Change ${index + 1} is not an upsert or a delete`);
+  });
+}
+
+/**
+ * Merge one change into a list, returning whether anything changed
+ */
+function applyChange(list: ServerList, change: SyncChange): boolean {
+  const id = change.type === 'upsert' ? change.todo.id : change.id;
+  const record = list.records[id];
+
+  if (change.type === 'delete') {
+    const deletedAt = Date.parse(change.deletedAt);
+    if (record && (!record.todo || latestFieldTime(record) > deletedAt)) {
+      return false; // Already deleted, or edited after this deletion
+    }
+    list.records[id] = { id, todo: null, deletedAt: change.deletedAt, seq: ++list.seq, fieldTimes: {} };
+    return true;
+  }
+
+  const time = Date.parse(change.todo.updatedAt);
+
+  if (!record || !record.todo) {
+    if (record && Date.parse(record.deletedAt!) >= time) {
+      return false; // Deleted after this change was made
+    }
+    const fieldTimes = Object.fromEntries(SYNC_TODO_FIELDS.map(field => [field, time]));
+    list.records[id] = { id, todo: change.todo, seq: ++list.seq, fieldTimes };
+    return true;
+  }
+
+  const todo: Record<string, unknown> = { ...record.todo };
+  const fieldTimes = { ...record.fieldTimes };
+  let changed = false;
+  change.fields.forEach(field => {
+    if (time < (fieldTimes[field] ?? 0)) return;
+
+    changed = changed || JSON.stringify(todo[field]) !== JSON.stringify(change.todo[field]);
+    if (change.todo[field] === undefined) {
+      delete todo[field];
+    } else {
+      todo[field] = change.todo[field];
+    }
+    fieldTimes[field] = time;
+  });
+  todo.updatedAt = new Date(latestFieldTime({ ...record, fieldTimes })).toISOString();
+
+  // Skip merges that would not make a valid todo
+  if (!StorageUtils.isValidStoredTodo(todo)) {
+    return false;
+  }
+  if (!changed) {
+    record.fieldTimes = fieldTimes; // A repeated push; nothing for clients to pull
+    return false;
+  }
+  list.records[id] = { ...record, todo, fieldTimes, seq: ++list.seq };
+  return true;
+}
+
+/**
+ * The newest field time of a record
+ */
+function latestFieldTime(record: ServerRecord): number {
+  return Math.max(0, ...Object.values(record.fieldTimes).map(Number));
+}
@@ -0,0 +1,181 @@
+/**
+ * Live synchronisation of a todo list between browser tabs
+ *
+ * Each tab broadcasts the todos it changed over a BroadcastChannel, together
+ * with the version each change was made to. When another tab changed the same
+ * todo in the meantime, the newer change wins (by `updatedAt`, or the time of
+ * deletion), so every tab settles on the same todos.
+ */
+
+import { Todo, TabSyncChange, TabSyncMessage, TabSyncConflict } from './types.js';
+import { TodoList } from './TodoList.js';
+import { StorageUtils, generateId } from './utils.js';
+
+// Most deletions remembered for settling conflicts with late edits
+const MAX_TOMBSTONES = 1000;
+
+export class TabSync {
+  private tabId = generateId();
+  private channel: BroadcastChannel | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private known = new Map<string, Todo>(); // todos as last broadcast or received
+  private tombstones = new Map<string, number>(); // deletion time by todo id
+  private applying = false;
+
+  constructor(
+    private todoList: TodoList,
+    private channelName: string,
+    private onConflict: (conflicts: TabSyncConflict[]) => void = () => {}
+  ) {}
+
+  /**
+   * Start sending and receiving changes (does nothing without BroadcastChannel)
+   */
+  start(): void {
+    if (this.channel || typeof BroadcastChannel === 'undefined') return;
+
+    this.channel = new BroadcastChannel(this.channelName);
+    this.channel.onmessage = (event: MessageEvent<TabSyncMessage>) => this.receive(event.data);
+    this.known = this.currentTodos();
+
+    this.unsubscribe = this.todoList.on('*', (event) => {
+      if (this.applying) return;
+
+      // Loading reads what other tabs saved, so there is nothing to send
+      if (event.type === 'load') {
+        this.known = this.currentTodos();
+      } else {
+        this.publish();
+      }
+    });
+  }
+
+  /**
+   * Stop sending and receiving changes
+   */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.channel?.close();
+    this.channel = null;
+  }
+
+  /**
+   * Broadcast the todos that changed since the last broadcast
+   *
+   * Todos are immutable, so a changed todo is a different object.
+   */
+  private publish(): void {
+    const current = this.currentTodos();
+    const changes: TabSyncChange[] = [];
+    const now = Date.now();
+
+    current.forEach((todo, id) => {
+      const previous = this.known.get(id);
+      if (previous !== todo) {
+        changes.push({ type: 'upsert', todo: StorageUtils.toStoredTodo(todo), base: previous ? StorageUtils.fingerprint(previous) : null });
+      }
+    });
+
+    this.known.forEach((todo, id) => {
+      if (!current.has(id)) {
+        changes.push({ type: 'delete', id, deletedAt: new Date(now).toISOString(), base: StorageUtils.fingerprint(todo) });
+        this.rememberDeletion(id, now);
+      }
+    });
+
+    this.known = current;
+    if (changes.length > 0) {
+      const message: TabSyncMessage = { tabId: this.tabId, changes };
+      this.channel?.postMessage(message);
+    }
+  }
+
+  /**
+   * Merge changes broadcast by another tab
+   *
+   * A change made to the version this tab has is applied as is. If this tab
+   * changed the todo too, the newer change wins; ties go to the tab with the
+   * larger id, so both tabs make the same choice.
+   */
+  private receive(message: TabSyncMessage): void {
+    if (!message || message.tabId === this.tabId || !Array.isArray(message.changes)) return;
+
+    const local = this.currentTodos();
+    const upserts: Todo[] = [];
+    const deletedIds: string[] = [];
+    const conflicts: TabSyncConflict[] = [];
+
+    message.changes.forEach(change => {
+      const id = change.type === 'upsert' ? change.todo.id : change.id;
+      const mine = local.get(id) ?? null;
+      const remote = change.type === 'upsert' ? StorageUtils.fromStoredTodo(change.todo) : null;
+      const deletedAt = this.tombstones.get(id);
+
+      let concurrent: boolean;
+      if (mine) {
+        const fingerprint = StorageUtils.fingerprint(mine);
+        if (remote && fingerprint === StorageUtils.fingerprint(remote)) {
+          return; // Both tabs made the same change
+        }
+        concurrent = fingerprint !== change.base;
+      } else if (remote) {
+        concurrent = deletedAt !== undefined;
+      } else {
+        return; // Deleted here as well
+      }
+
+      const remoteTime = Date.parse(change.type === 'upsert' ? change.todo.updatedAt : change.deletedAt);
+      const localTime = mine ? mine.updatedAt.getTime() : deletedAt ?? 0;
+      const remoteWins = !concurrent || remoteTime > localTime || (remoteTime === localTime && message.tabId > this.tabId);
+
+      if (concurrent) {
+        conflicts.push({ local: mine, remote, kept: remoteWins ? 'remote' : 'local' });
+      }
+      if (!remoteWins) {
+        return;
+      }
+
+      if (remote) {
+        upserts.push(remote);
+        this.tombstones.delete(id);
+      } else {
+        deletedIds.push(id);
+        this.rememberDeletion(id, remoteTime);
+      }
+    });
+
+    if (upserts.length > 0 || deletedIds.length > 0) {
+      this.applying = true;
+      try {
+        this.todoList.applyRemoteChanges(upserts, deletedIds);
+      } finally {
+        this.applying = false;
+      }
+      this.known = this.currentTodos();
+    }
+
+    if (conflicts.length > 0) {
+      this.onConflict(conflicts);
+    }
+  }
+
+  /**
+   * Remember when a todo was deleted, forgetting the oldest deletions
+   */
+  private rememberDeletion(id: string, deletedAt: number): void {
+    this.tombstones.delete(id);
+    this.tombstones.set(id, deletedAt);
+
+    if (this.tombstones.size > MAX_TOMBSTONES) {
+      this.tombstones.delete(this.tombstones.keys().next().value!);
+    }
+  }
+
+  /**
+   * The list's todos by id, including those in the trash
+   */
+  private currentTodos(): Map<string, Todo> {
+    return new Map([...this.todoList.getAllTodos(), ...this.todoList.getTrashedTodos()].map(todo => [todo.id, todo]));
+  }
+}
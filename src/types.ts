@@ -9,10 +9,124 @@ export interface Todo {
   completed: boolean;
   createdAt: Date;
   updatedAt: Date;
+  dueAt?: Date;
+  dueAllDay?: boolean; // true when only a date (no time) was given
+  priority: TodoPriority;
+  tags: string[];
+  parentId?: string; // set for subtasks
+  recurrence?: RecurrenceRule;
+  order: number; // manual position; increases along the list
+  completedAt?: Date; // when the todo was completed; cleared when it is reopened
+  deletedAt?: Date; // set while the todo is in the trash
 }
 
+// Priority levels, lowest first
+export type TodoPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+// All supported priority levels, lowest first
+export const TODO_PRIORITIES: readonly TodoPriority[] = ['low', 'normal', 'high', 'urgent'];
+
+// How a todo repeats once it is completed
+export type RecurrenceRule =
+  | { frequency: 'daily' }
+  | { frequency: 'weekly'; weekdays: number[] } // 0 = Sunday ... 6 = Saturday
+  | { frequency: 'monthly'; dayOfMonth: number } // 1-31, clamped to shorter months
+  | { frequency: 'after-completion'; days: number }; // N days after the todo was completed
+
+// Recurrence frequencies
+export type RecurrenceFrequency = RecurrenceRule['frequency'];
+
+// All supported recurrence frequencies
+export const RECURRENCE_FREQUENCIES: readonly RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'after-completion'];
+
+// Todo item as persisted (dates serialized to ISO strings)
+export interface StoredTodo extends Omit<Todo, 'createdAt' | 'updatedAt' | 'dueAt' | 'priority' | 'tags' | 'order' | 'completedAt' | 'deletedAt'> {
+  createdAt: string;
+  updatedAt: string;
+  dueAt?: string;
+  completedAt?: string;
+  deletedAt?: string;
+  priority?: TodoPriority; // missing in data saved before priorities existed
+  tags?: string[]; // missing in data saved before tags existed
+  order?: number; // missing in data saved before manual ordering existed
+}
+
+// Optional details that can be set when adding or updating a todo
+export interface TodoDetails {
+  dueAt?: Date | null; // null removes the due date
+  dueAllDay?: boolean;
+  priority?: TodoPriority;
+  tags?: string[];
+  recurrence?: RecurrenceRule | null; // null stops the todo repeating
+}
+
+// Registered tag with its display colour
+export interface TagDefinition {
+  name: string;
+  color: string;
+}
+
+// Tag colours are written as six-digit hex, e.g. #8b5cf6
+export const TAG_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// Colours assigned to new tags, in order
+export const TAG_COLORS: readonly string[] = [
+  '#8b5cf6',
+  '#0ea5e9',
+  '#22c55e',
+  '#f59e0b',
+  '#ef4444',
+  '#ec4899',
+  '#14b8a6',
+  '#6366f1'
+];
+
+// Fields that can be changed through TodoList.updateTodo
+export type TodoUpdates = Partial<Pick<Todo, 'text' | 'completed'>> & TodoDetails;
+
 // Filter types for todo list
-export type TodoFilter = 'all' | 'completed' | 'pending';
+export type TodoFilter = 'all' | 'completed' | 'pending' | 'overdue' | 'due-today';
+
+// All supported filter types
+export const TODO_FILTERS: readonly TodoFilter[] = ['all', 'completed', 'pending', 'overdue', 'due-today'];
+
+// Todo states matched by the `is:` search predicate
+export type SearchState = 'completed' | 'pending' | 'overdue' | 'recurring';
+
+// All supported `is:` search values
+export const SEARCH_STATES: readonly SearchState[] = ['completed', 'pending', 'overdue', 'recurring'];
+
+// Todo dates that search predicates can compare
+export type SearchDateField = 'created' | 'updated' | 'due';
+
+// Parsed search query
+export type SearchNode =
+  | { type: 'text'; value: string } // lowercased word or quoted phrase
+  | { type: 'is'; value: SearchState }
+  | { type: 'tag'; value: string }
+  | { type: 'priority'; value: TodoPriority }
+  | { type: 'date'; field: SearchDateField; from: number; to: number } // matches from <= time < to
+  | { type: 'not'; node: SearchNode }
+  | { type: 'and'; nodes: SearchNode[] }
+  | { type: 'or'; nodes: SearchNode[] };
+
+// Fields todos can be sorted by
+export type TodoSortField = 'manual' | 'created' | 'updated' | 'due' | 'priority' | 'alphabetical';
+
+// All supported sort fields
+export const TODO_SORT_FIELDS: readonly TodoSortField[] = ['manual', 'created', 'updated', 'due', 'priority', 'alphabetical'];
+
+// Sort direction
+export type SortDirection = 'asc' | 'desc';
+
+// Sort order applied to the filtered todos
+export interface TodoSort {
+  field: TodoSortField;
+  direction: SortDirection;
+}
+
+// Default sort order (manual order, which starts out as insertion order)
+export const DEFAULT_SORT: TodoSort = { field: 'manual', direction: 'asc' };
 
 // Todo statistics interface
 export interface TodoStats {
@@ -21,13 +135,62 @@ export interface TodoStats {
   pending: number;
 }
 
+// Number of todos on a day or in a week, keyed by its first day (YYYY-MM-DD, local time)
+export interface DatedCount {
+  date: string;
+  count: number;
+}
+
+// Timestamps analytics are worked out from: a todo's own, or those kept when it was purged
+export type AnalyticsTodo = Pick<Todo, 'createdAt' | 'completed' | 'completedAt' | 'updatedAt' | 'deletedAt'>;
+
+// Productivity figures worked out from a list's todos, including those in the trash or purged from it
+export interface TodoAnalytics {
+  completionsPerDay: DatedCount[]; // oldest first, ending today
+  completionsPerWeek: DatedCount[]; // weeks start on Monday; oldest first, ending this week
+  averageCompletionMs: number | null; // from createdAt to completedAt; null before any completion
+  currentStreak: number; // days in a row with a completion, up to today (or yesterday)
+  longestStreak: number;
+  backlog: DatedCount[]; // todos still open at the end of each day
+}
+
+// Periods covered by TodoAnalytics
+export interface AnalyticsOptions {
+  now?: Date;
+  days?: number; // for completionsPerDay and backlog (default 30)
+  weeks?: number; // for completionsPerWeek (default 12)
+}
+
+// One bar or point of a chart
+export interface ChartPoint {
+  label: string;
+  value: number;
+}
+
 // Todo form data interface
 export interface TodoFormData {
   text: string;
 }
 
 // Event types for todo operations
-export type TodoEventType = 'add' | 'remove' | 'toggle' | 'update' | 'clear-completed';
+export type TodoEventType =
+  | 'add'
+  | 'remove'
+  | 'toggle'
+  | 'update'
+  | 'reorder'
+  | 'clear-completed'
+  | 'clear'
+  | 'import'
+  | 'filter'
+  | 'sort'
+  | 'tags'
+  | 'load'
+  | 'undo'
+  | 'redo'
+  | 'sync'
+  | 'restore'
+  | 'purge';
 
 // Todo event interface
 export interface TodoEvent {
@@ -35,24 +198,418 @@ export interface TodoEvent {
   todo?: Todo;
   todos?: Todo[];
   filter?: TodoFilter;
+  sort?: TodoSort;
+  tags?: string[];
+  query?: string;
+}
+
+// Listener for todo events
+export type TodoEventListener = (event: TodoEvent) => void;
+
+// Todo with its position in the list, as recorded in history
+export interface PositionedTodo {
+  index: number;
+  todo: StoredTodo;
+}
+
+// Undoable change set produced by a single TodoList mutation
+export interface HistoryEntry {
+  label: string;
+  timestamp: string;
+  added: PositionedTodo[];
+  removed: PositionedTodo[];
+  updated: Array<{ before: StoredTodo; after: StoredTodo }>;
+}
+
+// Persisted undo/redo stacks
+export interface TodoHistoryState {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+// Kinds of change recorded in the activity log
+export type ActivityType =
+  | 'created'
+  | 'imported'
+  | 'moved-in'
+  | 'text-changed'
+  | 'completed'
+  | 'reopened'
+  | 'due-changed'
+  | 'priority-changed'
+  | 'tags-changed'
+  | 'deleted'
+  | 'restored'
+  | 'purged'
+  | 'removed';
+
+// One change to one todo in the activity log
+export interface ActivityEntry {
+  at: Date;
+  todoId: string;
+  type: ActivityType;
+  text: string; // the todo's text at the time, so entries outlive the todo
+  from?: string; // old and new value for the *-changed types ('' for none)
+  to?: string;
+}
+
+// Activity entry as persisted: [time (ms), todo id, type, text] plus [from, to] for changes
+export type StoredActivityEntry =
+  | [number, string, ActivityType, string]
+  | [number, string, ActivityType, string, string, string];
+
+// Todo purged from the trash, kept for analytics: [created, completed or null, deleted] times (ms)
+export type StoredCompletionRecord = [number, number | null, number];
+
+// Activity entry together with the list it happened in
+export interface ListActivityEntry extends ActivityEntry {
+  listId: string;
+}
+
+// Narrows an activity log query; entries are returned newest first
+export interface ActivityQuery {
+  todoId?: string;
+  types?: ActivityType[];
+  since?: Date;
+  limit?: number;
+}
+
+// What completing a parent todo does to its subtasks
+export type CompleteCascade = 'none' | 'complete-children';
+
+// What deleting a parent todo does to its subtasks
+export type DeleteCascade = 'delete-children' | 'promote-children';
+
+// Cascade rules applied to subtasks
+export interface CascadeRules {
+  onComplete: CompleteCascade;
+  onDelete: DeleteCascade;
+}
+
+// Default cascade rules
+export const DEFAULT_CASCADE_RULES: CascadeRules = {
+  onComplete: 'complete-children',
+  onDelete: 'delete-children'
+};
+
+// Maximum nesting depth (top-level todos plus two levels of subtasks)
+export const MAX_TODO_DEPTH = 3;
+
+// Completion progress of a todo's direct subtasks
+export interface SubtaskProgress {
+  completed: number;
+  total: number;
+}
+
+// Options for constructing a TodoList
+export interface TodoListOptions {
+  historyDepth?: number;
+  cascade?: Partial<CascadeRules>;
+  trashRetentionDays?: number | null; // days deleted todos stay in the trash; null keeps them
+  activityLimit?: number; // most activity log entries kept
+}
+
+// Days deleted todos stay in the trash unless configured otherwise
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Named todo list (project)
+export interface TodoListInfo {
+  id: string;
+  name: string;
+}
+
+// Persisted set of todo lists, in display order
+export interface TodoListsState {
+  lists: TodoListInfo[];
+  currentListId: string;
+}
+
+// Value that may be returned synchronously or as a promise
+export type MaybePromise<T> = T | Promise<T>;
+
+// Storage backend used by TodoList for persistence
+export interface TodoStorage {
+  loadTodos(): MaybePromise<Todo[]>;
+  saveTodos(todos: Todo[]): MaybePromise<void>;
+  loadFilter(): MaybePromise<TodoFilter>;
+  saveFilter(filter: TodoFilter): MaybePromise<void>;
+  loadSort(): MaybePromise<TodoSort>;
+  saveSort(sort: TodoSort): MaybePromise<void>;
+  loadTags(): MaybePromise<TagDefinition[]>;
+  saveTags(tags: TagDefinition[]): MaybePromise<void>;
+  loadHistory(): MaybePromise<TodoHistoryState | null>;
+  saveHistory(history: TodoHistoryState): MaybePromise<void>;
+  loadActivity(): MaybePromise<StoredActivityEntry[]>;
+  saveActivity(entries: StoredActivityEntry[]): MaybePromise<void>;
+  loadCompletionLog(): MaybePromise<StoredCompletionRecord[]>;
+  saveCompletionLog(records: StoredCompletionRecord[]): MaybePromise<void>;
+  loadQuarantine(): MaybePromise<QuarantinedData[]>;
+  clearQuarantine(): MaybePromise<void>;
+  clearAll(): MaybePromise<void>;
+}
+
+// Current version of the persisted todos format
+export const STORAGE_SCHEMA_VERSION = 3;
+
+// Persisted todos together with the format version they were saved in
+export interface StoredTodosEnvelope {
+  version: number;
+  savedAt: string;
+  todos: StoredTodo[];
 }
 
-// Local storage keys
+// Saved data that could not be read, kept aside instead of being overwritten
+export interface QuarantinedData {
+  quarantinedAt: string;
+  reason: string;
+  data: string; // the raw data as it was found
+}
+
+// A problem with one line of an imported file
+export interface ImportLineError {
+  line: number; // 1-based; for JSON, the todo's position in the file
+  message: string;
+}
+
+// How imported todos are combined with the current ones
+export type ImportMode = 'replace' | 'append' | 'merge';
+
+// Valid import modes
+export const IMPORT_MODES: readonly ImportMode[] = ['replace', 'append', 'merge'];
+
+// Which version wins when an imported todo has the same id as a current one
+export type ImportResolution = 'local' | 'imported';
+
+// Options for importing todos
+export interface ImportOptions {
+  format?: string; // registered format id (default 'json')
+  mode?: ImportMode; // default 'merge'
+  resolutions?: Record<string, ImportResolution>; // by todo id; the newer version wins otherwise
+  dryRun?: boolean; // report what would happen without changing anything
+}
+
+// An imported todo and what the import does with it
+export interface ImportItem {
+  line: number;
+  todo: Todo;
+  reason: string;
+}
+
+// An imported todo that differs from the current todo with the same id
+export interface ImportConflict {
+  line: number;
+  local: Todo;
+  imported: Todo;
+  newer: ImportResolution | 'same'; // by updatedAt
+  resolution: ImportResolution;
+}
+
+// Outcome (or, for a dry run, preview) of importing todos
+export interface TodoImportResult {
+  mode: ImportMode;
+  dryRun: boolean;
+  imported: number; // todos added or updated
+  added: ImportItem[];
+  updated: ImportItem[]; // current todos replaced by their imported version
+  skipped: ImportItem[]; // imported todos left out, e.g. unchanged or older
+  removed: Todo[]; // current todos dropped by 'replace'
+  conflicts: ImportConflict[];
+  errors: ImportLineError[]; // lines that could not be read, in file order
+}
+
+// Todos read from a file, before they are validated
+export interface ParsedTodos {
+  records: Array<{ line: number; todo: unknown }>; // candidate StoredTodo objects
+  errors: ImportLineError[];
+}
+
+// A file format todos can be exported to and imported from
+export interface TodoFormat {
+  id: string;
+  label: string;
+  extensions: string[]; // lowercase, without the dot; the first is used for exports
+  mimeType: string;
+  serialize(todos: Todo[]): string;
+  parse(content: string): ParsedTodos; // throws a ValidationError if the whole file is unusable
+}
+
+// A change to one todo, sent to other tabs showing the same list
+export type TabSyncChange =
+  | { type: 'upsert'; todo: StoredTodo; base: string | null }
+  | { type: 'delete'; id: string; deletedAt: string; base: string };
+// `base` is the fingerprint of the version the change was made to (null for new todos)
+
+// Message broadcast to other tabs after todos change
+export interface TabSyncMessage {
+  tabId: string;
+  changes: TabSyncChange[];
+}
+
+// The same todo was changed in this tab and another one at the same time
+export interface TabSyncConflict {
+  local: Todo | null; // this tab's version (null if this tab deleted it)
+  remote: Todo | null; // the other tab's version (null if it deleted the todo)
+  kept: 'local' | 'remote'; // the newer change
+}
+
+// A local change to one todo, queued in the outbox and pushed to the sync server
+export type SyncChange =
+  | { type: 'upsert'; todo: StoredTodo; fields: Array<keyof StoredTodo> } // the whole todo and the fields that changed
+  | { type: 'delete'; id: string; deletedAt: string };
+
+// Todo fields the sync server merges one by one
+export const SYNC_TODO_FIELDS: ReadonlyArray<keyof StoredTodo> = [
+  'text', 'completed', 'createdAt', 'updatedAt', 'dueAt', 'dueAllDay',
+  'priority', 'tags', 'parentId', 'recurrence', 'order', 'completedAt'
+];
+
+// A change waiting in the outbox until the server has accepted it
+export interface SyncOutboxEntry {
+  id: string;
+  change: SyncChange;
+}
+
+// The server's merged version of a todo; deleted todos are kept as tombstones
+export interface SyncRecord {
+  id: string;
+  todo: StoredTodo | null; // null once deleted
+  deletedAt?: string;
+  seq: number; // server sequence number of the last change to the todo
+}
+
+// Body of a push: changes from one client
+export interface SyncPushRequest {
+  clientId: string;
+  changes: SyncChange[];
+}
+
+// Answer to a pull: records changed after the `since` cursor
+export interface SyncPullResponse {
+  cursor: number; // pass as `since` next time
+  records: SyncRecord[];
+}
+
+// What a sync engine is doing
+export type SyncState = 'idle' | 'syncing' | 'offline' | 'error';
+
+// Sync progress shown to the user
+export interface SyncStatus {
+  state: SyncState;
+  pending: number; // local changes not yet pushed
+  lastSyncedAt: Date | null;
+  error: string | null;
+}
+
+// Storage for the set of todo lists
+export interface TodoListsStorage {
+  loadLists(): MaybePromise<TodoListsState | null>;
+  saveLists(state: TodoListsState): MaybePromise<void>;
+}
+
+// String key-value store behind LocalStorageTodoStorage (localStorage in the browser)
+export interface KeyValueStore {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+// Creates the storage backend for a namespace (one per todo list)
+export type TodoStorageFactory = (namespace: string) => TodoStorage;
+
+// Action button offered alongside a UI message
+export interface MessageAction {
+  label: string;
+  handler: () => void;
+}
+
+// Kinds of toast notification, named after their Bootstrap colours
+export type NotificationType = 'success' | 'info' | 'danger';
+
+// How long each kind of notification stays up, in milliseconds (null: until dismissed)
+export type NotificationDurations = Record<NotificationType, number | null>;
+
+// An action run from a key binding or the command palette
+export interface AppCommand {
+  id: string;
+  label: string;
+  defaultKeys: string[]; // e.g. ['n'] or ['Ctrl+k'], as built by keyFromEvent()
+  run: () => void;
+  isAvailable?: () => boolean; // hidden from the palette and ignored as a shortcut when false
+}
+
+// Key bindings the user changed, by command id
+export type KeyBindingOverrides = Record<string, string[]>;
+
+// A command palette entry matching the typed query
+export interface CommandMatch {
+  command: AppCommand;
+  score: number;
+  positions: number[]; // indexes of the matched characters in the label
+}
+
+// Default storage namespace (storage keys are "<namespace>-<key>")
+export const STORAGE_NAMESPACE = 'todolist';
+
+// Local storage keys, relative to a namespace
 export const STORAGE_KEYS = {
-  TODOS: 'todolist-todos',
-  FILTER: 'todolist-filter'
+  TODOS: 'todos',
+  FILTER: 'filter',
+  SORT: 'sort',
+  TAGS: 'tags',
+  HISTORY: 'history',
+  ACTIVITY: 'activity',
+  COMPLETION_LOG: 'completion-log',
+  LISTS: 'lists',
+  QUARANTINE: 'quarantine',
+  SYNC_OUTBOX: 'sync-outbox',
+  SYNC_STATE: 'sync-state',
+  SYNC_ENDPOINT: 'sync-endpoint',
+  KEY_BINDINGS: 'key-bindings',
+  TRASH_RETENTION: 'trash-retention'
 } as const;
 
 // DOM element IDs
 export const DOM_IDS = {
   TODO_FORM: 'todoForm',
   TODO_INPUT: 'todoInput',
+  TODO_DUE_DATE: 'todoDueDate',
+  TODO_DUE_TIME: 'todoDueTime',
+  TODO_PRIORITY: 'todoPriority',
+  TODO_TAGS: 'todoTags',
+  SEARCH_INPUT: 'searchInput',
+  TODO_RECURRENCE: 'todoRecurrence',
+  TODO_RECURRENCE_DAYS: 'todoRecurrenceDays',
+  TODO_RECURRENCE_WEEKDAYS: 'todoRecurrenceWeekdays',
+  TAG_FILTERS: 'tagFilters',
+  LIST_SELECT: 'listSelect',
+  LIST_CREATE: 'listCreate',
+  LIST_RENAME: 'listRename',
+  LIST_DELETE: 'listDelete',
+  LIST_MOVE_LEFT: 'listMoveLeft',
+  LIST_MOVE_RIGHT: 'listMoveRight',
+  SORT_FIELD: 'sortField',
+  SORT_DIRECTION: 'sortDirection',
   TODO_LIST: 'todoList',
+  BULK_ACTIONS: 'bulkActions',
+  BULK_COUNT: 'bulkCount',
+  BULK_MOVE: 'bulkMove',
   EMPTY_STATE: 'emptyState',
   TOTAL_TODOS: 'totalTodos',
   COMPLETED_TODOS: 'completedTodos',
   PENDING_TODOS: 'pendingTodos',
-  CLEAR_COMPLETED: 'clearCompleted'
+  CLEAR_COMPLETED: 'clearCompleted',
+  EXPORT_FORMAT: 'exportFormat',
+  EXPORT_TODOS: 'exportTodos',
+  IMPORT_TODOS: 'importTodos',
+  IMPORT_FILE: 'importFile',
+  IMPORT_ERRORS: 'importErrors',
+  SYNC_SETTINGS: 'syncSettings',
+  SYNC_STATUS: 'syncStatus',
+  SHOW_SHORTCUTS: 'showShortcuts',
+  SHOW_TRASH: 'showTrash',
+  DASHBOARD: 'dashboard',
+  DASHBOARD_CONTENT: 'dashboardContent',
+  NOTIFICATIONS: 'notifications'
 } as const;
 
 // CSS classes
@@ -60,6 +617,17 @@ export const CSS_CLASSES = {
   TODO_ITEM: 'todo-item',
   COMPLETED: 'completed',
   NEW: 'new',
+  EDITING: 'editing',
+  OVERDUE: 'overdue',
+  SUBTASK: 'subtask',
+  COLLAPSED: 'collapsed',
+  SELECTED: 'selected',
+  ACTIVE: 'active-todo',
+  DRAGGING: 'dragging',
+  DROP_BEFORE: 'drop-before',
+  DROP_AFTER: 'drop-after',
+  FILE_DROP: 'file-drop',
+  TAG_CHIP: 'tag-chip',
   FILTER_ACTIVE: 'active'
 } as const;
 
@@ -2,7 +2,27 @@
  * Utility functions for TodoList application
  */
 
-import { Todo, TodoStats, TodoFilter, ValidationError, StorageError } from './types.js';
+import {
+  Todo,
+  StoredTodo,
+  TodoStats,
+  TodoFilter,
+  TodoSort,
+  TagDefinition,
+  TodoListInfo,
+  TodoListsState,
+  StoredTodosEnvelope,
+  MaybePromise,
+  STORAGE_SCHEMA_VERSION,
+  TODO_FILTERS,
+  TODO_PRIORITIES,
+  TODO_SORT_FIELDS,
+  TAG_COLOR_PATTERN,
+  DEFAULT_SORT,
+  ValidationError,
+  StorageError
+} from './types.js';
+import { validateRecurrence } from './recurrence.js';
 
 /**
  * Generate a unique ID for todo items
@@ -11,6 +31,16 @@ export function generateId(): string {
   return Date.now().toString(36) + Math.random().toString(36).substr(2);
 }
 
+/**
+ * Check whether a todo id uses only the characters generated ids do
+ *
+ * Ids end up in markup and selectors, so ones from outside (e.g. an
+ * imported file) are held to this.
+ */
+export function isValidTodoId(id: string): boolean {
+  return /^[A-Za-z0-9_-]+$/.test(id);
+}
+
 /**
  * Validate todo text input
  */
@@ -36,6 +66,78 @@ export function sanitizeTodoText(text: string): string {
   return text.trim().replace(/\s+/g, ' ');
 }
 
+/**
+ * Normalize a tag: trim, drop a leading '#', lowercase and join words with '-'
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Validate a normalized tag
+ */
+export function validateTag(tag: string): void {
+  if (!tag || typeof tag !== 'string') {
+    throw new ValidationError('Tag cannot be empty');
+  }
+
+  if (tag.length > 30) {
+    throw new ValidationError('Tag cannot exceed 30 characters');
+  }
+
+  if (!/^[\p{L}\p{N}_-]+$/u.test(tag)) {
+    throw new ValidationError(`Invalid tag "${tag}": use letters, numbers, "-" and "_" only`);
+  }
+}
+
+/**
+ * Normalize, validate and de-duplicate a list of tags
+ */
+export function normalizeTags(tags: string[]): string[] {
+  if (!Array.isArray(tags)) {
+    throw new ValidationError('Tags must be a list');
+  }
+
+  const normalized = [...new Set(tags.map(tag => normalizeTag(String(tag))).filter(tag => tag.length > 0))];
+  normalized.forEach(validateTag);
+
+  if (normalized.length > 10) {
+    throw new ValidationError('A todo cannot have more than 10 tags');
+  }
+
+  return normalized;
+}
+
+/**
+ * Parse tags typed as free text ("#work, home errands" → ["work", "home", "errands"])
+ */
+export function parseTagInput(input: string): string[] {
+  return normalizeTags(input.split(/[\s,]+/));
+}
+
+/**
+ * Check if a todo has every one of the given tags
+ */
+export function hasAllTags(todo: Todo, tags: string[]): boolean {
+  return tags.every(tag => todo.tags.includes(tag));
+}
+
+/**
+ * Resolve an object of values that may be promises
+ *
+ * Stays synchronous when none of the values is a promise.
+ */
+export function resolveAll<T extends object>(values: { [K in keyof T]: MaybePromise<T[K]> }): MaybePromise<T> {
+  const entries = Object.entries(values);
+
+  if (!entries.some(([, value]) => value instanceof Promise)) {
+    return values as T;
+  }
+
+  return Promise.all(entries.map(([key, value]) => Promise.resolve(value).then(resolved => [key, resolved] as const)))
+    .then(resolvedEntries => Object.fromEntries(resolvedEntries) as T);
+}
+
 /**
  * Calculate todo statistics
  */
@@ -50,18 +152,80 @@ export function calculateStats(todos: Todo[]): TodoStats {
 /**
  * Filter todos based on filter type
  */
-export function filterTodos(todos: Todo[], filter: TodoFilter): Todo[] {
+export function filterTodos(todos: Todo[], filter: TodoFilter, now: Date = new Date()): Todo[] {
   switch (filter) {
     case 'completed':
       return todos.filter(todo => todo.completed);
     case 'pending':
       return todos.filter(todo => !todo.completed);
+    case 'overdue':
+      return todos.filter(todo => isOverdue(todo, now));
+    case 'due-today':
+      return todos.filter(todo => isDueToday(todo, now));
     case 'all':
     default:
       return todos;
   }
 }
 
+/**
+ * Get the moment a todo becomes due (end of day for all-day due dates)
+ */
+export function getDueTime(todo: Todo): number | null {
+  if (!todo.dueAt) {
+    return null;
+  }
+
+  if (todo.dueAllDay) {
+    const endOfDay = new Date(todo.dueAt);
+    endOfDay.setHours(24, 0, 0, 0);
+    return endOfDay.getTime();
+  }
+
+  return todo.dueAt.getTime();
+}
+
+/**
+ * Check if a pending todo is past its due time
+ */
+export function isOverdue(todo: Todo, now: Date = new Date()): boolean {
+  const dueTime = getDueTime(todo);
+  return !todo.completed && dueTime !== null && dueTime <= now.getTime();
+}
+
+/**
+ * Check if a todo is due on the same calendar day as `now`
+ */
+export function isDueToday(todo: Todo, now: Date = new Date()): boolean {
+  return !!todo.dueAt && todo.dueAt.toDateString() === now.toDateString();
+}
+
+/**
+ * Parse due date input ("YYYY-MM-DD" plus optional "HH:mm") in local time
+ */
+export function parseDueDate(date: string, time: string = ''): { dueAt: Date; dueAllDay: boolean } | null {
+  if (!date.trim()) {
+    return null;
+  }
+
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date.trim());
+  const timeMatch = /^(\d{2}):(\d{2})$/.exec(time.trim());
+
+  if (!dateMatch || (time.trim() && !timeMatch)) {
+    throw new ValidationError('Due date must be a valid date (and optional time)');
+  }
+
+  const [, year, month, day] = dateMatch.map(Number) as [number, number, number, number];
+  const [, hours, minutes] = timeMatch ? timeMatch.map(Number) as [number, number, number] : [0, 0, 0];
+  const dueAt = new Date(year, month - 1, day, hours, minutes);
+
+  if (dueAt.getFullYear() !== year || dueAt.getMonth() !== month - 1 || dueAt.getDate() !== day) {
+    throw new ValidationError('Due date must be a valid date (and optional time)');
+  }
+
+  return { dueAt, dueAllDay: !timeMatch };
+}
+
 /**
  * Sort todos by creation date (newest first)
  */
@@ -70,134 +234,229 @@ export function sortTodosByDate(todos: Todo[]): Todo[] {
 }
 
 /**
- * Local storage utilities
+ * Sort todos by the given field and direction
+ *
+ * The sort is stable, and todos without a due date always come last when
+ * sorting by due date.
+ */
+export function sortTodos(todos: Todo[], sort: TodoSort): Todo[] {
+  const factor = sort.direction === 'desc' ? -1 : 1;
+
+  return [...todos].sort((a, b) => {
+    switch (sort.field) {
+      case 'updated':
+        return factor * (a.updatedAt.getTime() - b.updatedAt.getTime());
+      case 'due': {
+        const aDue = getDueTime(a);
+        const bDue = getDueTime(b);
+        if (aDue === null || bDue === null) {
+          return (aDue === null ? 1 : 0) - (bDue === null ? 1 : 0);
+        }
+        return factor * (aDue - bDue);
+      }
+      case 'priority':
+        return factor * (TODO_PRIORITIES.indexOf(a.priority) - TODO_PRIORITIES.indexOf(b.priority));
+      case 'alphabetical':
+        return factor * a.text.localeCompare(b.text, undefined, { sensitivity: 'base' });
+      case 'manual':
+        return factor * (a.order - b.order);
+      case 'created':
+      default:
+        return factor * (a.createdAt.getTime() - b.createdAt.getTime());
+    }
+  });
+}
+
+/**
+ * Serialization utilities shared by storage backends
  */
 export class StorageUtils {
   /**
-   * Save todos to localStorage
+   * Convert a todo to its persisted form
    */
-  static saveTodos(todos: Todo[]): void {
-    try {
-      const serializedTodos = JSON.stringify(todos.map(todo => ({
-        ...todo,
-        createdAt: todo.createdAt.toISOString(),
-        updatedAt: todo.updatedAt.toISOString()
-      })));
-      localStorage.setItem('todolist-todos', serializedTodos);
-    } catch (error) {
-      throw new StorageError('Failed to save todos to localStorage');
-    }
+  static toStoredTodo(todo: Todo): StoredTodo {
+    const { dueAt, completedAt, deletedAt, ...rest } = todo;
+    return {
+      ...rest,
+      createdAt: todo.createdAt.toISOString(),
+      updatedAt: todo.updatedAt.toISOString(),
+      ...(dueAt ? { dueAt: dueAt.toISOString() } : {}),
+      ...(completedAt ? { completedAt: completedAt.toISOString() } : {}),
+      ...(deletedAt ? { deletedAt: deletedAt.toISOString() } : {})
+    };
   }
 
   /**
-   * Load todos from localStorage
+   * Restore a todo from its persisted form
+   *
+   * `fallbackOrder` is used for data saved before todos had an order.
    */
-  static loadTodos(): Todo[] {
-    try {
-      const serializedTodos = localStorage.getItem('todolist-todos');
-      if (!serializedTodos) {
-        return [];
-      }
-      
-      const parsedTodos = JSON.parse(serializedTodos);
-      return parsedTodos.map((todo: any) => ({
-        ...todo,
-        createdAt: new Date(todo.createdAt),
-        updatedAt: new Date(todo.updatedAt)
-      }));
-    } catch (error) {
-      console.warn('Failed to load todos from localStorage:', error);
-      return [];
-    }
+  static fromStoredTodo(stored: StoredTodo, fallbackOrder: number = 0): Todo {
+    const { dueAt, completedAt, deletedAt, ...rest } = stored;
+    return {
+      ...rest,
+      priority: stored.priority ?? 'normal',
+      tags: Array.isArray(stored.tags) ? [...stored.tags] : [],
+      order: typeof stored.order === 'number' && Number.isFinite(stored.order) ? stored.order : fallbackOrder,
+      createdAt: new Date(stored.createdAt),
+      updatedAt: new Date(stored.updatedAt),
+      ...(dueAt ? { dueAt: new Date(dueAt) } : {}),
+      ...(completedAt ? { completedAt: new Date(completedAt) } : {}),
+      ...(deletedAt ? { deletedAt: new Date(deletedAt) } : {})
+    };
   }
 
   /**
-   * Save filter preference to localStorage
+   * Describe a todo's content as a string that is equal for equal todos
+   *
+   * Keys are sorted, so the order fields were set in does not matter.
+   * Fields listed in `omit` are left out of the comparison.
    */
-  static saveFilter(filter: TodoFilter): void {
-    try {
-      localStorage.setItem('todolist-filter', filter);
-    } catch (error) {
-      throw new StorageError('Failed to save filter to localStorage');
-    }
+  static fingerprint(todo: Todo, omit: Array<keyof StoredTodo> = []): string {
+    const stored: Partial<StoredTodo> = StorageUtils.toStoredTodo(todo);
+    omit.forEach(key => delete stored[key]);
+
+    return JSON.stringify(stored, (_key, value) =>
+      typeof value === 'object' && value !== null && !Array.isArray(value)
+        ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+        : value
+    );
   }
 
   /**
-   * Load filter preference from localStorage
+   * Wrap todos in a versioned envelope for persisting
    */
-  static loadFilter(): TodoFilter {
-    try {
-      const filter = localStorage.getItem('todolist-filter') as TodoFilter;
-      return filter || 'all';
-    } catch (error) {
-      console.warn('Failed to load filter from localStorage:', error);
-      return 'all';
-    }
+  static toEnvelope(todos: Todo[]): StoredTodosEnvelope {
+    return {
+      version: STORAGE_SCHEMA_VERSION,
+      savedAt: new Date().toISOString(),
+      todos: todos.map(todo => StorageUtils.toStoredTodo(todo))
+    };
   }
 
   /**
-   * Clear all todo data from localStorage
+   * Serialize todos to a JSON string (a versioned envelope)
+   *
+   * Read it back with parseStoredTodos() from migrations.ts, which also
+   * upgrades data saved in older formats.
    */
-  static clearAll(): void {
-    try {
-      localStorage.removeItem('todolist-todos');
-      localStorage.removeItem('todolist-filter');
-    } catch (error) {
-      throw new StorageError('Failed to clear localStorage');
-    }
+  static serializeTodos(todos: Todo[]): string {
+    return JSON.stringify(StorageUtils.toEnvelope(todos));
   }
-}
 
-/**
- * DOM utility functions
- */
-export class DOMUtils {
   /**
-   * Get DOM element by ID with type safety
+   * Check whether a value is a well-formed persisted todo
    */
-  static getElementById<T extends HTMLElement>(id: string): T | null {
-    return document.getElementById(id) as T | null;
+  static isValidStoredTodo(todo: unknown): todo is StoredTodo {
+    return StorageUtils.describeInvalidStoredTodo(todo) === null;
   }
 
   /**
-   * Create a new DOM element with attributes
+   * Explain why a value is not a well-formed persisted todo, or return null if it is
    */
-  static createElement<K extends keyof HTMLElementTagNameMap>(
-    tagName: K,
-    attributes: Record<string, string> = {},
-    textContent?: string
-  ): HTMLElementTagNameMap[K] {
-    const element = document.createElement(tagName);
-    
-    Object.entries(attributes).forEach(([key, value]) => {
-      element.setAttribute(key, value);
-    });
-    
-    if (textContent) {
-      element.textContent = textContent;
+  static describeInvalidStoredTodo(value: unknown): string | null {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return 'Todo must be an object';
+    }
+
+    const todo = value as Record<string, any>;
+    if (typeof todo.id !== 'string') return 'Todo id must be a string';
+    if (typeof todo.text !== 'string') return 'Todo text must be a string';
+    if (typeof todo.completed !== 'boolean') return 'Completed must be true or false';
+    if (typeof todo.createdAt !== 'string' || isNaN(Date.parse(todo.createdAt))) return 'Created date is not a valid date';
+    if (typeof todo.updatedAt !== 'string' || isNaN(Date.parse(todo.updatedAt))) return 'Updated date is not a valid date';
+    if (todo.dueAt !== undefined && (typeof todo.dueAt !== 'string' || isNaN(Date.parse(todo.dueAt)))) return 'Due date is not a valid date';
+    if (todo.dueAllDay !== undefined && typeof todo.dueAllDay !== 'boolean') return 'All-day flag must be true or false';
+    if (todo.priority !== undefined && !TODO_PRIORITIES.includes(todo.priority)) return `Invalid priority. Must be one of: ${TODO_PRIORITIES.join(', ')}`;
+    if (todo.tags !== undefined && !(Array.isArray(todo.tags) && todo.tags.every((tag: unknown) => typeof tag === 'string'))) return 'Tags must be a list of strings';
+    if (todo.parentId !== undefined && typeof todo.parentId !== 'string') return 'Parent id must be a string';
+    if (todo.order !== undefined && !(typeof todo.order === 'number' && Number.isFinite(todo.order))) return 'Order must be a number';
+    if (todo.completedAt !== undefined && (typeof todo.completedAt !== 'string' || isNaN(Date.parse(todo.completedAt)))) return 'Completion date is not a valid date';
+    if (todo.deletedAt !== undefined && (typeof todo.deletedAt !== 'string' || isNaN(Date.parse(todo.deletedAt)))) return 'Deletion date is not a valid date';
+
+    if (todo.recurrence !== undefined) {
+      try {
+        validateRecurrence(todo.recurrence);
+      } catch (error) {
+        return error instanceof Error ? error.message : 'Invalid recurrence';
+      }
     }
-    
-    return element;
+
+    return null;
   }
 
   /**
-   * Add CSS classes to element
+   * Check whether a value is a known filter type
    */
-  static addClasses(element: HTMLElement, ...classes: string[]): void {
-    element.classList.add(...classes);
+  static isValidFilter(filter: unknown): filter is TodoFilter {
+    return TODO_FILTERS.includes(filter as TodoFilter);
   }
 
   /**
-   * Remove CSS classes from element
+   * Check whether a value is a valid sort order
    */
-  static removeClasses(element: HTMLElement, ...classes: string[]): void {
-    element.classList.remove(...classes);
+  static isValidSort(sort: unknown): sort is TodoSort {
+    const candidate = sort as TodoSort | null;
+    return (
+      typeof candidate === 'object' &&
+      candidate !== null &&
+      TODO_SORT_FIELDS.includes(candidate.field) &&
+      (candidate.direction === 'asc' || candidate.direction === 'desc')
+    );
+  }
+
+  /**
+   * Parse a persisted sort order, falling back to the default
+   */
+  static parseSort(serializedSort: string | null): TodoSort {
+    if (!serializedSort) {
+      return { ...DEFAULT_SORT };
+    }
+
+    const sort = JSON.parse(serializedSort);
+    return StorageUtils.isValidSort(sort) ? sort : { ...DEFAULT_SORT };
   }
 
   /**
-   * Toggle CSS class on element
+   * Validate a persisted set of todo lists, returning null if unusable
    */
-  static toggleClass(element: HTMLElement, className: string, force?: boolean): void {
-    element.classList.toggle(className, force);
+  static parseLists(state: unknown): TodoListsState | null {
+    const candidate = state as TodoListsState | null;
+    if (typeof candidate !== 'object' || candidate === null || !Array.isArray(candidate.lists)) {
+      return null;
+    }
+
+    const lists = candidate.lists
+      .filter((list): list is TodoListInfo =>
+        typeof list === 'object' && list !== null && typeof list.id === 'string' && typeof list.name === 'string'
+      )
+      .map(list => ({ id: list.id, name: list.name }));
+
+    if (lists.length === 0) {
+      return null;
+    }
+
+    const currentListId = lists.some(list => list.id === candidate.currentListId)
+      ? candidate.currentListId
+      : lists[0]!.id;
+
+    return { lists, currentListId };
+  }
+
+  /**
+   * Keep only well-formed tag definitions
+   */
+  static parseTags(tags: unknown): TagDefinition[] {
+    if (!Array.isArray(tags)) {
+      return [];
+    }
+
+    return tags.filter((tag): tag is TagDefinition =>
+      typeof tag === 'object' &&
+      tag !== null &&
+      typeof tag.name === 'string' &&
+      typeof tag.color === 'string' &&
+      TAG_COLOR_PATTERN.test(tag.color)
+    );
   }
 }